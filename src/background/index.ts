@@ -1,4 +1,20 @@
-import { saveImage, getImageCount } from '../storage/service';
+import { saveImage, getImageCount, backfillImageHashes } from '../storage/service';
+import { getUpgradeCandidates, type UrlUpgradeContext } from '../sites/url-upgrade';
+import { extractPostMetadataFromUrl } from '../sites/extractors';
+import type {
+  PostMetadata,
+  SaveImageResult,
+  SavePickedImageMessage,
+  PickedImagesSavedMessage,
+  GetImageSrcsetMessage,
+  GetPostMetadataMessage,
+} from '../types';
+
+const SAVE_NOTIFICATIONS: Record<SaveImageResult['status'], { title: string; message: string }> = {
+  saved: { title: 'Image Saved', message: 'Image has been saved to your storage' },
+  merged: { title: 'Duplicate Merged', message: 'Image was already saved - tags merged into the existing copy' },
+  skipped: { title: 'Duplicate Skipped', message: 'Image is already in your storage' },
+};
 
 chrome.runtime.onInstalled.addListener(() => {
   chrome.contextMenus.create({
@@ -6,7 +22,17 @@ chrome.runtime.onInstalled.addListener(() => {
     title: 'Save to Image Storage',
     contexts: ['image'],
   });
+  chrome.contextMenus.create({
+    id: 'save-all-images',
+    title: 'Save Images from This Page...',
+    contexts: ['page'],
+  });
   updateBadge();
+
+  // Hash images saved by older versions so duplicate detection covers them
+  backfillImageHashes().catch(error => {
+    console.error('Failed to backfill image hashes:', error);
+  });
 });
 
 async function updateBadge() {
@@ -46,91 +72,72 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.type === 'UPDATE_BADGE') {
     updateBadge();
   }
+
+  // Images picked in the page overlay arrive one at a time
+  if (message.type === 'SAVE_PICKED_IMAGE' && sender.tab?.id) {
+    const { imageUrl, pageUrl, pageTitle } = message as SavePickedImageMessage;
+    captureAndSaveImage(sender.tab.id, imageUrl, pageUrl, pageTitle)
+      .then(result => {
+        notifyViewer(result);
+        sendResponse({ status: result.status });
+      })
+      .catch(error => {
+        sendResponse({ error: error instanceof Error ? error.message : 'Unknown error' });
+      });
+    return true; // Keep message channel open for async response
+  }
+
+  if (message.type === 'PICKED_IMAGES_SAVED') {
+    handlePickedImagesSaved(message as PickedImagesSavedMessage);
+  }
 });
 
+async function handlePickedImagesSaved({ saved, duplicates, failed }: PickedImagesSavedMessage) {
+  await updateBadge();
+
+  const settings = await chrome.storage.local.get(['showNotifications']);
+  if (!(settings.showNotifications ?? false)) return;
+
+  const parts = [`${saved} saved`];
+  if (duplicates > 0) parts.push(`${duplicates} already stored`);
+  if (failed > 0) parts.push(`${failed} failed`);
+
+  chrome.notifications.create({
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('src/icons/icon-48.png'),
+    title: 'Images Saved',
+    message: parts.join(', '),
+  });
+}
+
 chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+  if (info.menuItemId === 'save-all-images' && tab?.id) {
+    openImagePicker(tab.id);
+    return;
+  }
+
   if (info.menuItemId === 'save-image' && info.srcUrl && tab?.id) {
     const imageUrl = info.srcUrl;
     const pageUrl = info.pageUrl || tab.url || '';
     const pageTitle = tab.title || '';
 
-    let imageId: string;
+    let result: SaveImageResult;
 
     try {
-      // Try content script first (can access DOM for canvas capture)
-      const response = await chrome.tabs.sendMessage(tab.id, {
-        type: 'CAPTURE_IMAGE',
-        imageUrl: imageUrl,
-      });
+      result = await captureAndSaveImage(tab.id, imageUrl, pageUrl, pageTitle);
+    } catch (error) {
+      // Both methods failed - show error notification
+      const errorMsg = error instanceof Error
+        ? error.message
+        : 'Unknown error';
 
-      if (response.error) {
-        throw new Error(response.error);
-      }
-
-      // Use captured blob from content script
-      imageId = await saveImage(imageUrl, pageUrl, pageTitle, response.blob);
-    } catch (contentScriptError) {
-      // Content script failed, try background fetch with modified headers
-      const ruleId = Math.floor(Date.now() / 1000); // Use seconds as integer ID
-      try {
-        const imageHost = new URL(imageUrl).host;
-
-        // Add declarativeNetRequest rule to modify headers
-        await chrome.declarativeNetRequest.updateDynamicRules({
-          addRules: [
-            {
-              id: ruleId,
-              priority: 1,
-              action: {
-                type: 'modifyHeaders',
-                requestHeaders: [
-                  {
-                    header: 'Referer',
-                    operation: 'set',
-                    value: pageUrl,
-                  },
-                ],
-              },
-              condition: {
-                urlFilter: imageHost,
-                resourceTypes: ['xmlhttprequest'],
-              },
-            },
-          ],
-          removeRuleIds: [],
-        });
-
-        // Fetch the image
-        const response = await fetch(imageUrl);
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const blob = await response.blob();
-        imageId = await saveImage(imageUrl, pageUrl, pageTitle, blob);
-      } catch (fetchError) {
-        // Both methods failed - show error notification
-        const errorMsg = fetchError instanceof Error
-          ? fetchError.message
-          : 'Unknown error';
-
-        chrome.notifications.create({
-          type: 'basic',
-          iconUrl: chrome.runtime.getURL('src/icons/icon-48.png'),
-          title: 'Failed to Save Image',
-          message: `Could not save image: ${errorMsg}`,
-        });
-        return; // Exit early
-      } finally {
-        // Clean up the rule
-        await chrome.declarativeNetRequest.updateDynamicRules({
-          addRules: [],
-          removeRuleIds: [ruleId],
-        }).catch(() => {
-          // Ignore cleanup errors
-        });
-      }
+      chrome.notifications.create({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('src/icons/icon-48.png'),
+        title: 'Failed to Save Image',
+        message: `Could not save image: ${errorMsg}`,
+      });
+      return; // Exit early
     }
 
     // Update badge counter
@@ -142,19 +149,175 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
 
     if (showNotifications) {
       chrome.notifications.create(
-        imageId,
+        result.id,
         {
           type: 'basic',
           iconUrl: chrome.runtime.getURL('src/icons/icon-48.png'),
-          title: 'Image Saved',
-          message: 'Image has been saved to your storage',
+          ...SAVE_NOTIFICATIONS[result.status],
         }
       );
     }
 
-    // Always send message to viewer for toast notification
-    chrome.runtime.sendMessage({ type: 'IMAGE_SAVED', imageId }).catch(() => {
-      // Viewer page not open, ignore error
-    });
+    notifyViewer(result);
   }
 });
+
+chrome.commands.onCommand.addListener(async (command) => {
+  if (command === 'save-all-images') {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id) {
+      openImagePicker(tab.id);
+    }
+  }
+});
+
+function openImagePicker(tabId: number) {
+  chrome.tabs.sendMessage(tabId, { type: 'OPEN_IMAGE_PICKER' }).catch(() => {
+    // Content script not injected (e.g. chrome:// pages or tab opened before install)
+    chrome.notifications.create({
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('src/icons/icon-48.png'),
+      title: 'Cannot Pick Images',
+      message: 'Image picker is not available on this page. Try reloading the tab.',
+    });
+  });
+}
+
+// Sent to the viewer so it can insert the card and show a toast
+function notifyViewer(result: SaveImageResult) {
+  chrome.runtime.sendMessage({ type: 'IMAGE_SAVED', imageId: result.id, status: result.status }).catch(() => {
+    // Viewer page not open, ignore error
+  });
+}
+
+/**
+ * Saves an image from a tab. Known thumbnail URLs are first upgraded to
+ * their full-resolution originals (see sites/url-upgrade); if none of those
+ * can be fetched, the clicked URL is captured from the DOM by the content
+ * script, then fetched in the background with the page as Referer
+ * (anti-hotlinking). Throws if everything fails.
+ */
+async function captureAndSaveImage(
+  tabId: number,
+  imageUrl: string,
+  pageUrl: string,
+  pageTitle: string
+): Promise<SaveImageResult> {
+  const context: UrlUpgradeContext = { pageUrl, ...(await getImageSrcset(tabId, imageUrl)) };
+  const post = await getPostMetadata(tabId, imageUrl, pageUrl);
+
+  // Only fetching falls through to the next candidate; a failed save is
+  // thrown, so the image is never saved twice
+  for (const candidate of getUpgradeCandidates(imageUrl, context)) {
+    let blob: Blob;
+    try {
+      blob = await fetchImageBlob(candidate, pageUrl);
+      // Guessed URLs may answer with an HTML error page
+      if (!blob.type.startsWith('image/')) {
+        throw new Error(`Invalid content type: ${blob.type}`);
+      }
+    } catch (error) {
+      console.warn(`Could not fetch upgraded image ${candidate}:`, error);
+      continue;
+    }
+    return saveImage(candidate, pageUrl, pageTitle, blob, { clickedImageUrl: imageUrl, post });
+  }
+
+  let blob: Blob;
+  try {
+    // Try content script first (can access DOM for canvas capture)
+    const response = await chrome.tabs.sendMessage(tabId, {
+      type: 'CAPTURE_IMAGE',
+      imageUrl: imageUrl,
+    });
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    // Use captured blob from content script
+    blob = response.blob;
+  } catch {
+    // Content script failed, try background fetch with modified headers
+    blob = await fetchImageBlob(imageUrl, pageUrl);
+  }
+  return saveImage(imageUrl, pageUrl, pageTitle, blob, { post });
+}
+
+async function getImageSrcset(tabId: number, imageUrl: string): Promise<Pick<UrlUpgradeContext, 'srcset' | 'baseUrl'>> {
+  const message: GetImageSrcsetMessage = { type: 'GET_IMAGE_SRCSET', imageUrl };
+  try {
+    return (await chrome.tabs.sendMessage(tabId, message)) ?? {};
+  } catch {
+    // Content script not available; URL-based upgrades still apply
+    return {};
+  }
+}
+
+/**
+ * Artist, post ID, date and text of the post showing the image, read from
+ * the page by the content script. Falls back to what the page URL reveals.
+ */
+async function getPostMetadata(tabId: number, imageUrl: string, pageUrl: string): Promise<PostMetadata | null> {
+  const message: GetPostMetadataMessage = { type: 'GET_POST_METADATA', imageUrl };
+  try {
+    const response = await chrome.tabs.sendMessage(tabId, message);
+    if (response?.post) return response.post;
+  } catch {
+    // Content script not available
+  }
+  return extractPostMetadataFromUrl(pageUrl);
+}
+
+// Header rule ids, one per fetch; fetches overlap when saves run side by side
+let nextHeaderRuleId = 1;
+
+async function fetchImageBlob(imageUrl: string, pageUrl: string): Promise<Blob> {
+  const ruleId = nextHeaderRuleId++;
+  try {
+    const imageHost = new URL(imageUrl).host;
+
+    // Add declarativeNetRequest rule to modify headers
+    await chrome.declarativeNetRequest.updateDynamicRules({
+      addRules: [
+        {
+          id: ruleId,
+          priority: 1,
+          action: {
+            type: 'modifyHeaders',
+            requestHeaders: [
+              {
+                header: 'Referer',
+                operation: 'set',
+                value: pageUrl,
+              },
+            ],
+          },
+          condition: {
+            urlFilter: imageHost,
+            resourceTypes: ['xmlhttprequest'],
+          },
+        },
+      ],
+      // Drops a rule left over from before the service worker restarted
+      removeRuleIds: [ruleId],
+    });
+
+    // Fetch the image
+    const response = await fetch(imageUrl);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.blob();
+  } finally {
+    // Clean up the rule
+    await chrome.declarativeNetRequest.updateDynamicRules({
+      addRules: [],
+      removeRuleIds: [ruleId],
+    }).catch(() => {
+      // Ignore cleanup errors
+    });
+  }
+}
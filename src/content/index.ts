@@ -1,5 +1,28 @@
+import { openImagePicker } from './picker';
+import { extractPostMetadata } from '../sites/extractors';
+
 // Capture image data from DOM to avoid CORS issues
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.type === 'OPEN_IMAGE_PICKER') {
+    openImagePicker().catch(error => {
+      console.error('Failed to open image picker:', error);
+    });
+    return;
+  }
+
+  // Lets the background look for a larger srcset candidate before saving
+  if (message.type === 'GET_IMAGE_SRCSET') {
+    const img = findImageElement(message.imageUrl);
+    sendResponse({ srcset: img?.srcset || undefined, baseUrl: document.baseURI });
+    return;
+  }
+
+  if (message.type === 'GET_POST_METADATA') {
+    const img = findImageElement(message.imageUrl);
+    sendResponse({ post: extractPostMetadata(document, window.location.href, img) });
+    return;
+  }
+
   if (message.type === 'CAPTURE_IMAGE') {
     const img = findImageElement(message.imageUrl);
 
@@ -0,0 +1,102 @@
+import { getLargestSrcsetCandidate } from './srcset';
+
+export interface PageImage {
+  url: string;
+  width: number;
+  height: number;
+  source: 'img' | 'srcset' | 'background';
+}
+
+const MEASURE_TIMEOUT_MS = 5000;
+const MEASURE_CONCURRENCY = 6;
+
+/**
+ * Finds every image on the page: `<img>` elements, the largest candidate of
+ * each `srcset` (smaller candidates are lower-resolution copies of the same
+ * picture) and CSS background images. Images whose size isn't known from
+ * the DOM are loaded to measure them; ones that fail to load are dropped.
+ */
+export async function collectPageImages(): Promise<PageImage[]> {
+  const found = new Map<string, PageImage>();
+
+  const add = (rawUrl: string, source: PageImage['source'], width = 0, height = 0) => {
+    let url: string;
+    try {
+      url = new URL(rawUrl, document.baseURI).href;
+    } catch {
+      return;
+    }
+
+    const existing = found.get(url);
+    if (existing) {
+      if (width > existing.width) {
+        existing.width = width;
+        existing.height = height;
+      }
+      return;
+    }
+    found.set(url, { url, width, height, source });
+  };
+
+  Array.from(document.images).forEach(img => {
+    const src = img.currentSrc || img.src;
+    if (src) {
+      add(src, 'img', img.naturalWidth, img.naturalHeight);
+    }
+    if (img.srcset) {
+      const largest = getLargestSrcsetCandidate(img.srcset);
+      if (largest) add(largest, 'srcset');
+    }
+  });
+
+  document.querySelectorAll('picture source[srcset]').forEach(source => {
+    const largest = getLargestSrcsetCandidate(source.getAttribute('srcset') || '');
+    if (largest) add(largest, 'srcset');
+  });
+
+  document.querySelectorAll('body *').forEach(element => {
+    const backgroundImage = getComputedStyle(element).backgroundImage;
+    if (!backgroundImage || backgroundImage === 'none') return;
+
+    const urlRegex = /url\((['"]?)(.*?)\1\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = urlRegex.exec(backgroundImage)) !== null) {
+      add(match[2], 'background');
+    }
+  });
+
+  const images = Array.from(found.values());
+  const unmeasured = images.filter(image => image.width === 0 || image.height === 0);
+
+  // Measure with limited concurrency to avoid flooding the network
+  let next = 0;
+  const worker = async () => {
+    while (next < unmeasured.length) {
+      const image = unmeasured[next++];
+      const size = await measureImage(image.url);
+      image.width = size.width;
+      image.height = size.height;
+    }
+  };
+  await Promise.all(Array.from({ length: MEASURE_CONCURRENCY }, worker));
+
+  return images.filter(image => image.width > 0 && image.height > 0);
+}
+
+function measureImage(url: string): Promise<{ width: number; height: number }> {
+  return new Promise(resolve => {
+    const img = new Image();
+    const timer = setTimeout(() => finish(0, 0), MEASURE_TIMEOUT_MS);
+
+    function finish(width: number, height: number) {
+      clearTimeout(timer);
+      img.onload = null;
+      img.onerror = null;
+      resolve({ width, height });
+    }
+
+    img.onload = () => finish(img.naturalWidth, img.naturalHeight);
+    img.onerror = () => finish(0, 0);
+    img.src = url;
+  });
+}
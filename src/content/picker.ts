@@ -0,0 +1,402 @@
+import { collectPageImages, type PageImage } from './page-images';
+import type { SavePickedImageMessage, PickedImagesSavedMessage } from '../types';
+
+const DEFAULT_MIN_SIZE = 500;
+
+// Styles live inside a shadow root so the page's CSS can't affect the picker
+const PICKER_STYLES = `
+  :host {
+    all: initial;
+  }
+
+  .picker-overlay {
+    position: fixed;
+    inset: 0;
+    z-index: 2147483647;
+    background: rgba(0, 0, 0, 0.75);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    font-size: 14px;
+    color: #333;
+  }
+
+  .picker {
+    width: min(1100px, 94vw);
+    height: 88vh;
+    background: white;
+    border-radius: 12px;
+    display: flex;
+    flex-direction: column;
+    overflow: hidden;
+    box-shadow: 0 8px 32px rgba(0, 0, 0, 0.4);
+  }
+
+  .picker__toolbar {
+    display: flex;
+    align-items: center;
+    flex-wrap: wrap;
+    gap: 12px;
+    padding: 14px 20px;
+    border-bottom: 1px solid #e0e0e0;
+  }
+
+  .picker__title {
+    margin: 0 auto 0 0;
+    font-size: 18px;
+    font-weight: 600;
+  }
+
+  .picker__filter {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+  }
+
+  .picker__min-size {
+    width: 72px;
+    padding: 4px 8px;
+    border: 1px solid #ddd;
+    border-radius: 4px;
+    font: inherit;
+  }
+
+  .picker__count {
+    color: #666;
+  }
+
+  .picker__button {
+    padding: 6px 14px;
+    border: 1px solid #ddd;
+    border-radius: 6px;
+    background: white;
+    font: inherit;
+    cursor: pointer;
+  }
+
+  .picker__button:hover {
+    background: #f5f5f5;
+  }
+
+  .picker__button:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+
+  .picker__button--primary {
+    background: #007bff;
+    border-color: #007bff;
+    color: white;
+  }
+
+  .picker__button--primary:hover {
+    background: #0069d9;
+  }
+
+  .picker__status {
+    padding: 8px 20px;
+    background: #f8f9fa;
+    color: #555;
+    border-bottom: 1px solid #e0e0e0;
+  }
+
+  .picker__status:empty {
+    display: none;
+  }
+
+  .picker__grid {
+    flex: 1;
+    overflow-y: auto;
+    padding: 16px 20px;
+    display: grid;
+    grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+    gap: 12px;
+    align-content: start;
+  }
+
+  .picker__empty {
+    grid-column: 1 / -1;
+    text-align: center;
+    color: #666;
+    padding: 40px 0;
+  }
+
+  .picker-tile {
+    position: relative;
+    display: block;
+    border: 2px solid transparent;
+    border-radius: 8px;
+    background: #f0f0f0;
+    cursor: pointer;
+    overflow: hidden;
+  }
+
+  .picker-tile--selected {
+    border-color: #007bff;
+  }
+
+  .picker-tile--hidden {
+    display: none;
+  }
+
+  .picker-tile--saved {
+    border-color: #4caf50;
+  }
+
+  .picker-tile--failed {
+    border-color: #f44336;
+  }
+
+  .picker-tile__image {
+    display: block;
+    width: 100%;
+    height: 140px;
+    object-fit: contain;
+  }
+
+  .picker-tile__checkbox {
+    position: absolute;
+    top: 6px;
+    left: 6px;
+    width: 18px;
+    height: 18px;
+    margin: 0;
+    cursor: pointer;
+  }
+
+  .picker-tile__size {
+    display: block;
+    padding: 4px 8px;
+    font-size: 12px;
+    color: #666;
+    background: white;
+  }
+`;
+
+let pickerHost: HTMLElement | null = null;
+
+/**
+ * Shows an overlay listing every image on the page with a minimum-size
+ * filter and checkboxes, then sends the chosen images to the background
+ * worker one at a time.
+ */
+export async function openImagePicker(): Promise<void> {
+  if (pickerHost) return;
+
+  pickerHost = document.createElement('div');
+  const shadow = pickerHost.attachShadow({ mode: 'closed' });
+  shadow.innerHTML = `
+    <style>${PICKER_STYLES}</style>
+    <div class="picker-overlay">
+      <div class="picker" role="dialog" aria-label="Save images from this page">
+        <div class="picker__toolbar">
+          <h2 class="picker__title">Save images from this page</h2>
+          <label class="picker__filter">
+            Min size
+            <input class="picker__min-size" type="number" min="0" step="50" value="${DEFAULT_MIN_SIZE}" />
+            px
+          </label>
+          <span class="picker__count"></span>
+          <button class="picker__button" data-action="select-all">Select all</button>
+          <button class="picker__button" data-action="select-none">Select none</button>
+          <button class="picker__button picker__button--primary" data-action="save">Save selected</button>
+          <button class="picker__button" data-action="close" title="Close (Esc)">×</button>
+        </div>
+        <div class="picker__status">Scanning page for images...</div>
+        <div class="picker__grid"></div>
+      </div>
+    </div>
+  `;
+  document.documentElement.appendChild(pickerHost);
+
+  const overlay = shadow.querySelector('.picker-overlay') as HTMLElement;
+  const grid = shadow.querySelector('.picker__grid') as HTMLElement;
+  const status = shadow.querySelector('.picker__status') as HTMLElement;
+  const count = shadow.querySelector('.picker__count') as HTMLElement;
+  const minSizeInput = shadow.querySelector('.picker__min-size') as HTMLInputElement;
+  const saveButton = shadow.querySelector('[data-action="save"]') as HTMLButtonElement;
+
+  let images: PageImage[] = [];
+  const selected = new Set<string>();
+  let saving = false;
+
+  const passesFilter = (image: PageImage) => {
+    const minSize = Number(minSizeInput.value) || 0;
+    // Both sides must reach the minimum so thin banners and icons drop out
+    return Math.min(image.width, image.height) >= minSize;
+  };
+
+  const getTile = (url: string) =>
+    Array.from(grid.querySelectorAll<HTMLElement>('.picker-tile')).find(tile => tile.dataset.url === url);
+
+  const getImagesToSave = () => images.filter(image => selected.has(image.url) && passesFilter(image));
+
+  const updateTiles = () => {
+    grid.querySelectorAll<HTMLElement>('.picker-tile').forEach(tile => {
+      const url = tile.dataset.url!;
+      const image = images.find(img => img.url === url)!;
+      const isSelected = selected.has(url);
+      tile.classList.toggle('picker-tile--hidden', !passesFilter(image));
+      tile.classList.toggle('picker-tile--selected', isSelected);
+      (tile.querySelector('.picker-tile__checkbox') as HTMLInputElement).checked = isSelected;
+    });
+
+    const visibleCount = images.filter(passesFilter).length;
+    const toSaveCount = getImagesToSave().length;
+    count.textContent = `${toSaveCount} of ${visibleCount} selected`;
+    if (images.length > visibleCount) {
+      count.textContent += ` (${images.length - visibleCount} smaller hidden)`;
+    }
+    saveButton.disabled = saving || toSaveCount === 0;
+  };
+
+  const close = () => {
+    if (saving) return;
+    document.removeEventListener('keydown', handleKeydown, true);
+    pickerHost?.remove();
+    pickerHost = null;
+  };
+
+  const handleKeydown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      close();
+    }
+  };
+  document.addEventListener('keydown', handleKeydown, true);
+
+  overlay.addEventListener('click', (e) => {
+    // Clicking the dimmed backdrop closes the picker
+    if (e.target === overlay) close();
+  });
+
+  shadow.querySelector('[data-action="close"]')!.addEventListener('click', close);
+
+  shadow.querySelector('[data-action="select-all"]')!.addEventListener('click', () => {
+    images.filter(passesFilter).forEach(image => selected.add(image.url));
+    updateTiles();
+  });
+
+  shadow.querySelector('[data-action="select-none"]')!.addEventListener('click', () => {
+    selected.clear();
+    updateTiles();
+  });
+
+  minSizeInput.addEventListener('input', updateTiles);
+
+  grid.addEventListener('change', (e) => {
+    const checkbox = e.target as HTMLInputElement;
+    if (!checkbox.matches('.picker-tile__checkbox')) return;
+
+    const url = (checkbox.closest('.picker-tile') as HTMLElement).dataset.url!;
+    if (checkbox.checked) {
+      selected.add(url);
+    } else {
+      selected.delete(url);
+    }
+    updateTiles();
+  });
+
+  saveButton.addEventListener('click', async () => {
+    const toSave = getImagesToSave();
+    if (toSave.length === 0) return;
+
+    saving = true;
+    minSizeInput.disabled = true;
+    updateTiles();
+
+    let saved = 0;
+    let duplicates = 0;
+    let failed = 0;
+
+    for (let i = 0; i < toSave.length; i++) {
+      const image = toSave[i];
+      status.textContent = `Saving ${i + 1} of ${toSave.length}...`;
+
+      const message: SavePickedImageMessage = {
+        type: 'SAVE_PICKED_IMAGE',
+        imageUrl: image.url,
+        pageUrl: window.location.href,
+        pageTitle: document.title,
+      };
+
+      let succeeded = false;
+      try {
+        const response = await chrome.runtime.sendMessage(message);
+        if (response?.error) {
+          console.error(`Failed to save ${image.url}:`, response.error);
+          failed++;
+        } else if (response?.status === 'saved') {
+          succeeded = true;
+          saved++;
+        } else {
+          succeeded = true;
+          duplicates++;
+        }
+      } catch (error) {
+        console.error(`Failed to save ${image.url}:`, error);
+        failed++;
+      }
+
+      const tile = getTile(image.url);
+      tile?.classList.add(succeeded ? 'picker-tile--saved' : 'picker-tile--failed');
+      selected.delete(image.url);
+    }
+
+    const summary: PickedImagesSavedMessage = { type: 'PICKED_IMAGES_SAVED', saved, duplicates, failed };
+    chrome.runtime.sendMessage(summary).catch(() => {});
+
+    const parts = [`Saved ${saved}`];
+    if (duplicates > 0) parts.push(`${duplicates} already stored`);
+    if (failed > 0) parts.push(`${failed} failed`);
+    status.textContent = parts.join(', ');
+
+    saving = false;
+    minSizeInput.disabled = false;
+    updateTiles();
+  });
+
+  images = await collectPageImages();
+
+  // The picker may have been closed while scanning
+  if (!pickerHost) return;
+
+  if (images.length === 0) {
+    status.textContent = '';
+    grid.innerHTML = '<div class="picker__empty">No images found on this page</div>';
+    updateTiles();
+    return;
+  }
+
+  // Largest first so the images worth saving are at the top
+  images.sort((a, b) => b.width * b.height - a.width * a.height);
+  images.filter(passesFilter).forEach(image => selected.add(image.url));
+
+  images.forEach(image => {
+    const tile = document.createElement('label');
+    tile.className = 'picker-tile';
+    tile.dataset.url = image.url;
+    tile.title = image.url;
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.className = 'picker-tile__checkbox';
+
+    const img = document.createElement('img');
+    img.className = 'picker-tile__image';
+    img.loading = 'lazy';
+    img.src = image.url;
+    img.alt = '';
+
+    const size = document.createElement('span');
+    size.className = 'picker-tile__size';
+    size.textContent = `${image.width} × ${image.height}`;
+
+    tile.append(checkbox, img, size);
+    grid.appendChild(tile);
+  });
+
+  status.textContent = '';
+  updateTiles();
+}
@@ -0,0 +1,63 @@
+export interface SrcsetCandidate {
+  url: string;
+  // Width in pixels for `w` descriptors, pixel density for `x` descriptors
+  value: number;
+  descriptor: 'w' | 'x';
+}
+
+/**
+ * Parses an HTML srcset attribute into its candidates, following the
+ * HTML spec: a URL runs until whitespace and its descriptors until the next
+ * comma, so URLs containing commas (CDN resize params) survive.
+ * Candidates without a descriptor count as `1x`. URLs are returned as
+ * written; resolve them against the document base before use.
+ */
+export function parseSrcset(srcset: string): SrcsetCandidate[] {
+  const candidates: SrcsetCandidate[] = [];
+  let pos = 0;
+
+  while (pos < srcset.length) {
+    // Skip separators between candidates
+    while (pos < srcset.length && /[\s,]/.test(srcset[pos])) pos++;
+    if (pos >= srcset.length) break;
+
+    let end = pos;
+    while (end < srcset.length && !/\s/.test(srcset[end])) end++;
+    let url = srcset.slice(pos, end);
+    pos = end;
+
+    let descriptors = '';
+    if (url.endsWith(',')) {
+      // "a.jpg, b.jpg 2x": a trailing comma ends a candidate with no descriptor
+      url = url.replace(/,+$/, '');
+    } else {
+      const comma = srcset.indexOf(',', pos);
+      const descriptorsEnd = comma === -1 ? srcset.length : comma;
+      descriptors = srcset.slice(pos, descriptorsEnd).trim();
+      pos = descriptorsEnd + 1;
+    }
+
+    const match = descriptors.match(/^(\d+(?:\.\d+)?)([wx])$/i);
+    candidates.push({
+      url,
+      value: match ? parseFloat(match[1]) : 1,
+      descriptor: match ? (match[2].toLowerCase() as 'w' | 'x') : 'x',
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Returns the URL of the largest candidate in a srcset, or null if empty.
+ * Width descriptors win over density descriptors since they state the
+ * real pixel width.
+ */
+export function getLargestSrcsetCandidate(srcset: string): string | null {
+  const candidates = parseSrcset(srcset);
+  if (candidates.length === 0) return null;
+
+  const widthCandidates = candidates.filter(c => c.descriptor === 'w');
+  const pool = widthCandidates.length > 0 ? widthCandidates : candidates;
+  return pool.reduce((largest, c) => (c.value > largest.value ? c : largest)).url;
+}
@@ -0,0 +1,103 @@
+import type { ImageMetadata } from '../types';
+import { getImagePostMetadata } from './extractors';
+
+export interface Creator {
+  site: string;
+  handle: string;
+  // Lowercase `site/handle`, the form used by the account: metatag and the sidebar
+  key: string;
+}
+
+export interface SiteInfo {
+  label: string;
+  // Short glyph shown in a colored badge; no remote favicons are loaded
+  icon: string;
+  color: string;
+}
+
+export const SITE_INFO: Record<string, SiteInfo> = {
+  x: { label: 'X', icon: '𝕏', color: '#000000' },
+  pixiv: { label: 'Pixiv', icon: 'P', color: '#0096fa' },
+  fanbox: { label: 'Fanbox', icon: 'F', color: '#e6b800' },
+  deviantart: { label: 'DeviantArt', icon: 'DA', color: '#05cc47' },
+  artstation: { label: 'ArtStation', icon: 'A', color: '#13aff0' },
+  danbooru: { label: 'Danbooru', icon: 'D', color: '#0073ff' },
+  bluesky: { label: 'Bluesky', icon: 'B', color: '#1185fe' },
+  misskey: { label: 'Misskey', icon: 'M', color: '#86b300' },
+  tumblr: { label: 'Tumblr', icon: 't', color: '#001935' },
+};
+
+// Sites without an extractor are identified by host name
+const OTHER_SITE: SiteInfo = { label: 'Web', icon: '🌐', color: '#757575' };
+
+export function getSiteInfo(site: string): SiteInfo {
+  return SITE_INFO[site] ?? { ...OTHER_SITE, label: site };
+}
+
+/**
+ * The creator of a saved image: the artist captured by the site extractor,
+ * or derived from the page URL for images saved before extraction existed.
+ */
+export function getImageCreator(
+  image: Pick<ImageMetadata, 'pageUrl' | 'site' | 'artist' | 'postId' | 'postedAt' | 'postText'>
+): Creator | null {
+  const { site, artist } = getImagePostMetadata(image);
+  if (!site || !artist) return null;
+  return { site, handle: artist, key: `${site}/${artist.toLowerCase()}` };
+}
+
+/**
+ * Splits an account: metatag value. `pixiv/123` names a site; a bare
+ * handle (the pre-multi-site form) matches that handle on any site.
+ */
+export function parseAccountFilter(value: string): { site?: string; handle: string } {
+  const slash = value.indexOf('/');
+  if (slash > 0 && slash < value.length - 1) {
+    return { site: value.slice(0, slash).toLowerCase(), handle: value.slice(slash + 1) };
+  }
+  return { handle: value };
+}
+
+/**
+ * Whether a creator matches an account: metatag value. Handles compare
+ * case-insensitively since every supported site treats them that way.
+ */
+export function creatorMatchesAccount(creator: Creator, account: string): boolean {
+  const filter = parseAccountFilter(account);
+  if (filter.site && filter.site !== creator.site) return false;
+  return filter.handle.toLowerCase() === creator.handle.toLowerCase();
+}
+
+/**
+ * Whether an image's creator matches any of the account: metatag values.
+ */
+export function imageMatchesAnyAccount(
+  image: Parameters<typeof getImageCreator>[0],
+  accounts: ReadonlySet<string>
+): boolean {
+  const creator = getImageCreator(image);
+  return !!creator && Array.from(accounts).some(account => creatorMatchesAccount(creator, account));
+}
+
+/**
+ * Groups images by creator key. Images without a known creator are left out.
+ */
+export function groupImagesByCreator<T extends Parameters<typeof getImageCreator>[0]>(
+  images: T[]
+): Map<string, { creator: Creator; images: T[] }> {
+  const groups = new Map<string, { creator: Creator; images: T[] }>();
+
+  for (const image of images) {
+    const creator = getImageCreator(image);
+    if (!creator) continue;
+
+    const group = groups.get(creator.key);
+    if (group) {
+      group.images.push(image);
+    } else {
+      groups.set(creator.key, { creator, images: [image] });
+    }
+  }
+
+  return groups;
+}
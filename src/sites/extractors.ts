@@ -0,0 +1,337 @@
+import type { ImageMetadata, PostMetadata } from '../types';
+
+const MAX_POST_TEXT_LENGTH = 2000;
+
+/**
+ * Pulls structured post metadata for one site. `fromUrl` must be pure so it
+ * can run anywhere (background worker, viewer, tests); `fromDocument` runs
+ * in the content script at capture time and wins over URL-derived values.
+ * `image` is the element that was saved, when known, so feeds with many
+ * posts can be narrowed to the one containing it.
+ */
+export interface SiteExtractor {
+  site: string;
+  matches(url: URL): boolean;
+  fromUrl(url: URL): Partial<PostMetadata>;
+  fromDocument?(doc: Document, url: URL, image: Element | null): Partial<PostMetadata>;
+}
+
+function pathSegments(url: URL): string[] {
+  return url.pathname.split('/').filter(Boolean);
+}
+
+function parseTimestamp(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : time;
+}
+
+function cleanText(value: string | null | undefined): string | undefined {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  if (!text) return undefined;
+  return text.length > MAX_POST_TEXT_LENGTH ? text.slice(0, MAX_POST_TEXT_LENGTH) : text;
+}
+
+function metaContent(doc: Document, selector: string): string | undefined {
+  return doc.querySelector<HTMLMetaElement>(selector)?.content?.trim() || undefined;
+}
+
+/**
+ * OpenGraph/article meta tags. Only used by extractors whose pages are
+ * server-rendered, since single-page apps keep site-wide values there.
+ */
+function readOpenGraph(doc: Document): Partial<PostMetadata> {
+  return {
+    postedAt: parseTimestamp(metaContent(doc, 'meta[property="article:published_time"]')),
+    postText: cleanText(metaContent(doc, 'meta[property="og:description"]') ?? metaContent(doc, 'meta[name="description"]')),
+  };
+}
+
+const X_RESERVED_PATHS = new Set([
+  'i', 'home', 'explore', 'notifications', 'messages', 'search', 'settings', 'compose', 'hashtag',
+]);
+
+const xExtractor: SiteExtractor = {
+  site: 'x',
+  matches: url => /^(?:www\.|mobile\.)?(?:x|twitter)\.com$/.test(url.hostname),
+  fromUrl(url) {
+    const [handle, kind, id] = pathSegments(url);
+    if (!handle || X_RESERVED_PATHS.has(handle.toLowerCase())) return {};
+    return {
+      artist: handle,
+      postId: kind === 'status' && /^\d+$/.test(id ?? '') ? id : undefined,
+    };
+  },
+  fromDocument(doc, url, image) {
+    // Timelines hold many tweets; the one containing the image is the post
+    const article = image?.closest('article') ?? (xExtractor.fromUrl(url).postId ? doc.querySelector('article') : null);
+    if (!article) return {};
+
+    const time = article.querySelector('a[href*="/status/"] time');
+    const permalink = time?.closest('a')?.getAttribute('href')?.match(/^\/([^/]+)\/status\/(\d+)/);
+    return {
+      artist: permalink?.[1],
+      postId: permalink?.[2],
+      postedAt: parseTimestamp(time?.getAttribute('datetime')),
+      postText: cleanText(article.querySelector('[data-testid="tweetText"]')?.textContent),
+    };
+  },
+};
+
+const pixivExtractor: SiteExtractor = {
+  site: 'pixiv',
+  matches: url => url.hostname === 'www.pixiv.net' || url.hostname === 'pixiv.net',
+  fromUrl(url) {
+    return {
+      artist: url.pathname.match(/^\/(?:en\/)?users\/(\d+)/)?.[1],
+      postId: url.pathname.match(/^\/(?:en\/)?artworks\/(\d+)/)?.[1],
+    };
+  },
+  fromDocument(doc) {
+    const authorLink = doc.querySelector('main a[href*="/users/"]')?.getAttribute('href');
+    return {
+      ...readOpenGraph(doc),
+      artist: authorLink?.match(/\/users\/(\d+)/)?.[1],
+      postedAt: parseTimestamp(doc.querySelector('main time')?.getAttribute('datetime')),
+    };
+  },
+};
+
+const FANBOX_RESERVED_SUBDOMAINS = new Set(['www', 'api', 'downloads']);
+
+const fanboxExtractor: SiteExtractor = {
+  site: 'fanbox',
+  matches: url => url.hostname === 'fanbox.cc' || url.hostname.endsWith('.fanbox.cc'),
+  fromUrl(url) {
+    const subdomain = url.hostname.match(/^([^.]+)\.fanbox\.cc$/)?.[1];
+    const creator = subdomain && !FANBOX_RESERVED_SUBDOMAINS.has(subdomain)
+      ? subdomain
+      : url.pathname.match(/^\/@([^/]+)/)?.[1];
+    return {
+      artist: creator,
+      postId: url.pathname.match(/\/posts\/(\d+)/)?.[1],
+    };
+  },
+  fromDocument: doc => readOpenGraph(doc),
+};
+
+const DEVIANTART_RESERVED_PATHS = new Set(['search', 'tag', 'topic', 'watch', 'notifications', 'daily-deviations']);
+
+const deviantartExtractor: SiteExtractor = {
+  site: 'deviantart',
+  matches: url => url.hostname === 'www.deviantart.com' || url.hostname === 'deviantart.com',
+  fromUrl(url) {
+    const [artist, kind, slug] = pathSegments(url);
+    if (!artist || DEVIANTART_RESERVED_PATHS.has(artist.toLowerCase())) return {};
+    return {
+      artist,
+      postId: kind === 'art' ? slug?.match(/-(\d+)$/)?.[1] : undefined,
+    };
+  },
+  fromDocument(doc) {
+    return {
+      ...readOpenGraph(doc),
+      postedAt: parseTimestamp(doc.querySelector('main time')?.getAttribute('datetime')),
+    };
+  },
+};
+
+const ARTSTATION_RESERVED_PATHS = new Set(['artwork', 'search', 'learning', 'marketplace', 'jobs', 'blogs', 'prints', 'contests']);
+
+const artstationExtractor: SiteExtractor = {
+  site: 'artstation',
+  matches: url => url.hostname === 'artstation.com' || url.hostname.endsWith('.artstation.com'),
+  fromUrl(url) {
+    const [first, second] = pathSegments(url);
+    const subdomain = url.hostname.match(/^([^.]+)\.artstation\.com$/)?.[1];
+
+    // Portfolio sites: artist.artstation.com/projects/HASH
+    if (subdomain && subdomain !== 'www') {
+      return { artist: subdomain, postId: first === 'projects' ? second : undefined };
+    }
+    if (first === 'artwork') {
+      return { postId: second };
+    }
+    return first && !ARTSTATION_RESERVED_PATHS.has(first.toLowerCase()) ? { artist: first } : {};
+  },
+  fromDocument: doc => readOpenGraph(doc),
+};
+
+const danbooruExtractor: SiteExtractor = {
+  site: 'danbooru',
+  matches: url => url.hostname.endsWith('donmai.us'),
+  fromUrl(url) {
+    return { postId: url.pathname.match(/^\/posts\/(\d+)/)?.[1] };
+  },
+  fromDocument(doc) {
+    return {
+      artist: doc.querySelector('.artist-tag-list [data-tag-name]')?.getAttribute('data-tag-name') ?? undefined,
+      postedAt: parseTimestamp(doc.querySelector('#post-info-date time')?.getAttribute('datetime')),
+    };
+  },
+};
+
+const blueskyExtractor: SiteExtractor = {
+  site: 'bluesky',
+  matches: url => url.hostname === 'bsky.app',
+  fromUrl(url) {
+    const [profile, handle, kind, rkey] = pathSegments(url);
+    if (profile !== 'profile' || !handle) return {};
+    return { artist: handle, postId: kind === 'post' ? rkey : undefined };
+  },
+  fromDocument: doc => readOpenGraph(doc),
+};
+
+/**
+ * Misskey runs on many instances; the common ones all have "misskey" in
+ * their host name. Remote users keep their @user@host form.
+ */
+const misskeyExtractor: SiteExtractor = {
+  site: 'misskey',
+  matches: url => /(?:^|\.)misskey\.[a-z]+$/.test(url.hostname),
+  fromUrl(url) {
+    return {
+      artist: url.pathname.match(/^\/@([^/]+)/)?.[1],
+      postId: url.pathname.match(/^\/notes\/(\w+)/)?.[1],
+    };
+  },
+  fromDocument: doc => readOpenGraph(doc),
+};
+
+const TUMBLR_RESERVED_PATHS = new Set(['dashboard', 'explore', 'tagged', 'search', 'likes', 'settings', 'inbox']);
+
+const tumblrExtractor: SiteExtractor = {
+  site: 'tumblr',
+  matches: url => url.hostname === 'tumblr.com' || url.hostname.endsWith('.tumblr.com'),
+  fromUrl(url) {
+    const [first, second, third, fourth] = pathSegments(url);
+    const subdomain = url.hostname.match(/^([^.]+)\.tumblr\.com$/)?.[1];
+    const numericId = (value?: string) => (value && /^\d+$/.test(value) ? value : undefined);
+
+    // Blog subdomains: blog.tumblr.com/post/ID/slug
+    if (subdomain && subdomain !== 'www') {
+      return { artist: subdomain, postId: first === 'post' ? numericId(second) : undefined };
+    }
+    if (!first || TUMBLR_RESERVED_PATHS.has(first.toLowerCase())) return {};
+    // Old dashboard links: www.tumblr.com/blog/view/NAME/ID
+    if (first === 'blog' && second === 'view') {
+      return { artist: third, postId: numericId(fourth) };
+    }
+    // www.tumblr.com/NAME/ID/slug
+    return { artist: first, postId: numericId(second) };
+  },
+  fromDocument: doc => readOpenGraph(doc),
+};
+
+/**
+ * Fallback for every other site: the host is the site and the author comes
+ * from meta tags.
+ */
+const genericExtractor: SiteExtractor = {
+  site: 'web',
+  matches: () => true,
+  fromUrl: () => ({}),
+  fromDocument(doc) {
+    const author = metaContent(doc, 'meta[name="author"]')
+      ?? metaContent(doc, 'meta[property="article:author"]')
+      ?? metaContent(doc, 'meta[name="twitter:creator"]')?.replace(/^@/, '');
+    return {
+      ...readOpenGraph(doc),
+      // article:author is often a profile URL rather than a name
+      artist: author && !/^https?:\/\//.test(author) ? author : undefined,
+    };
+  },
+};
+
+const extractors: SiteExtractor[] = [
+  xExtractor,
+  pixivExtractor,
+  fanboxExtractor,
+  deviantartExtractor,
+  artstationExtractor,
+  danbooruExtractor,
+  blueskyExtractor,
+  misskeyExtractor,
+  tumblrExtractor,
+];
+
+function parsePageUrl(pageUrl: string): URL | null {
+  try {
+    const url = new URL(pageUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function findExtractor(url: URL): SiteExtractor {
+  return extractors.find(extractor => extractor.matches(url)) ?? genericExtractor;
+}
+
+function getSiteName(extractor: SiteExtractor, url: URL): string {
+  return extractor === genericExtractor ? url.hostname.replace(/^www\./, '') : extractor.site;
+}
+
+// Copies defined values only, so a missing DOM value doesn't erase one from the URL
+function mergeDefined(target: PostMetadata, source: Partial<PostMetadata>): PostMetadata {
+  for (const [key, value] of Object.entries(source)) {
+    if (value !== undefined && value !== '') {
+      (target as unknown as Record<string, unknown>)[key] = value;
+    }
+  }
+  return target;
+}
+
+/**
+ * Site and whatever the page URL alone reveals (artist handle, post ID).
+ * Returns null for non-web URLs such as imported local files.
+ */
+export function extractPostMetadataFromUrl(pageUrl: string): PostMetadata | null {
+  const url = parsePageUrl(pageUrl);
+  if (!url) return null;
+
+  const extractor = findExtractor(url);
+  return mergeDefined({ site: getSiteName(extractor, url) }, extractor.fromUrl(url));
+}
+
+/**
+ * Full extraction from the live page, run by the content script at capture
+ * time. DOM values override URL values; a failing DOM extractor degrades to
+ * the URL result.
+ */
+export function extractPostMetadata(doc: Document, pageUrl: string, image: Element | null = null): PostMetadata | null {
+  const url = parsePageUrl(pageUrl);
+  if (!url) return null;
+
+  const extractor = findExtractor(url);
+  const metadata = mergeDefined({ site: getSiteName(extractor, url) }, extractor.fromUrl(url));
+
+  try {
+    if (extractor.fromDocument) {
+      mergeDefined(metadata, extractor.fromDocument(doc, url, image));
+    }
+  } catch (error) {
+    console.error(`Site extractor "${extractor.site}" failed:`, error);
+  }
+
+  return metadata;
+}
+
+/**
+ * Post metadata for a saved image: the fields captured at save time, or for
+ * images saved before extraction existed, what can be derived from the URL.
+ */
+export function getImagePostMetadata(
+  image: Pick<ImageMetadata, 'pageUrl' | 'site' | 'artist' | 'postId' | 'postedAt' | 'postText'>
+): Partial<PostMetadata> {
+  if (image.site) {
+    return {
+      site: image.site,
+      artist: image.artist,
+      postId: image.postId,
+      postedAt: image.postedAt,
+      postText: image.postText,
+    };
+  }
+  return extractPostMetadataFromUrl(image.pageUrl) ?? {};
+}
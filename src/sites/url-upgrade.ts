@@ -0,0 +1,137 @@
+import { getLargestSrcsetCandidate } from '../content/srcset';
+
+export interface UrlUpgradeContext {
+  pageUrl?: string;
+  // srcset of the clicked <img>, if any, and the base URL to resolve it against
+  srcset?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Rewrites an image URL to higher-resolution variants of the same image.
+ * `resolve` returns candidate URLs best first, or an empty array when the
+ * resolver doesn't apply. Candidates are only guesses: the caller tries
+ * each one and falls back to the original URL if none can be fetched.
+ */
+export interface UrlUpgradeResolver {
+  name: string;
+  resolve(url: URL, context: UrlUpgradeContext): string[];
+}
+
+/**
+ * X/Twitter media: `?format=jpg&name=small` and legacy `.jpg:large`
+ * variants all have a `name=orig` original.
+ */
+const xResolver: UrlUpgradeResolver = {
+  name: 'x',
+  resolve(url) {
+    if (url.hostname !== 'pbs.twimg.com') return [];
+
+    // Legacy form: /media/ID.jpg or /media/ID.jpg:large
+    const legacy = url.pathname.match(/^(\/media\/[^/.:]+)\.(\w+)(?::\w+)?$/);
+    if (legacy) {
+      return [`${url.origin}${legacy[1]}?format=${legacy[2]}&name=orig`];
+    }
+
+    const name = url.searchParams.get('name');
+    if (url.searchParams.has('format') && name !== 'orig') {
+      const upgraded = new URL(url.href);
+      upgraded.searchParams.set('name', 'orig');
+      return [upgraded.href];
+    }
+
+    return [];
+  },
+};
+
+/**
+ * Pixiv: thumbnails and `_master1200` previews live under img-master or
+ * custom-thumb; the original sits under img-original with an unknown
+ * extension, so every common one is tried.
+ */
+const pixivResolver: UrlUpgradeResolver = {
+  name: 'pixiv',
+  resolve(url) {
+    if (url.hostname !== 'i.pximg.net') return [];
+
+    const match = url.pathname.match(
+      /^(?:\/c\/[^/]+)?\/(?:img-master|custom-thumb)\/img\/((?:\d+\/){6})(\d+_p\d+)_(?:master|custom|square)\d+\.\w+$/
+    );
+    if (!match) return [];
+
+    const [, datePath, pageId] = match;
+    return ['png', 'jpg', 'gif'].map(ext => `${url.origin}/img-original/img/${datePath}${pageId}.${ext}`);
+  },
+};
+
+/**
+ * Bluesky CDN: feed thumbnails have a full-size counterpart.
+ */
+const blueskyResolver: UrlUpgradeResolver = {
+  name: 'bluesky',
+  resolve(url) {
+    if (url.hostname !== 'cdn.bsky.app' || !url.pathname.startsWith('/img/feed_thumbnail/')) return [];
+    return [`${url.origin}${url.pathname.replace('/img/feed_thumbnail/', '/img/feed_fullsize/')}`];
+  },
+};
+
+/**
+ * Responsive images: the largest srcset candidate of the clicked element.
+ */
+const srcsetResolver: UrlUpgradeResolver = {
+  name: 'srcset',
+  resolve(_url, context) {
+    if (!context.srcset) return [];
+
+    const largest = getLargestSrcsetCandidate(context.srcset);
+    if (!largest) return [];
+
+    try {
+      return [new URL(largest, context.baseUrl || context.pageUrl).href];
+    } catch {
+      return [];
+    }
+  },
+};
+
+const resolvers: UrlUpgradeResolver[] = [xResolver, pixivResolver, blueskyResolver, srcsetResolver];
+
+/**
+ * Adds a resolver. Resolvers run in registration order, so earlier ones
+ * produce the first candidates to try.
+ */
+export function registerUrlUpgradeResolver(resolver: UrlUpgradeResolver): void {
+  resolvers.push(resolver);
+}
+
+/**
+ * Returns higher-resolution URLs to try before `imageUrl`, best first.
+ * Never includes `imageUrl` itself; empty when no resolver applies.
+ */
+export function getUpgradeCandidates(imageUrl: string, context: UrlUpgradeContext = {}): string[] {
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    return [];
+  }
+
+  const candidates: string[] = [];
+  for (const resolver of resolvers) {
+    let resolved: string[];
+    try {
+      resolved = resolver.resolve(url, context);
+    } catch (error) {
+      console.error(`URL upgrade resolver "${resolver.name}" failed:`, error);
+      continue;
+    }
+
+    for (const candidate of resolved) {
+      if (candidate !== url.href && !candidates.includes(candidate)) {
+        candidates.push(candidate);
+      }
+    }
+  }
+
+  return candidates;
+}
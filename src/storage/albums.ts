@@ -0,0 +1,151 @@
+import { imageDB } from './db';
+import type { Album } from '../types';
+
+// Album key (see albumSearchKey) → member image IDs, as used by the album: metatag
+export type AlbumMembership = ReadonlyMap<string, ReadonlySet<string>>;
+
+export async function getAlbums(): Promise<Album[]> {
+  return sortAlbums(await imageDB.getAllAlbums());
+}
+
+export async function createAlbum(name: string, description?: string): Promise<Album> {
+  const album: Album = {
+    id: crypto.randomUUID(),
+    name,
+    description: description || undefined,
+    imageIds: [],
+    createdAt: Date.now(),
+  };
+  await imageDB.putAlbum(album);
+  return album;
+}
+
+export async function updateAlbum(
+  id: string,
+  updates: Partial<Pick<Album, 'name' | 'description' | 'coverImageId'>>
+): Promise<void> {
+  const album = await imageDB.getAlbum(id);
+  if (album) {
+    await imageDB.putAlbum({ ...album, ...updates, updatedAt: Date.now() });
+  }
+}
+
+export async function deleteAlbum(id: string): Promise<void> {
+  await imageDB.deleteAlbum(id);
+}
+
+export async function addImagesToAlbum(id: string, imageIds: string[]): Promise<void> {
+  const album = await imageDB.getAlbum(id);
+  if (album) {
+    album.imageIds = appendAlbumImages(album.imageIds, imageIds);
+    album.updatedAt = Date.now();
+    await imageDB.putAlbum(album);
+  }
+}
+
+export async function removeImagesFromAlbum(id: string, imageIds: string[]): Promise<void> {
+  const album = await imageDB.getAlbum(id);
+  if (album) {
+    const removed = new Set(imageIds);
+    album.imageIds = album.imageIds.filter(imageId => !removed.has(imageId));
+    if (album.coverImageId && removed.has(album.coverImageId)) {
+      album.coverImageId = undefined;
+    }
+    album.updatedAt = Date.now();
+    await imageDB.putAlbum(album);
+  }
+}
+
+export async function reorderAlbumImages(id: string, movedIds: string[], beforeId: string | null): Promise<void> {
+  const album = await imageDB.getAlbum(id);
+  if (album) {
+    album.imageIds = moveAlbumImages(album.imageIds, movedIds, beforeId);
+    album.updatedAt = Date.now();
+    await imageDB.putAlbum(album);
+  }
+}
+
+/**
+ * Stores albums read from a backup. Albums that already exist keep their
+ * name and order and gain any members only the backup has.
+ */
+export async function mergeImportedAlbums(imported: Album[]): Promise<void> {
+  for (const album of imported) {
+    const existing = await imageDB.getAlbum(album.id);
+    await imageDB.putAlbum(existing ? mergeAlbum(existing, album) : album);
+  }
+}
+
+/**
+ * Alphabetical, case-insensitive.
+ */
+export function sortAlbums(albums: Album[]): Album[] {
+  return [...albums].sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+}
+
+/**
+ * The album: metatag form of a name: lowercase, with spaces as underscores
+ * (`album:summer_trip`), like tags.
+ */
+export function albumSearchKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+export function buildAlbumMembership(albums: Album[]): AlbumMembership {
+  const membership = new Map<string, Set<string>>();
+  for (const album of albums) {
+    const key = albumSearchKey(album.name);
+    const ids = membership.get(key) ?? new Set<string>();
+    album.imageIds.forEach(id => ids.add(id));
+    membership.set(key, ids);
+  }
+  return membership;
+}
+
+/**
+ * Appends images to the end of an album, skipping ones already in it.
+ */
+export function appendAlbumImages(imageIds: string[], added: string[]): string[] {
+  const result = [...imageIds];
+  const present = new Set(imageIds);
+  for (const id of added) {
+    if (!present.has(id)) {
+      present.add(id);
+      result.push(id);
+    }
+  }
+  return result;
+}
+
+/**
+ * Moves images (keeping their relative order) to just before `beforeId`,
+ * or to the end when `beforeId` is null or one of the moved images.
+ */
+export function moveAlbumImages(imageIds: string[], movedIds: string[], beforeId: string | null): string[] {
+  const moved = new Set(movedIds);
+  const block = imageIds.filter(id => moved.has(id));
+  const rest = imageIds.filter(id => !moved.has(id));
+
+  const index = beforeId !== null ? rest.indexOf(beforeId) : -1;
+  if (index === -1) return [...rest, ...block];
+  return [...rest.slice(0, index), ...block, ...rest.slice(index)];
+}
+
+/**
+ * The chosen cover if it's still in the album, otherwise the first image.
+ */
+export function getAlbumCoverId(album: Album): string | undefined {
+  if (album.coverImageId && album.imageIds.includes(album.coverImageId)) {
+    return album.coverImageId;
+  }
+  return album.imageIds[0];
+}
+
+export function mergeAlbum(existing: Album, imported: Album): Album {
+  return {
+    ...existing,
+    description: existing.description ?? imported.description,
+    coverImageId: existing.coverImageId ?? imported.coverImageId,
+    imageIds: appendAlbumImages(existing.imageIds, imported.imageIds),
+  };
+}
@@ -1,8 +1,43 @@
-import type { SavedImage } from '../types';
+import type { SavedImage, Album, ImageThumbnails, ImageVersion } from '../types';
 
 const DB_NAME = 'ImageStorageDB';
-const DB_VERSION = 3;
+const DB_VERSION = 10;
 const STORE_NAME = 'images';
+const BLOB_STORE_NAME = 'blobs';
+const ALBUM_STORE_NAME = 'albums';
+const THUMBNAIL_STORE_NAME = 'thumbnails';
+const VERSION_STORE_NAME = 'versions';
+
+// What the images store holds. Blobs live in their own store (keyed by image
+// id) so listing and editing metadata never reads or rewrites them.
+export type ImageRecord = Omit<SavedImage, 'blob'>;
+
+export type ProgressCallback = (current: number, total: number) => void;
+
+// Which images updateWhere visits: the ones under `query` in `index`, or all
+export interface UpdateWhereOptions {
+  index?: string;
+  query?: IDBValidKey | IDBKeyRange;
+  onProgress?: ProgressCallback;
+}
+
+export interface BlobRecord {
+  id: string;
+  blob: Blob;
+}
+
+/**
+ * Splits an image into its metadata record and blob record. Records from
+ * before version 8 carry the blob inline and are split the same way.
+ */
+export function splitImageRecord(image: ImageRecord & { blob?: Blob }): { record: ImageRecord; blob?: BlobRecord } {
+  const { blob, ...record } = image;
+  return blob ? { record, blob: { id: record.id, blob } } : { record };
+}
+
+export function joinImageRecord(record: ImageRecord, blob: BlobRecord | undefined): SavedImage | undefined {
+  return blob ? { ...record, blob: blob.blob } : undefined;
+}
 
 class ImageDB {
   private db: IDBDatabase | null = null;
@@ -33,6 +68,8 @@ class ImageDB {
           objectStore.createIndex('pageUrl', 'pageUrl', { unique: false });
           objectStore.createIndex('rating', 'rating', { unique: false });
           objectStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+          objectStore.createIndex('contentHash', 'contentHash', { unique: false });
+          objectStore.createIndex('tags', 'tags', { unique: false, multiEntry: true });
         } else {
           // Upgrade existing database
           objectStore = transaction.objectStore(STORE_NAME);
@@ -42,6 +79,37 @@ class ImageDB {
           if (!objectStore.indexNames.contains('updatedAt')) {
             objectStore.createIndex('updatedAt', 'updatedAt', { unique: false });
           }
+          if (!objectStore.indexNames.contains('contentHash')) {
+            objectStore.createIndex('contentHash', 'contentHash', { unique: false });
+          }
+          if (!objectStore.indexNames.contains('tags')) {
+            // multiEntry: one index entry per tag, used by library-wide tag operations
+            objectStore.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+          }
+          // Version 10: nothing queries by mime type, so the index only slowed writes
+          if (objectStore.indexNames.contains('mimeType')) {
+            objectStore.deleteIndex('mimeType');
+          }
+        }
+
+        if (!db.objectStoreNames.contains(ALBUM_STORE_NAME)) {
+          db.createObjectStore(ALBUM_STORE_NAME, { keyPath: 'id' });
+        }
+
+        if (!db.objectStoreNames.contains(THUMBNAIL_STORE_NAME)) {
+          db.createObjectStore(THUMBNAIL_STORE_NAME, { keyPath: 'id' });
+        }
+
+        if (!db.objectStoreNames.contains(VERSION_STORE_NAME)) {
+          db.createObjectStore(VERSION_STORE_NAME, { keyPath: 'id' });
+        }
+
+        if (!db.objectStoreNames.contains(BLOB_STORE_NAME)) {
+          const blobStore = db.createObjectStore(BLOB_STORE_NAME, { keyPath: 'id' });
+          // Version 8: move blobs out of existing image records
+          if (event.oldVersion > 0) {
+            moveBlobsToStore(objectStore, blobStore);
+          }
         }
       };
     });
@@ -49,17 +117,33 @@ class ImageDB {
 
   async add(image: SavedImage): Promise<string> {
     const db = await this.open();
+    const { record, blob } = splitImageRecord(image);
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.add(image);
+      const transaction = db.transaction([STORE_NAME, BLOB_STORE_NAME], 'readwrite');
+      transaction.objectStore(STORE_NAME).add(record);
+      transaction.objectStore(BLOB_STORE_NAME).put(blob);
 
-      request.onsuccess = () => resolve(image.id);
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve(image.id);
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
+  // Metadata and blob; use getMetadata when the blob isn't needed
   async get(id: string): Promise<SavedImage | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, BLOB_STORE_NAME], 'readonly');
+      const recordRequest = transaction.objectStore(STORE_NAME).get(id);
+      const blobRequest = transaction.objectStore(BLOB_STORE_NAME).get(id);
+
+      transaction.oncomplete = () => {
+        resolve(recordRequest.result ? joinImageRecord(recordRequest.result, blobRequest.result) : undefined);
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getMetadata(id: string): Promise<ImageRecord | undefined> {
     const db = await this.open();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([STORE_NAME], 'readonly');
@@ -71,12 +155,33 @@ class ImageDB {
     });
   }
 
+  /**
+   * Inserts or replaces an image, blob included (used by database import).
+   * Thumbnails and a kept original of a replaced image belong to the old
+   * file, so they're dropped in the same transaction; thumbnails are
+   * regenerated on next use.
+   */
   async update(image: SavedImage): Promise<void> {
+    const db = await this.open();
+    const { record, blob } = splitImageRecord(image);
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, BLOB_STORE_NAME, THUMBNAIL_STORE_NAME, VERSION_STORE_NAME], 'readwrite');
+      transaction.objectStore(STORE_NAME).put(record);
+      transaction.objectStore(BLOB_STORE_NAME).put(blob);
+      transaction.objectStore(THUMBNAIL_STORE_NAME).delete(record.id);
+      transaction.objectStore(VERSION_STORE_NAME).delete(record.id);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async updateMetadata(record: ImageRecord): Promise<void> {
     const db = await this.open();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([STORE_NAME], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(image);
+      const request = store.put(record);
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
@@ -84,6 +189,24 @@ class ImageDB {
   }
 
   async getAll(): Promise<SavedImage[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, BLOB_STORE_NAME], 'readonly');
+      const recordsRequest = transaction.objectStore(STORE_NAME).getAll();
+      const blobsRequest = transaction.objectStore(BLOB_STORE_NAME).getAll();
+
+      transaction.oncomplete = () => {
+        const blobs = new Map((blobsRequest.result as BlobRecord[]).map(blob => [blob.id, blob]));
+        const images = (recordsRequest.result as ImageRecord[])
+          .map(record => joinImageRecord(record, blobs.get(record.id)))
+          .filter((image): image is SavedImage => image !== undefined);
+        resolve(images);
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getAllMetadata(): Promise<ImageRecord[]> {
     const db = await this.open();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([STORE_NAME], 'readonly');
@@ -95,52 +218,199 @@ class ImageDB {
     });
   }
 
-  async getAllMetadata(): Promise<Omit<SavedImage, 'blob'>[]> {
+  async getByContentHash(contentHash: string): Promise<ImageRecord[]> {
     const db = await this.open();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([STORE_NAME], 'readonly');
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.openCursor();
-      const results: Omit<SavedImage, 'blob'>[] = [];
-
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
-        if (cursor) {
-          const { blob, ...metadata } = cursor.value;
-          results.push(metadata);
-          cursor.continue();
-        } else {
-          resolve(results);
-        }
-      };
+      const request = store.index('contentHash').getAll(contentHash);
+
+      request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
-  async getBlob(id: string): Promise<Blob | undefined> {
+  async getKeysByIndex(indexName: string, key: IDBValidKey): Promise<string[]> {
     const db = await this.open();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([STORE_NAME], 'readonly');
       const store = transaction.objectStore(STORE_NAME);
+      const request = store.index(indexName).getAllKeys(key);
+
+      request.onsuccess = () => resolve(request.result as string[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Metadata of the images that exist, in the order of `ids`
+  async getMany(ids: string[]): Promise<ImageRecord[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME], 'readonly');
+      const store = transaction.objectStore(STORE_NAME);
+      const results: ImageRecord[] = [];
+
+      for (const id of ids) {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (request.result) {
+            results.push(request.result);
+          }
+        };
+      }
+
+      transaction.oncomplete = () => resolve(results);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Deletes images with their blobs, thumbnails and kept originals in a
+   * single transaction.
+   */
+  async deleteMany(ids: string[], onProgress?: ProgressCallback): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, BLOB_STORE_NAME, THUMBNAIL_STORE_NAME, VERSION_STORE_NAME], 'readwrite');
+      const images = transaction.objectStore(STORE_NAME);
+      const blobs = transaction.objectStore(BLOB_STORE_NAME);
+      const thumbnails = transaction.objectStore(THUMBNAIL_STORE_NAME);
+      const versions = transaction.objectStore(VERSION_STORE_NAME);
+      let deleted = 0;
+
+      for (const id of ids) {
+        images.delete(id);
+        blobs.delete(id);
+        thumbnails.delete(id);
+        // The last of the four requests for this image
+        versions.delete(id).onsuccess = () => {
+          deleted++;
+          if (onProgress) {
+            onProgress(deleted, ids.length);
+          }
+        };
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Reads the given images, runs `update` on each and writes back the ones
+   * it changed, all in a single readwrite transaction, so no other write can
+   * land between the read and the write. `update` changes the record in
+   * place and returns whether it changed. Missing images are skipped.
+   * Returns how many images changed.
+   */
+  async updateMany(
+    ids: string[],
+    update: (image: ImageRecord) => boolean,
+    onProgress?: ProgressCallback
+  ): Promise<number> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      let visited = 0;
+      let updated = 0;
+
+      for (const id of ids) {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          const image = request.result as ImageRecord | undefined;
+          if (image && update(image)) {
+            store.put(image);
+            updated++;
+          }
+          visited++;
+          if (onProgress) {
+            onProgress(visited, ids.length);
+          }
+        };
+      }
+
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Runs `update` over every image, or the images under `query` in `index`,
+   * with a cursor in a single transaction: either every change is written or
+   * none is. `update` changes the record in place and returns whether it
+   * changed. Returns how many images changed.
+   */
+  async updateWhere(
+    update: (image: ImageRecord) => boolean,
+    options: UpdateWhereOptions = {}
+  ): Promise<number> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const source = options.index ? store.index(options.index) : store;
+      let total = 0;
+      let visited = 0;
+      let updated = 0;
+
+      const countRequest = source.count(options.query);
+      countRequest.onsuccess = () => {
+        total = countRequest.result;
+      };
+
+      const request = source.openCursor(options.query);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+
+        const image = cursor.value as ImageRecord;
+        if (update(image)) {
+          cursor.update(image);
+          updated++;
+        }
+        visited++;
+        if (options.onProgress) {
+          options.onProgress(visited, total);
+        }
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async getBlob(id: string): Promise<Blob | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([BLOB_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(BLOB_STORE_NAME);
       const request = store.get(id);
 
       request.onsuccess = () => {
-        const result = request.result;
-        resolve(result ? result.blob : undefined);
+        const result = request.result as BlobRecord | undefined;
+        resolve(result?.blob);
       };
       request.onerror = () => reject(request.error);
     });
   }
 
+  // Blob, thumbnails and kept original go with the image
   async delete(id: string): Promise<void> {
     const db = await this.open();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(id);
+      const transaction = db.transaction([STORE_NAME, BLOB_STORE_NAME, THUMBNAIL_STORE_NAME, VERSION_STORE_NAME], 'readwrite');
+      transaction.objectStore(STORE_NAME).delete(id);
+      transaction.objectStore(BLOB_STORE_NAME).delete(id);
+      transaction.objectStore(THUMBNAIL_STORE_NAME).delete(id);
+      transaction.objectStore(VERSION_STORE_NAME).delete(id);
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
@@ -159,14 +429,216 @@ class ImageDB {
   async clear(): Promise<void> {
     const db = await this.open();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
+      const transaction = db.transaction([STORE_NAME, BLOB_STORE_NAME, THUMBNAIL_STORE_NAME, VERSION_STORE_NAME], 'readwrite');
+      transaction.objectStore(STORE_NAME).clear();
+      transaction.objectStore(BLOB_STORE_NAME).clear();
+      transaction.objectStore(THUMBNAIL_STORE_NAME).clear();
+      transaction.objectStore(VERSION_STORE_NAME).clear();
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getThumbnails(id: string): Promise<ImageThumbnails | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([THUMBNAIL_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(THUMBNAIL_STORE_NAME);
+      const request = store.get(id);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async putThumbnails(thumbnails: ImageThumbnails): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([THUMBNAIL_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(THUMBNAIL_STORE_NAME);
+      const request = store.put(thumbnails);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async clearThumbnails(): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([THUMBNAIL_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(THUMBNAIL_STORE_NAME);
       const request = store.clear();
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   }
+
+  /**
+   * Replaces an image's file and metadata in one transaction. `original` is
+   * kept for rollback unless an earlier original is already kept.
+   */
+  async replaceFile(record: ImageRecord, blob: Blob, original?: ImageVersion): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, BLOB_STORE_NAME, VERSION_STORE_NAME], 'readwrite');
+      transaction.objectStore(STORE_NAME).put(record);
+      transaction.objectStore(BLOB_STORE_NAME).put({ id: record.id, blob });
+
+      if (original) {
+        const versions = transaction.objectStore(VERSION_STORE_NAME);
+        const request = versions.getKey(original.id);
+        request.onsuccess = () => {
+          if (request.result === undefined) {
+            versions.put(original);
+          }
+        };
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async getVersion(id: string): Promise<ImageVersion | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([VERSION_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(VERSION_STORE_NAME);
+      const request = store.get(id);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAllVersions(): Promise<ImageVersion[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([VERSION_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(VERSION_STORE_NAME);
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Puts a kept original back in place of the image's file and drops it from
+   * the versions store, in one transaction. Returns the restored record, or
+   * undefined when the image or its original is missing.
+   */
+  async restoreVersion(id: string, updatedAt: number): Promise<ImageRecord | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, BLOB_STORE_NAME, VERSION_STORE_NAME], 'readwrite');
+      const images = transaction.objectStore(STORE_NAME);
+      const versions = transaction.objectStore(VERSION_STORE_NAME);
+      const recordRequest = images.get(id);
+      const versionRequest = versions.get(id);
+      let restored: ImageRecord | undefined;
+
+      // Requests in a transaction complete in order, so both are ready here
+      versionRequest.onsuccess = () => {
+        const record = recordRequest.result as ImageRecord | undefined;
+        const version = versionRequest.result as ImageVersion | undefined;
+        if (!record || !version) return;
+
+        const { mimeType, fileSize, width, height } = version;
+        restored = { ...record, mimeType, fileSize, width, height, updatedAt };
+        images.put(restored);
+        transaction.objectStore(BLOB_STORE_NAME).put({ id, blob: version.blob });
+        versions.delete(id);
+      };
+
+      transaction.oncomplete = () => resolve(restored);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async clearVersions(): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([VERSION_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(VERSION_STORE_NAME);
+      const request = store.clear();
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAllAlbums(): Promise<Album[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([ALBUM_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(ALBUM_STORE_NAME);
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAlbum(id: string): Promise<Album | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([ALBUM_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(ALBUM_STORE_NAME);
+      const request = store.get(id);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async putAlbum(album: Album): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([ALBUM_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(ALBUM_STORE_NAME);
+      const request = store.put(album);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteAlbum(id: string): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([ALBUM_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(ALBUM_STORE_NAME);
+      const request = store.delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Moves inline blobs of image records into the blob store, inside the
+ * version change transaction, so an interrupted upgrade leaves both as they were.
+ */
+function moveBlobsToStore(images: IDBObjectStore, blobs: IDBObjectStore): void {
+  const request = images.openCursor();
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const { record, blob } = splitImageRecord(cursor.value);
+    if (blob) {
+      blobs.put(blob);
+      cursor.update(record);
+    }
+    cursor.continue();
+  };
 }
 
 export const imageDB = new ImageDB();
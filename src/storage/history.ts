@@ -0,0 +1,138 @@
+import type { SavedImage } from '../types';
+
+// Image fields an edit can change and undo can put back
+export type HistoryFields = Partial<Pick<SavedImage, 'tags' | 'rating' | 'isDeleted' | 'pageTitle' | 'pageUrl' | 'sources'>>;
+
+const HISTORY_FIELDS: (keyof HistoryFields)[] = ['tags', 'rating', 'isDeleted', 'pageTitle', 'pageUrl', 'sources'];
+
+export interface ImageChange {
+  imageId: string;
+  before: HistoryFields;
+  after: HistoryFields;
+}
+
+// One user action (a bulk tag, a multi-image delete, ...) with every image it changed
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  changes: ImageChange[];
+}
+
+/**
+ * Copies the undoable fields of an image, so later mutations of the image
+ * don't alter the snapshot.
+ */
+export function snapshotFields(image: Pick<SavedImage, keyof HistoryFields>): HistoryFields {
+  return JSON.parse(JSON.stringify(Object.fromEntries(HISTORY_FIELDS.map(field => [field, image[field]]))));
+}
+
+/**
+ * The change between two snapshots, limited to the fields that differ;
+ * null when nothing changed.
+ */
+export function diffFields(imageId: string, before: HistoryFields, after: HistoryFields): ImageChange | null {
+  const change: ImageChange = { imageId, before: {}, after: {} };
+  for (const field of HISTORY_FIELDS) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      (change.before as Record<string, unknown>)[field] = before[field];
+      (change.after as Record<string, unknown>)[field] = after[field];
+    }
+  }
+  return Object.keys(change.after).length > 0 ? change : null;
+}
+
+/**
+ * Writes snapshot fields onto an image. Fields present but undefined in the
+ * snapshot were unset at the time, so they're removed.
+ */
+export function applyFields<T extends Partial<SavedImage>>(image: T, fields: HistoryFields): T {
+  const result = { ...image };
+  for (const field of HISTORY_FIELDS) {
+    if (field in fields) {
+      const value = fields[field];
+      if (value === undefined) {
+        delete result[field];
+      } else {
+        (result as Record<string, unknown>)[field] = JSON.parse(JSON.stringify(value));
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Collects the image changes of one operation while it runs. Each operation
+ * gets its own, so edits that overlap in time never end up in each other's
+ * history entry.
+ */
+export class ChangeRecorder {
+  readonly changes: ImageChange[] = [];
+
+  record(imageId: string, before: HistoryFields, after: HistoryFields): void {
+    const change = diffFields(imageId, before, after);
+    if (change) {
+      this.changes.push(change);
+    }
+  }
+}
+
+/**
+ * Undo and redo stacks of recent operations. A new operation clears the redo
+ * stack; the oldest entries are dropped past `limit`.
+ */
+export class OperationHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor(private limit = 50) {}
+
+  push(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  /** Moves the latest operation to the redo stack and returns it. */
+  takeUndo(): HistoryEntry | undefined {
+    const entry = this.undoStack.pop();
+    if (entry) {
+      this.redoStack.push(entry);
+      this.notify();
+    }
+    return entry;
+  }
+
+  /** Moves the latest undone operation back to the undo stack and returns it. */
+  takeRedo(): HistoryEntry | undefined {
+    const entry = this.redoStack.pop();
+    if (entry) {
+      this.undoStack.push(entry);
+      this.notify();
+    }
+    return entry;
+  }
+
+  /** Operations that can be undone, newest first. */
+  get undoEntries(): HistoryEntry[] {
+    return [...this.undoStack].reverse();
+  }
+
+  /** Operations that can be redone, next redo first. */
+  get redoEntries(): HistoryEntry[] {
+    return [...this.redoStack].reverse();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Computes the SHA-256 digest of a blob as a lowercase hex string.
+ * Used as the content hash for exact duplicate detection.
+ */
+export async function computeContentHash(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// dHash compares each pixel with its right neighbour on a 9×8 grayscale
+// thumbnail, giving 8 bits per row and a 64-bit hash
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+/**
+ * Computes a 64-bit difference hash (dHash) as a 16-character hex string.
+ * Visually similar images (re-encoded, resized, lightly edited) produce
+ * hashes with a small Hamming distance.
+ */
+export async function computePerceptualHash(blob: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(blob, {
+    resizeWidth: DHASH_WIDTH,
+    resizeHeight: DHASH_HEIGHT,
+    resizeQuality: 'high',
+  });
+
+  const canvas = new OffscreenCanvas(DHASH_WIDTH, DHASH_HEIGHT);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Failed to get canvas context');
+  }
+
+  // Transparent areas hash as white rather than black
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+  const grayscale: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    grayscale.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+
+  return dHashFromGrayscale(grayscale);
+}
+
+/**
+ * Builds a dHash from a row-major 9×8 grayscale pixel array.
+ * A bit is set when a pixel is brighter than its right neighbour.
+ */
+export function dHashFromGrayscale(pixels: ArrayLike<number>): string {
+  if (pixels.length !== DHASH_WIDTH * DHASH_HEIGHT) {
+    throw new Error(`Expected ${DHASH_WIDTH * DHASH_HEIGHT} pixels, got ${pixels.length}`);
+  }
+
+  let hex = '';
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const left = pixels[y * DHASH_WIDTH + x];
+      const right = pixels[y * DHASH_WIDTH + x + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Splits a 16-character hex hash into two 32-bit halves.
+ */
+export function splitHash(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16) >>> 0, parseInt(hash.slice(8, 16), 16) >>> 0];
+}
+
+/**
+ * Counts set bits in a 32-bit integer.
+ */
+export function popCount32(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+/**
+ * Number of differing bits between two perceptual hashes.
+ */
+export function hammingDistance(a: string, b: string): number {
+  const [aHigh, aLow] = splitHash(a);
+  const [bHigh, bLow] = splitHash(b);
+  return popCount32((aHigh ^ bHigh) >>> 0) + popCount32((aLow ^ bLow) >>> 0);
+}
@@ -0,0 +1,477 @@
+import type { ImageMetadata } from '../types';
+import type { ParsedTagSearch, NumericFilter } from '../viewer/tag-utils';
+import { wildcardToRegExp, type NumericField, type QueryNode } from '../viewer/query-parser';
+import { sourcesMatchQuery } from './sources';
+import { imageMatchesAnyAccount } from '../sites/creators';
+import { getImagePostMetadata } from '../sites/extractors';
+import type { AlbumMembership } from './albums';
+import type { TagCategoryMap } from './tag-categories';
+
+export type IndexedField = 'tags' | 'rating' | 'mimeType' | 'deleted';
+
+// One posting list: the IDs of images whose `field` holds `value`.
+// Unrated images use rating 'unrated'; `deleted` is 'true' or 'false'.
+export interface PostingRef {
+  field: IndexedField;
+  value: string;
+}
+
+export interface ResidualCheck {
+  name: string;
+  test: (image: ImageMetadata) => boolean;
+}
+
+/**
+ * A compiled search. Every `required` group must match, where a group
+ * matches if any of its postings contains the image (AND of ORs); images in
+ * any `excluded` posting are dropped; `residual` checks run per record for
+ * conditions no index covers.
+ */
+export interface QueryPlan {
+  required: PostingRef[][];
+  excluded: PostingRef[];
+  residual: ResidualCheck[];
+}
+
+export interface QueryOptions {
+  view: 'all' | 'trash';
+  // URL/page title search, matched against all sources
+  urlQuery?: string;
+  // Viewer sort key, e.g. 'savedAt-desc'
+  sort?: string;
+  // Leave rating filters out (for per-rating counts)
+  ignoreRatings?: boolean;
+  // Album members for album: terms; without it album: matches nothing
+  albums?: AlbumMembership;
+  // Tag categories for artist: terms; without it artist: only matches post metadata
+  tagCategories?: TagCategoryMap;
+  offset?: number;
+  limit?: number;
+}
+
+export interface QueryResult {
+  // Sorted IDs of the requested page
+  ids: string[];
+  // Number of matches before paging
+  total: number;
+}
+
+/**
+ * Where the executor reads postings and records from. `getPostings`
+ * returns undefined when the source can't answer for that ref; the
+ * condition then becomes a per-record check.
+ */
+export interface PostingSource {
+  getPostings(ref: PostingRef): ReadonlySet<string> | undefined;
+  allIds(): Iterable<string>;
+  getRecord(id: string): ImageMetadata | undefined;
+}
+
+export function matchesNumericFilter(value: number, filter: NumericFilter): boolean {
+  switch (filter.operator) {
+    case 'list': return filter.values!.includes(value);
+    case 'range': return value >= filter.min! && value <= filter.max!;
+    case '=': return value === filter.value!;
+    case '>': return value > filter.value!;
+    case '<': return value < filter.value!;
+    case '>=': return value >= filter.value!;
+    case '<=': return value <= filter.value!;
+  }
+}
+
+function getNumericField(image: ImageMetadata, field: NumericField): number {
+  switch (field) {
+    case 'savedAt': return image.savedAt;
+    case 'updatedAt': return image.updatedAt ?? image.savedAt;
+    case 'age': return Date.now() - image.savedAt;
+    case 'updatedAge': return Date.now() - (image.updatedAt ?? image.savedAt);
+    case 'width': return image.width;
+    case 'height': return image.height;
+    case 'mpixels': return (image.width * image.height) / 1_000_000;
+    case 'fileSize': return image.fileSize;
+    // NaN for images without dimensions, which never matches
+    case 'ratio': return image.height ? image.width / image.height : NaN;
+  }
+}
+
+const NO_CATEGORIES: TagCategoryMap = {};
+
+/**
+ * An image's artists: the post's artist and its tags in the artist
+ * category, so artist:foo finds both a post by foo and a tag typed as
+ * artist:foo.
+ */
+function getImageArtists(image: ImageMetadata, categories: TagCategoryMap): string[] {
+  const artists = (image.tags ?? []).filter(tag => categories[tag] === 'artist');
+  const postArtist = getImagePostMetadata(image).artist?.toLowerCase();
+  return postArtist ? [postArtist, ...artists] : artists;
+}
+
+/**
+ * artist:/site: filters against the image's post metadata; artist: also
+ * matches tags in the artist category.
+ */
+export function matchesPostFilters(
+  image: ImageMetadata,
+  parsed: ParsedTagSearch,
+  categories: TagCategoryMap = NO_CATEGORIES
+): boolean {
+  const site = getImagePostMetadata(image).site?.toLowerCase();
+
+  if (parsed.artists.size > 0 || parsed.excludeArtists.size > 0) {
+    const artists = getImageArtists(image, categories);
+    if (parsed.artists.size > 0 && !artists.some(artist => parsed.artists.has(artist))) return false;
+    if (artists.some(artist => parsed.excludeArtists.has(artist))) return false;
+  }
+  if (parsed.sites.size > 0 && (!site || !parsed.sites.has(site))) return false;
+  if (site && parsed.excludeSites.has(site)) return false;
+  return true;
+}
+
+const wildcardCache = new Map<string, RegExp>();
+
+function matchesWildcard(tags: string[] | undefined, pattern: string): boolean {
+  if (!tags) return false;
+  let regex = wildcardCache.get(pattern);
+  if (!regex) {
+    regex = wildcardToRegExp(pattern);
+    wildcardCache.set(pattern, regex);
+  }
+  return tags.some(tag => regex!.test(tag));
+}
+
+const NO_ALBUMS: AlbumMembership = new Map();
+
+/**
+ * Evaluates a parsed query AST against one image.
+ */
+export function evaluateQueryNode(
+  node: QueryNode,
+  image: ImageMetadata,
+  albums: AlbumMembership = NO_ALBUMS,
+  categories: TagCategoryMap = NO_CATEGORIES
+): boolean {
+  switch (node.type) {
+    case 'tag':
+      return node.wildcard ? matchesWildcard(image.tags, node.tag) : !!image.tags && image.tags.includes(node.tag);
+    case 'rating':
+      return !!image.rating && node.ratings.includes(image.rating);
+    case 'unrated':
+      return !image.rating;
+    case 'fileType':
+      return node.mimeTypes.includes(image.mimeType);
+    case 'tagCount':
+      return matchesNumericFilter(image.tags?.length ?? 0, node.filter);
+    case 'numeric': {
+      const value = getNumericField(image, node.field);
+      return node.filters.some(filter => matchesNumericFilter(value, filter));
+    }
+    case 'account':
+      return imageMatchesAnyAccount(image, new Set(node.values));
+    case 'artist':
+      return getImageArtists(image, categories).some(artist => node.values.includes(artist));
+    case 'site': {
+      const site = getImagePostMetadata(image).site?.toLowerCase();
+      return !!site && node.values.includes(site);
+    }
+    case 'album':
+      return node.values.some(value => !!albums.get(value)?.has(image.id));
+    case 'not':
+      return !evaluateQueryNode(node.operand, image, albums, categories);
+    case 'and':
+      return node.operands.every(operand => evaluateQueryNode(operand, image, albums, categories));
+    case 'or':
+      return node.operands.some(operand => evaluateQueryNode(operand, image, albums, categories));
+  }
+}
+
+export function refMatchesImage(ref: PostingRef, image: ImageMetadata): boolean {
+  switch (ref.field) {
+    case 'tags': return !!image.tags && image.tags.includes(ref.value);
+    case 'rating': return (image.rating ?? 'unrated') === ref.value;
+    case 'mimeType': return image.mimeType === ref.value;
+    case 'deleted': return String(!!image.isDeleted) === ref.value;
+  }
+}
+
+export function compileQuery(parsed: ParsedTagSearch | null, options: QueryOptions): QueryPlan {
+  const plan: QueryPlan = {
+    required: [[{ field: 'deleted', value: String(options.view === 'trash') }]],
+    excluded: [],
+    residual: [],
+  };
+
+  if (options.urlQuery) {
+    const query = options.urlQuery.toLowerCase();
+    plan.residual.push({ name: 'url', test: image => sourcesMatchQuery(image, query) });
+  }
+
+  if (!parsed) return plan;
+
+  if (!options.ignoreRatings && (parsed.ratings.size > 0 || parsed.includeUnrated)) {
+    const group: PostingRef[] = Array.from(parsed.ratings).map(value => ({ field: 'rating', value }));
+    if (parsed.includeUnrated) group.push({ field: 'rating', value: 'unrated' });
+    plan.required.push(group);
+  }
+
+  if (parsed.fileTypes.size > 0) {
+    plan.required.push(Array.from(parsed.fileTypes).map(value => ({ field: 'mimeType', value })));
+  }
+
+  parsed.includeTags.forEach(tag => plan.required.push([{ field: 'tags', value: tag }]));
+  parsed.orGroups.forEach(group => plan.required.push(group.map(tag => ({ field: 'tags', value: tag }))));
+  parsed.excludeTags.forEach(tag => plan.excluded.push({ field: 'tags', value: tag }));
+
+  const tagCount = parsed.tagCount;
+  if (tagCount) {
+    plan.residual.push({ name: 'tagcount', test: image => matchesNumericFilter(image.tags?.length ?? 0, tagCount) });
+  }
+  if (parsed.accounts.size > 0) {
+    plan.residual.push({ name: 'account', test: image => imageMatchesAnyAccount(image, parsed.accounts) });
+  }
+  if (parsed.excludeAccounts.size > 0) {
+    plan.residual.push({ name: '-account', test: image => !imageMatchesAnyAccount(image, parsed.excludeAccounts) });
+  }
+  if (parsed.artists.size > 0 || parsed.excludeArtists.size > 0 || parsed.sites.size > 0 || parsed.excludeSites.size > 0) {
+    plan.residual.push({ name: 'post', test: image => matchesPostFilters(image, parsed, options.tagCategories) });
+  }
+  if (parsed.expressions.length > 0) {
+    plan.residual.push({
+      name: 'expression',
+      test: image => parsed.expressions.every(node => evaluateQueryNode(node, image, options.albums, options.tagCategories)),
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Runs a plan: intersects the available postings smallest first, drops
+ * excluded IDs, then applies per-record checks to what's left. Returns
+ * matching IDs in candidate order (unsorted).
+ */
+export function executePlan(plan: QueryPlan, source: PostingSource): string[] {
+  const required: ReadonlySet<string>[] = [];
+  const excluded: ReadonlySet<string>[] = [];
+  const residual = [...plan.residual];
+
+  for (const group of plan.required) {
+    const sets = group.map(ref => source.getPostings(ref));
+    if (sets.some(set => set === undefined)) {
+      residual.push({ name: 'posting', test: image => group.some(ref => refMatchesImage(ref, image)) });
+    } else if (sets.length === 1) {
+      required.push(sets[0]!);
+    } else {
+      const union = new Set<string>();
+      sets.forEach(set => set!.forEach(id => union.add(id)));
+      required.push(union);
+    }
+  }
+
+  for (const ref of plan.excluded) {
+    const set = source.getPostings(ref);
+    if (set) {
+      excluded.push(set);
+    } else {
+      residual.push({ name: 'posting', test: image => !refMatchesImage(ref, image) });
+    }
+  }
+
+  // The smallest posting drives iteration; the others are membership tests
+  required.sort((a, b) => a.size - b.size);
+  const candidates = required.length > 0 ? required[0] : source.allIds();
+  if (required.length > 0 && required[0].size === 0) return [];
+
+  const result: string[] = [];
+  for (const id of candidates) {
+    let matches = true;
+    for (let i = 1; i < required.length && matches; i++) {
+      matches = required[i].has(id);
+    }
+    for (let i = 0; i < excluded.length && matches; i++) {
+      matches = !excluded[i].has(id);
+    }
+    if (!matches) continue;
+
+    if (residual.length > 0) {
+      const image = source.getRecord(id);
+      if (!image || !residual.every(check => check.test(image))) continue;
+    }
+    result.push(id);
+  }
+
+  return result;
+}
+
+/**
+ * Orders two images by a viewer sort key ('savedAt-desc', 'url-asc', ...).
+ * Ties fall back to ID so results are stable across queries.
+ */
+export function compareImages(a: ImageMetadata, b: ImageMetadata, sort: string): number {
+  const [field, direction] = sort.split('-');
+  let comparison = 0;
+
+  switch (field) {
+    case 'savedAt':
+      comparison = a.savedAt - b.savedAt;
+      break;
+    case 'updatedAt':
+      comparison = (a.updatedAt ?? a.savedAt) - (b.updatedAt ?? b.savedAt);
+      break;
+    case 'fileSize':
+      comparison = a.fileSize - b.fileSize;
+      break;
+    case 'dimensions':
+      comparison = (a.width * a.height) - (b.width * b.height);
+      break;
+    case 'url':
+      comparison = a.imageUrl.localeCompare(b.imageUrl);
+      break;
+  }
+
+  if (direction !== 'asc') comparison = -comparison;
+  return comparison !== 0 ? comparison : (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+const postingKey = (field: IndexedField, value: string) => `${field}\u0000${value}`;
+
+// Fields whose change requires re-indexing or re-sorting a record
+type Snapshot = Pick<ImageMetadata,
+  'tags' | 'rating' | 'mimeType' | 'isDeleted' | 'savedAt' | 'updatedAt' | 'fileSize' | 'width' | 'height' | 'imageUrl'>;
+
+function takeSnapshot(image: ImageMetadata): Snapshot {
+  const { tags, rating, mimeType, isDeleted, savedAt, updatedAt, fileSize, width, height, imageUrl } = image;
+  return { tags, rating, mimeType, isDeleted, savedAt, updatedAt, fileSize, width, height, imageUrl };
+}
+
+function snapshotChanged(snapshot: Snapshot, image: ImageMetadata): boolean {
+  // Tag arrays are always replaced, never mutated, so identity is enough
+  return snapshot.tags !== image.tags || snapshot.rating !== image.rating ||
+    snapshot.mimeType !== image.mimeType || snapshot.isDeleted !== image.isDeleted ||
+    snapshot.savedAt !== image.savedAt || snapshot.updatedAt !== image.updatedAt ||
+    snapshot.fileSize !== image.fileSize || snapshot.width !== image.width ||
+    snapshot.height !== image.height || snapshot.imageUrl !== image.imageUrl;
+}
+
+/**
+ * In-memory inverted index over image metadata. `sync` brings it up to date
+ * with the current metadata array, re-indexing only records whose indexed
+ * fields changed, so it can run before every query.
+ */
+export class QueryIndex implements PostingSource {
+  private records = new Map<string, ImageMetadata>();
+  private snapshots = new Map<string, Snapshot>();
+  private postings = new Map<string, Set<string>>();
+  // Full sorted ID lists per sort key, dropped whenever anything changes
+  private sortedIds = new Map<string, string[]>();
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  sync(images: readonly ImageMetadata[]): void {
+    let changed = false;
+
+    for (const image of images) {
+      const snapshot = this.snapshots.get(image.id);
+      if (this.records.get(image.id) === image && snapshot && !snapshotChanged(snapshot, image)) continue;
+
+      if (snapshot) this.removePostings(image.id, snapshot);
+      this.records.set(image.id, image);
+      const next = takeSnapshot(image);
+      this.snapshots.set(image.id, next);
+      this.addPostings(image.id, next);
+      changed = true;
+    }
+
+    if (this.records.size > images.length || (changed && this.records.size !== images.length)) {
+      const current = new Set(images.map(image => image.id));
+      for (const id of Array.from(this.records.keys())) {
+        if (!current.has(id)) {
+          this.removePostings(id, this.snapshots.get(id)!);
+          this.records.delete(id);
+          this.snapshots.delete(id);
+          changed = true;
+        }
+      }
+    }
+
+    if (changed) this.sortedIds.clear();
+  }
+
+  getPostings(ref: PostingRef): ReadonlySet<string> {
+    return this.postings.get(postingKey(ref.field, ref.value)) ?? new Set<string>();
+  }
+
+  allIds(): Iterable<string> {
+    return this.records.keys();
+  }
+
+  getRecord(id: string): ImageMetadata | undefined {
+    return this.records.get(id);
+  }
+
+  /**
+   * Number of images carrying a tag, straight from the posting list.
+   */
+  getTagCount(tag: string): number {
+    return this.postings.get(postingKey('tags', tag))?.size ?? 0;
+  }
+
+  query(parsed: ParsedTagSearch | null, options: QueryOptions): QueryResult {
+    const matches = executePlan(compileQuery(parsed, options), this);
+    const sorted = options.sort ? this.sortMatches(matches, options.sort) : matches;
+
+    const offset = options.offset ?? 0;
+    const ids = options.limit !== undefined ? sorted.slice(offset, offset + options.limit) : sorted.slice(offset);
+    return { ids, total: matches.length };
+  }
+
+  private sortMatches(ids: string[], sort: string): string[] {
+    // Small result sets sort directly; large ones filter the cached full order
+    if (ids.length < this.records.size / 8) {
+      return ids
+        .map(id => this.records.get(id)!)
+        .sort((a, b) => compareImages(a, b, sort))
+        .map(image => image.id);
+    }
+
+    let order = this.sortedIds.get(sort);
+    if (!order) {
+      order = Array.from(this.records.values())
+        .sort((a, b) => compareImages(a, b, sort))
+        .map(image => image.id);
+      this.sortedIds.set(sort, order);
+    }
+
+    const wanted = new Set(ids);
+    return order.filter(id => wanted.has(id));
+  }
+
+  private addPostings(id: string, snapshot: Snapshot): void {
+    this.forEachKey(snapshot, key => {
+      let set = this.postings.get(key);
+      if (!set) {
+        set = new Set();
+        this.postings.set(key, set);
+      }
+      set.add(id);
+    });
+  }
+
+  private removePostings(id: string, snapshot: Snapshot): void {
+    this.forEachKey(snapshot, key => {
+      const set = this.postings.get(key);
+      if (!set) return;
+      set.delete(id);
+      if (set.size === 0) this.postings.delete(key);
+    });
+  }
+
+  private forEachKey(snapshot: Snapshot, callback: (key: string) => void): void {
+    callback(postingKey('deleted', String(!!snapshot.isDeleted)));
+    callback(postingKey('rating', snapshot.rating ?? 'unrated'));
+    callback(postingKey('mimeType', snapshot.mimeType));
+    snapshot.tags?.forEach(tag => callback(postingKey('tags', tag)));
+  }
+}
@@ -0,0 +1,84 @@
+import type { RecompressFormat, RecompressOptions } from '../types';
+import { fitThumbnailSize } from './thumbnails';
+
+export const RECOMPRESS_FORMATS: { format: RecompressFormat; label: string; lossless: boolean }[] = [
+  { format: 'image/webp', label: 'WebP', lossless: false },
+  { format: 'image/avif', label: 'AVIF', lossless: false },
+  { format: 'image/jpeg', label: 'JPEG', lossless: false },
+  { format: 'image/png', label: 'PNG (lossless)', lossless: true },
+];
+
+// GIFs may be animated and SVGs are vectors; a canvas keeps one raster frame
+const SKIPPED_TYPES = ['image/gif', 'image/svg+xml'];
+
+export interface RecompressedFile {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Sizes of a recompression preview, before and after
+export interface RecompressSummary {
+  count: number;
+  originalBytes: number;
+  newBytes: number;
+  savedBytes: number;
+}
+
+export function canRecompress(mimeType: string): boolean {
+  return mimeType.startsWith('image/') && !SKIPPED_TYPES.includes(mimeType);
+}
+
+export function summarizeRecompression(results: { originalSize: number; fileSize: number }[]): RecompressSummary {
+  const originalBytes = results.reduce((sum, result) => sum + result.originalSize, 0);
+  const newBytes = results.reduce((sum, result) => sum + result.fileSize, 0);
+  return { count: results.length, originalBytes, newBytes, savedBytes: originalBytes - newBytes };
+}
+
+/**
+ * Whether the browser's canvas can encode a format. Chrome, for one, can't
+ * encode AVIF yet.
+ */
+export async function canEncode(format: RecompressFormat): Promise<boolean> {
+  const blob = await new OffscreenCanvas(1, 1).convertToBlob({ type: format });
+  return blob.type === format;
+}
+
+/**
+ * Re-encodes an image in another format, scaled down to maxDimension if set.
+ * Throws when the browser can't decode the image or encode the format.
+ */
+export async function recompressImage(blob: Blob, options: RecompressOptions): Promise<RecompressedFile> {
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const { width, height } = options.maxDimension
+      ? fitThumbnailSize(bitmap.width, bitmap.height, options.maxDimension)
+      : { width: bitmap.width, height: bitmap.height };
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    // JPEG has no alpha; transparent areas would otherwise turn black
+    if (options.format === 'image/jpeg') {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const result = await canvas.convertToBlob({
+      type: options.format,
+      quality: options.format === 'image/png' ? undefined : options.quality,
+    });
+    // Browsers quietly fall back to PNG for formats they can't encode
+    if (result.type !== options.format) {
+      throw new Error(`This browser can't encode ${options.format}`);
+    }
+    return { blob: result, width, height };
+  } finally {
+    bitmap.close();
+  }
+}
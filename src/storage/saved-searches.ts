@@ -0,0 +1,107 @@
+export interface SavedSearch {
+  id: string;
+  name: string;
+  // URL/page title search box
+  urlQuery: string;
+  // Tag search box
+  tagQuery: string;
+  pinned: boolean;
+  createdAt: number;
+}
+
+const STORAGE_KEY = 'savedSearches';
+
+// Stored in the user's own order; pinned searches are listed first
+export async function loadSavedSearches(): Promise<SavedSearch[]> {
+  const result = await chrome.storage.local.get([STORAGE_KEY]);
+  return result[STORAGE_KEY] || [];
+}
+
+export async function saveSavedSearches(searches: SavedSearch[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: searches });
+}
+
+export async function addSavedSearch(search: Pick<SavedSearch, 'name' | 'urlQuery' | 'tagQuery'>): Promise<SavedSearch> {
+  const searches = await loadSavedSearches();
+  const newSearch: SavedSearch = {
+    ...search,
+    id: crypto.randomUUID(),
+    pinned: false,
+    createdAt: Date.now(),
+  };
+  searches.push(newSearch);
+  await saveSavedSearches(searches);
+  return newSearch;
+}
+
+export async function updateSavedSearch(id: string, updates: Partial<Omit<SavedSearch, 'id'>>): Promise<void> {
+  const searches = await loadSavedSearches();
+  const index = searches.findIndex(s => s.id === id);
+  if (index !== -1) {
+    searches[index] = { ...searches[index], ...updates };
+    await saveSavedSearches(searches);
+  }
+}
+
+export async function deleteSavedSearch(id: string): Promise<void> {
+  const searches = await loadSavedSearches();
+  await saveSavedSearches(searches.filter(s => s.id !== id));
+}
+
+export async function moveSavedSearch(id: string, offset: -1 | 1): Promise<void> {
+  const searches = await loadSavedSearches();
+  await saveSavedSearches(moveInDisplayOrder(searches, id, offset));
+}
+
+/**
+ * Display order: pinned searches first, otherwise the stored order.
+ */
+export function orderSavedSearches(searches: SavedSearch[]): SavedSearch[] {
+  return [...searches.filter(s => s.pinned), ...searches.filter(s => !s.pinned)];
+}
+
+/**
+ * Swaps a search with its neighbour in display order. Searches only move
+ * within their section (pinned or not); moving past either end is a no-op.
+ * Returns the new stored order.
+ */
+export function moveInDisplayOrder(searches: SavedSearch[], id: string, offset: -1 | 1): SavedSearch[] {
+  const ordered = orderSavedSearches(searches);
+  const index = ordered.findIndex(s => s.id === id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= ordered.length || ordered[target].pinned !== ordered[index].pinned) {
+    return searches;
+  }
+
+  [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+  return ordered;
+}
+
+export function exportSavedSearchesToJSON(searches: SavedSearch[]): string {
+  return JSON.stringify(searches, null, 2);
+}
+
+/**
+ * Builds the `#search=` fragment that opens a saved search in the viewer.
+ */
+export function buildSearchFragment(search: Pick<SavedSearch, 'id'>): string {
+  return `#search=${encodeURIComponent(search.id)}`;
+}
+
+/**
+ * Reads the saved search reference from a `#search=` fragment, or null.
+ */
+export function parseSearchFragment(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const value = params.get('search');
+  return value ? value.trim() || null : null;
+}
+
+/**
+ * Finds a saved search by ID, or by name (case-insensitive) so hand-written
+ * links like `#search=favorites` work too.
+ */
+export function findSavedSearch(searches: SavedSearch[], reference: string): SavedSearch | undefined {
+  const lower = reference.toLowerCase();
+  return searches.find(s => s.id === reference) ?? searches.find(s => s.name.toLowerCase() === lower);
+}
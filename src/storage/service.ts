@@ -1,7 +1,14 @@
-import { imageDB } from './db';
-import type { SavedImage } from '../types';
-import { loadTagRules, getAutoTags } from './tag-rules';
-import { sortTags } from '../viewer/tag-utils';
+import { imageDB, type ImageRecord, type ProgressCallback, type UpdateWhereOptions } from './db';
+import type { SavedImage, ImageSource, DuplicatePolicy, PostMetadata, SaveImageOptions, SaveImageResult, ImageThumbnails, ThumbnailSize, ImageVersion, RecompressOptions } from '../types';
+import { loadTagRules, evaluateRules, recordRuleHits, getImageRuleContext, type TagRule } from './tag-rules';
+import { extractTagCategories, parseCategorizedTag, setTagCategories, loadTagCategories, getTagCategory, type TagCategoryMap } from './tag-categories';
+import { loadTagAliasTable, applyTagAliases, type TagAliasTable } from './tag-aliases';
+import { OperationHistory, ChangeRecorder, snapshotFields, applyFields, type HistoryEntry, type HistoryFields, type ImageChange } from './history';
+import { sortTags, replaceTag } from '../viewer/tag-utils';
+import { computeContentHash, computePerceptualHash } from './image-hash';
+import { createThumbnails } from './thumbnails';
+import { RECOMPRESS_FORMATS, canEncode, canRecompress, recompressImage } from './recompress';
+import { getImageSources, mergeImageSource } from './sources';
 
 /**
  * Extracts rating from tags array and returns cleaned tags without rating tags.
@@ -28,12 +35,160 @@ export function extractRatingFromTags(tags: string[]): { rating?: 'g' | 's' | 'q
   return { rating, cleanedTags };
 }
 
+/**
+ * Strips category prefixes (artist:foo, char:bar) from typed tags and
+ * records the categories, so stored tags stay plain names.
+ */
+async function applyTagCategories(tags: string[]): Promise<string[]> {
+  const { tags: plainTags, categories } = extractTagCategories(tags);
+  if (Object.keys(categories).length > 0) {
+    await setTagCategories(categories);
+  }
+  return plainTags;
+}
+
+/**
+ * Prepares typed tags for storage: category prefixes are recorded and
+ * stripped, aliases are replaced and implied tags added.
+ */
+async function normalizeTags(tags: string[]): Promise<string[]> {
+  return applyTagAliases(await applyTagCategories(tags), await loadTagAliasTable());
+}
+
+// Metadata edits made from this page, for undo/redo. Saves, imports and
+// permanent deletes aren't recorded.
+export const operationHistory = new OperationHistory();
+
+/**
+ * Records every image change `operation` makes through its recorder as one
+ * history entry. With `parent`, the changes join that operation instead, so
+ * a bulk edit built from several service calls is undone in one step.
+ */
+export async function withHistory<T>(
+  label: string,
+  operation: (history: ChangeRecorder) => Promise<T>,
+  parent?: ChangeRecorder
+): Promise<T> {
+  if (parent) {
+    return operation(parent);
+  }
+
+  const history = new ChangeRecorder();
+  try {
+    return await operation(history);
+  } finally {
+    if (history.changes.length > 0) {
+      operationHistory.push({ id: crypto.randomUUID(), label, timestamp: Date.now(), changes: history.changes });
+    }
+  }
+}
+
+function recordChange(history: ChangeRecorder, imageId: string, before: HistoryFields, image: ImageRecord): void {
+  history.record(imageId, before, snapshotFields(image));
+}
+
+/**
+ * Applies `update` to the given images and writes the ones it changed back,
+ * reading and writing in a single transaction. `update` returns whether the
+ * image changed. Changes are recorded only once the write succeeds.
+ */
+async function updateImages(
+  ids: string[],
+  update: (image: ImageRecord) => boolean,
+  history: ChangeRecorder,
+  onProgress?: ProgressCallback
+): Promise<number> {
+  const changed: { image: ImageRecord; before: HistoryFields }[] = [];
+  const updated = await imageDB.updateMany(ids, image => {
+    const before = snapshotFields(image);
+    if (!update(image)) return false;
+    changed.push({ image, before });
+    return true;
+  }, onProgress);
+
+  changed.forEach(({ image, before }) => recordChange(history, image.id, before, image));
+  return updated;
+}
+
+/**
+ * Like updateImages, over every image matching an index query (or all of
+ * them) with a cursor, so the library is never loaded at once.
+ */
+async function updateImagesWhere(
+  update: (image: ImageRecord) => boolean,
+  history: ChangeRecorder,
+  options: UpdateWhereOptions = {}
+): Promise<number> {
+  const changed: { image: ImageRecord; before: HistoryFields }[] = [];
+  const updated = await imageDB.updateWhere(image => {
+    const before = snapshotFields(image);
+    if (!update(image)) return false;
+    changed.push({ image, before });
+    return true;
+  }, options);
+
+  changed.forEach(({ image, before }) => recordChange(history, image.id, before, image));
+  return updated;
+}
+
+async function applyHistoryChanges(changes: ImageChange[], side: 'before' | 'after'): Promise<void> {
+  // Undo replays an operation backwards, so an image changed twice ends at its first 'before'
+  const ordered = side === 'before' ? [...changes].reverse() : changes;
+  const changesById = new Map<string, ImageChange[]>();
+  for (const change of ordered) {
+    changesById.set(change.imageId, [...(changesById.get(change.imageId) ?? []), change]);
+  }
+  const updatedAt = Date.now();
+
+  // Images permanently deleted since are missing; nothing to restore
+  await imageDB.updateMany(Array.from(changesById.keys()), image => {
+    const restored = changesById.get(image.id)!.reduce((result, change) => applyFields(result, change[side]), image);
+    // updateMany writes the record it passed in; drop the fields recorded as unset
+    for (const key of Object.keys(image)) {
+      if (!(key in restored)) {
+        delete image[key as keyof ImageRecord];
+      }
+    }
+    Object.assign(image, restored, { updatedAt });
+    return true;
+  });
+}
+
+/**
+ * Reverts the latest recorded operation. Returns it, or undefined when
+ * there's nothing to undo.
+ */
+export async function undoOperation(): Promise<HistoryEntry | undefined> {
+  const entry = operationHistory.takeUndo();
+  if (entry) {
+    await applyHistoryChanges(entry.changes, 'before');
+  }
+  return entry;
+}
+
+/**
+ * Re-applies the latest undone operation.
+ */
+export async function redoOperation(): Promise<HistoryEntry | undefined> {
+  const entry = operationHistory.takeRedo();
+  if (entry) {
+    await applyHistoryChanges(entry.changes, 'after');
+  }
+  return entry;
+}
+
+export async function loadDuplicatePolicy(): Promise<DuplicatePolicy> {
+  const result = await chrome.storage.local.get(['duplicatePolicy']);
+  return result.duplicatePolicy ?? 'merge';
+}
+
 export async function saveImage(
   imageUrl: string,
   pageUrl: string,
   pageTitle?: string,
-  capturedBlob?: Blob
-): Promise<string> {
+  capturedBlob?: Blob,
+  options: SaveImageOptions = {}
+): Promise<SaveImageResult> {
   let blob: Blob;
 
   if (capturedBlob) {
@@ -55,15 +210,64 @@ export async function saveImage(
     }
   }
 
+  return storeImage(blob, imageUrl, pageUrl, pageTitle, options);
+}
+
+/**
+ * Stores a blob as a new image, or folds it into an existing image with the
+ * same content hash according to the duplicate policy setting.
+ */
+async function storeImage(
+  blob: Blob,
+  imageUrl: string,
+  pageUrl: string,
+  pageTitle?: string,
+  options: SaveImageOptions = {}
+): Promise<SaveImageResult> {
+  const contentHash = await computeContentHash(blob);
+
+  const { clickedImageUrl, post } = options;
+  // Decoded up front since rules can match on width, height and aspect ratio
   const dimensions = await getImageDimensions(blob);
 
   const rules = await loadTagRules();
-  const autoTags = getAutoTags(pageTitle || '', rules);
+  const { tags: ruleTags, ruleIds } = evaluateRules({
+    pageTitle: pageTitle || '',
+    pageUrl,
+    imageUrl,
+    mimeType: blob.type,
+    width: dimensions.width,
+    height: dimensions.height,
+    site: post?.site,
+    artist: post?.artist,
+  }, rules);
+  const autoTags = await normalizeTags(ruleTags);
 
   // Extract rating from tags and get cleaned tags
   const { rating, cleanedTags } = extractRatingFromTags(autoTags);
   const sortedTags = sortTags(cleanedTags);
 
+  const savedAt = Date.now();
+  const source: ImageSource = { imageUrl, pageUrl, pageTitle, capturedAt: savedAt };
+  if (clickedImageUrl) {
+    source.clickedImageUrl = clickedImageUrl;
+  }
+
+  const policy = await loadDuplicatePolicy();
+  if (policy !== 'keep') {
+    const duplicate = await findDuplicate(contentHash);
+    if (duplicate) {
+      const result = await resolveDuplicate(duplicate, policy, [source], sortedTags, rating, post);
+      // A skipped save gets none of the rules' tags, so they didn't hit
+      if (result.status === 'merged') {
+        await recordRuleHits(ruleIds);
+      }
+      return result;
+    }
+  }
+
+  const perceptualHash = await computePerceptualHash(blob).catch(() => undefined);
+
   const image: SavedImage = {
     id: crypto.randomUUID(),
     blob,
@@ -74,13 +278,421 @@ export async function saveImage(
     fileSize: blob.size,
     width: dimensions.width,
     height: dimensions.height,
-    savedAt: Date.now(),
+    savedAt,
     tags: sortedTags.length > 0 ? sortedTags : undefined,
     rating,
+    contentHash,
+    perceptualHash,
+    sources: [source],
+    clickedImageUrl,
+    site: post?.site,
+    artist: post?.artist,
+    postId: post?.postId,
+    postedAt: post?.postedAt,
+    postText: post?.postText,
   };
 
   await imageDB.add(image);
-  return image.id;
+  await recordRuleHits(ruleIds);
+  await storeThumbnails(image.id, blob);
+  return { id: image.id, status: 'saved' };
+}
+
+/**
+ * Generates and stores the grid thumbnails of an image. Formats the browser
+ * can't decode get none; the viewer shows the full image instead.
+ */
+async function storeThumbnails(id: string, blob: Blob): Promise<ImageThumbnails | undefined> {
+  const blobs = await createThumbnails(blob).catch(() => undefined);
+  if (!blobs) return undefined;
+
+  const thumbnails: ImageThumbnails = { id, blobs, createdAt: Date.now() };
+  await imageDB.putThumbnails(thumbnails);
+  return thumbnails;
+}
+
+/**
+ * A thumbnail of at most `size` pixels per side. Images saved before
+ * thumbnails existed get theirs on first use. Undefined when the image is
+ * gone or can't be decoded.
+ */
+export async function getThumbnailBlob(id: string, size: ThumbnailSize): Promise<Blob | undefined> {
+  const stored = await imageDB.getThumbnails(id);
+  if (stored) {
+    return stored.blobs[size];
+  }
+
+  const blob = await imageDB.getBlob(id);
+  if (!blob) return undefined;
+  return (await storeThumbnails(id, blob))?.blobs[size];
+}
+
+/**
+ * Regenerates the thumbnails of every image, trash included. Returns how
+ * many images got thumbnails.
+ */
+export async function rebuildThumbnails(onProgress?: (current: number, total: number) => void): Promise<number> {
+  await imageDB.clearThumbnails();
+  const metadata = await imageDB.getAllMetadata();
+  let rebuilt = 0;
+
+  for (let i = 0; i < metadata.length; i++) {
+    const blob = await imageDB.getBlob(metadata[i].id);
+    if (blob && await storeThumbnails(metadata[i].id, blob)) {
+      rebuilt++;
+    }
+
+    if (onProgress) {
+      onProgress(i + 1, metadata.length);
+    }
+  }
+
+  return rebuilt;
+}
+
+// A re-encoded image from previewRecompression, not yet stored
+export interface RecompressResult {
+  imageId: string;
+  blob: Blob;
+  mimeType: string;
+  fileSize: number;
+  width: number;
+  height: number;
+  originalMimeType: string;
+  originalSize: number;
+}
+
+/**
+ * Re-encodes images without storing them, to show what recompressing would
+ * save. Images that wouldn't get smaller, can't be decoded, or may be
+ * animated (GIFs) are left out. Throws when the browser can't encode the
+ * format at all.
+ */
+export async function previewRecompression(
+  imageIds: string[],
+  options: RecompressOptions,
+  onProgress?: ProgressCallback
+): Promise<RecompressResult[]> {
+  if (!await canEncode(options.format)) {
+    const label = RECOMPRESS_FORMATS.find(({ format }) => format === options.format)?.label ?? options.format;
+    throw new Error(`This browser can't encode ${label}`);
+  }
+
+  const images = await imageDB.getMany(imageIds);
+  const results: RecompressResult[] = [];
+
+  for (let i = 0; i < images.length; i++) {
+    const image = images[i];
+    const blob = canRecompress(image.mimeType) ? await imageDB.getBlob(image.id) : undefined;
+    if (blob) {
+      const recompressed = await recompressImage(blob, options).catch(() => undefined);
+      if (recompressed && recompressed.blob.size < blob.size) {
+        results.push({
+          imageId: image.id,
+          blob: recompressed.blob,
+          mimeType: recompressed.blob.type,
+          fileSize: recompressed.blob.size,
+          width: recompressed.width,
+          height: recompressed.height,
+          originalMimeType: image.mimeType,
+          originalSize: blob.size,
+        });
+      }
+    }
+
+    if (onProgress) {
+      onProgress(i + 1, images.length);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Stores files from previewRecompression in place of the originals and
+ * updates type, size and dimensions. With keepOriginals, each original is
+ * kept in the versions store for restoreOriginalImage. Hashes stay those of
+ * the original, so saving it again is still caught as a duplicate. Returns
+ * how many images were replaced.
+ */
+export async function applyRecompression(
+  results: RecompressResult[],
+  keepOriginals: boolean,
+  onProgress?: ProgressCallback
+): Promise<number> {
+  let replaced = 0;
+
+  for (let i = 0; i < results.length; i++) {
+    const result = results[i];
+    const image = await imageDB.get(result.imageId);
+    if (image) {
+      const { blob: originalBlob, ...record } = image;
+      const original: ImageVersion | undefined = keepOriginals
+        ? {
+            id: image.id,
+            blob: originalBlob,
+            mimeType: image.mimeType,
+            fileSize: image.fileSize,
+            width: image.width,
+            height: image.height,
+            createdAt: Date.now(),
+          }
+        : undefined;
+
+      await imageDB.replaceFile({
+        ...record,
+        mimeType: result.mimeType,
+        fileSize: result.fileSize,
+        width: result.width,
+        height: result.height,
+        updatedAt: Date.now(),
+      }, result.blob, original);
+      replaced++;
+    }
+
+    if (onProgress) {
+      onProgress(i + 1, results.length);
+    }
+  }
+
+  return replaced;
+}
+
+export async function getOriginalImage(id: string): Promise<ImageVersion | undefined> {
+  return imageDB.getVersion(id);
+}
+
+/**
+ * Rolls a recompressed image back to its kept original. Returns false when
+ * no original was kept.
+ */
+export async function restoreOriginalImage(id: string): Promise<boolean> {
+  return (await imageDB.restoreVersion(id, Date.now())) !== undefined;
+}
+
+// How many originals are kept for rollback and how much space they take
+export async function getOriginalsUsage(): Promise<{ count: number; bytes: number }> {
+  const versions = await imageDB.getAllVersions();
+  return { count: versions.length, bytes: versions.reduce((sum, version) => sum + version.fileSize, 0) };
+}
+
+/**
+ * Deletes every kept original to reclaim its space. Recompressed images
+ * can't be rolled back afterwards.
+ */
+export async function discardOriginalImages(): Promise<void> {
+  return imageDB.clearVersions();
+}
+
+/**
+ * Returns the stored image with the given content hash, other than
+ * `exceptId`, preferring one that is not in the trash.
+ */
+async function findDuplicate(contentHash: string, exceptId?: string): Promise<ImageRecord | undefined> {
+  const matches = (await imageDB.getByContentHash(contentHash)).filter(img => img.id !== exceptId);
+  return matches.find(img => !img.isDeleted) ?? matches[0];
+}
+
+async function resolveDuplicate(
+  existing: ImageRecord,
+  policy: DuplicatePolicy,
+  sources: ImageSource[],
+  tags: string[],
+  rating?: 'g' | 's' | 'q' | 'e',
+  post?: PostMetadata | null
+): Promise<SaveImageResult> {
+  if (policy === 'skip') {
+    // Saving something that only exists in the trash brings it back
+    if (existing.isDeleted) {
+      existing.isDeleted = false;
+      existing.updatedAt = Date.now();
+      await imageDB.updateMetadata(existing);
+    }
+    return { id: existing.id, status: 'skipped' };
+  }
+
+  existing.sources = sources.reduce(mergeImageSource, getImageSources(existing));
+  const mergedTags = sortTags(Array.from(new Set([...(existing.tags || []), ...tags])));
+  existing.tags = mergedTags.length > 0 ? mergedTags : undefined;
+  // Keep a rating the user already chose
+  existing.rating = existing.rating ?? rating;
+  // Post details stay with the first post that had any
+  if (!existing.site && post) {
+    existing.site = post.site;
+    existing.artist = post.artist;
+    existing.postId = post.postId;
+    existing.postedAt = post.postedAt;
+    existing.postText = post.postText;
+  }
+  existing.isDeleted = false;
+  existing.updatedAt = Date.now();
+  await imageDB.updateMetadata(existing);
+  return { id: existing.id, status: 'merged' };
+}
+
+export interface ImportImagesResult {
+  added: number;
+  merged: number;
+  skipped: number;
+}
+
+/**
+ * Writes images from a backup, replacing images with the same id. An image
+ * whose content is already in the library under another id goes through the
+ * duplicate policy, as if it were saved again.
+ */
+export async function importImages(images: SavedImage[]): Promise<ImportImagesResult> {
+  const policy = await loadDuplicatePolicy();
+  const result: ImportImagesResult = { added: 0, merged: 0, skipped: 0 };
+
+  for (const image of images) {
+    const duplicate = policy !== 'keep' && image.contentHash
+      ? await findDuplicate(image.contentHash, image.id)
+      : undefined;
+
+    if (!duplicate) {
+      await imageDB.update(image);
+      result.added++;
+    } else if (image.isDeleted) {
+      // A trashed copy adds nothing to the one in the library
+      result.skipped++;
+    } else {
+      const post = image.site
+        ? { site: image.site, artist: image.artist, postId: image.postId, postedAt: image.postedAt, postText: image.postText }
+        : null;
+      const { status } = await resolveDuplicate(duplicate, policy, getImageSources(image), image.tags ?? [], image.rating, post);
+      result[status === 'merged' ? 'merged' : 'skipped']++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Computes content and perceptual hashes for images saved before hashing
+ * existed, so they take part in duplicate and similarity detection.
+ */
+export async function backfillImageHashes(): Promise<number> {
+  const metadata = await imageDB.getAllMetadata();
+  let updated = 0;
+
+  for (const { id, contentHash, perceptualHash } of metadata) {
+    if (contentHash && perceptualHash) continue;
+
+    const image = await imageDB.getMetadata(id);
+    const blob = await imageDB.getBlob(id);
+    if (!image || !blob) continue;
+
+    image.contentHash = contentHash ?? await computeContentHash(blob);
+    // Formats the browser can't decode simply stay without a perceptual hash
+    image.perceptualHash = perceptualHash ?? await computePerceptualHash(blob).catch(() => undefined);
+    await imageDB.updateMetadata(image);
+    updated++;
+  }
+
+  return updated;
+}
+
+/**
+ * Rewrites the tags of every stored image through the current aliases and
+ * implications, for rules added after the images were tagged. Returns how
+ * many images changed.
+ */
+export async function applyTagAliasesToLibrary(): Promise<number> {
+  return withHistory('Apply tag aliases', async history => {
+    const table = await loadTagAliasTable();
+    const updatedAt = Date.now();
+
+    return updateImagesWhere(image => {
+      const tags = image.tags;
+      if (!tags || tags.length === 0) return false;
+
+      const { rating, cleanedTags } = extractRatingFromTags(applyTagAliases(tags, table));
+      const sortedTags = sortTags(cleanedTags);
+      if (rating === undefined && sortedTags.join(' ') === sortTags(tags).join(' ')) return false;
+
+      image.tags = sortedTags.length > 0 ? sortedTags : undefined;
+      if (rating !== undefined) {
+        image.rating = rating;
+      }
+      image.updatedAt = updatedAt;
+      return true;
+    }, history);
+  });
+}
+
+// What running auto-tag rules over a saved image would change
+export interface AutoTagChange {
+  imageId: string;
+  addedTags: string[];
+  // Category prefixes in the rule tags (artist:$1), recorded when applied
+  categories: TagCategoryMap;
+  // Only for images without a rating; one the user chose is kept
+  rating?: 'g' | 's' | 'q' | 'e';
+  // Rules that matched, for their hit counters
+  ruleIds: string[];
+}
+
+/**
+ * The tags (and rating) the rules would add to an image that was saved
+ * before they existed, normalized the way storeImage does. Null when the
+ * image already has everything.
+ */
+export function getAutoTagChange(
+  image: Omit<SavedImage, 'blob'>,
+  rules: TagRule[],
+  aliasTable: TagAliasTable
+): AutoTagChange | null {
+  const { tags: ruleTags, ruleIds } = evaluateRules(getImageRuleContext(image), rules);
+  const { rating, cleanedTags } = extractRatingFromTags(ruleTags);
+  const { tags, categories } = extractTagCategories(cleanedTags);
+
+  const existing = new Set(image.tags || []);
+  const addedTags = sortTags(applyTagAliases(tags, aliasTable).filter(tag => !existing.has(tag)));
+  const newRating = image.rating ? undefined : rating;
+
+  if (addedTags.length === 0 && !newRating) return null;
+  return { imageId: image.id, addedTags, categories, rating: newRating, ruleIds };
+}
+
+/**
+ * Dry run of auto-tag rules over saved images: what each would gain. Without
+ * ids, covers the whole library except the trash.
+ */
+export async function previewAutoTags(rules: TagRule[], imageIds?: string[]): Promise<AutoTagChange[]> {
+  const aliasTable = await loadTagAliasTable();
+  const ids = imageIds ? new Set(imageIds) : null;
+  const metadata = (await imageDB.getAllMetadata()).filter(image => ids ? ids.has(image.id) : !image.isDeleted);
+
+  return metadata
+    .map(image => getAutoTagChange(image, rules, aliasTable))
+    .filter((change): change is AutoTagChange => change !== null);
+}
+
+/**
+ * Applies changes from previewAutoTags as one undoable operation. Returns
+ * how many images changed.
+ */
+export async function applyAutoTags(
+  changes: AutoTagChange[],
+  onProgress?: ProgressCallback
+): Promise<number> {
+  const categories: TagCategoryMap = Object.assign({}, ...changes.map(change => change.categories));
+  if (Object.keys(categories).length > 0) {
+    await setTagCategories(categories);
+  }
+  await recordRuleHits(changes.flatMap(change => change.ruleIds));
+
+  const changesById = new Map(changes.map(change => [change.imageId, change]));
+  const updatedAt = Date.now();
+
+  return withHistory('Apply auto-tag rules', history => updateImages(Array.from(changesById.keys()), image => {
+    const change = changesById.get(image.id)!;
+    image.tags = sortTags(Array.from(new Set([...(image.tags || []), ...change.addedTags])));
+    image.rating = image.rating ?? change.rating;
+    image.updatedAt = updatedAt;
+    return true;
+  }, history, onProgress));
 }
 
 async function getImageDimensions(blob: Blob): Promise<{ width: number; height: number }> {
@@ -106,20 +718,43 @@ export async function getImage(id: string): Promise<SavedImage | undefined> {
   return imageDB.get(id);
 }
 
-export async function deleteImage(id: string): Promise<void> {
-  const image = await imageDB.get(id);
-  if (image) {
+// One image's metadata, without reading its blob
+export async function getImageMetadata(id: string): Promise<Omit<SavedImage, 'blob'> | undefined> {
+  return imageDB.getMetadata(id);
+}
+
+export async function deleteImage(id: string, parent?: ChangeRecorder): Promise<void> {
+  return trashImages([id], undefined, parent);
+}
+
+export async function restoreImage(id: string, parent?: ChangeRecorder): Promise<void> {
+  return restoreImages([id], undefined, parent);
+}
+
+// Moves images to the trash in a single transaction
+export async function trashImages(
+  imageIds: string[],
+  onProgress?: ProgressCallback,
+  parent?: ChangeRecorder
+): Promise<void> {
+  await withHistory('Move to trash', history => updateImages(imageIds, image => {
+    if (image.isDeleted) return false;
     image.isDeleted = true;
-    await imageDB.update(image);
-  }
+    return true;
+  }, history, onProgress), parent);
 }
 
-export async function restoreImage(id: string): Promise<void> {
-  const image = await imageDB.get(id);
-  if (image) {
+// Takes images back out of the trash in a single transaction
+export async function restoreImages(
+  imageIds: string[],
+  onProgress?: ProgressCallback,
+  parent?: ChangeRecorder
+): Promise<void> {
+  await withHistory('Restore from trash', history => updateImages(imageIds, image => {
+    if (!image.isDeleted) return false;
     image.isDeleted = false;
-    await imageDB.update(image);
-  }
+    return true;
+  }, history, onProgress), parent);
 }
 
 export async function permanentlyDeleteImage(id: string): Promise<void> {
@@ -127,51 +762,58 @@ export async function permanentlyDeleteImage(id: string): Promise<void> {
 }
 
 export async function getImageCount(): Promise<number> {
-  const images = await imageDB.getAll();
+  const images = await imageDB.getAllMetadata();
   return images.filter(img => !img.isDeleted).length;
 }
 
-export async function deleteAllImages(): Promise<void> {
-  const images = await imageDB.getAll();
-  for (const image of images) {
-    if (!image.isDeleted) {
-      image.isDeleted = true;
-      await imageDB.update(image);
-    }
-  }
+export async function deleteAllImages(onProgress?: ProgressCallback): Promise<void> {
+  await imageDB.updateWhere(image => {
+    if (image.isDeleted) return false;
+    image.isDeleted = true;
+    return true;
+  }, { onProgress });
 }
 
-export async function emptyTrash(): Promise<void> {
-  const images = await imageDB.getAll();
-  for (const image of images) {
-    if (image.isDeleted) {
-      await imageDB.delete(image.id);
-    }
-  }
+export async function emptyTrash(onProgress?: ProgressCallback): Promise<void> {
+  const images = await imageDB.getAllMetadata();
+  const trashedIds = images.filter(image => image.isDeleted).map(image => image.id);
+  await imageDB.deleteMany(trashedIds, onProgress);
 }
 
-export async function updateImageTags(id: string, tags: string[]): Promise<void> {
-  const image = await imageDB.get(id);
-  if (image) {
-    // Extract rating from tags and get cleaned tags
-    const { rating, cleanedTags } = extractRatingFromTags(tags);
-    const sortedTags = sortTags(cleanedTags);
-    image.tags = sortedTags.length > 0 ? sortedTags : undefined;
-    // Only update rating if a rating tag was found
-    if (rating !== undefined) {
-      image.rating = rating;
+export async function updateImageTags(id: string, tags: string[], parent?: ChangeRecorder): Promise<void> {
+  return withHistory('Edit tags', async history => {
+    const image = await imageDB.getMetadata(id);
+    if (image) {
+      const before = snapshotFields(image);
+      // Extract rating from tags and get cleaned tags
+      const { rating, cleanedTags } = extractRatingFromTags(await normalizeTags(tags));
+      const sortedTags = sortTags(cleanedTags);
+      image.tags = sortedTags.length > 0 ? sortedTags : undefined;
+      // Only update rating if a rating tag was found
+      if (rating !== undefined) {
+        image.rating = rating;
+      }
+      image.updatedAt = Date.now();
+      await imageDB.updateMetadata(image);
+      recordChange(history, image.id, before, image);
     }
-    image.updatedAt = Date.now();
-    await imageDB.update(image);
-  }
+  }, parent);
 }
 
-export async function addTagsToImages(imageIds: string[], tagsToAdd: string[]): Promise<void> {
-  for (const id of imageIds) {
-    const image = await imageDB.get(id);
-    if (image) {
+export async function addTagsToImages(
+  imageIds: string[],
+  tagsToAdd: string[],
+  onProgress?: ProgressCallback,
+  parent?: ChangeRecorder
+): Promise<void> {
+  await withHistory('Add tags', async history => {
+    tagsToAdd = await applyTagCategories(tagsToAdd);
+    const aliasTable = await loadTagAliasTable();
+    const updatedAt = Date.now();
+
+    return updateImages(imageIds, image => {
       const existingTags = image.tags || [];
-      const uniqueTags = Array.from(new Set([...existingTags, ...tagsToAdd]));
+      const uniqueTags = applyTagAliases([...existingTags, ...tagsToAdd], aliasTable);
       // Extract rating from combined tags and get cleaned tags
       const { rating, cleanedTags } = extractRatingFromTags(uniqueTags);
       const sortedTags = sortTags(cleanedTags);
@@ -180,71 +822,179 @@ export async function addTagsToImages(imageIds: string[], tagsToAdd: string[]):
       if (rating !== undefined) {
         image.rating = rating;
       }
-      image.updatedAt = Date.now();
-      await imageDB.update(image);
-    }
-  }
+      image.updatedAt = updatedAt;
+      return true;
+    }, history, onProgress);
+  }, parent);
 }
 
-export async function removeTagsFromImages(imageIds: string[], tagsToRemove: string[]): Promise<void> {
-  const tagsToRemoveSet = new Set(tagsToRemove);
+export async function removeTagsFromImages(
+  imageIds: string[],
+  tagsToRemove: string[],
+  onProgress?: ProgressCallback,
+  parent?: ChangeRecorder
+): Promise<void> {
+  // artist:foo removes foo; the prefix only names a category
+  const tagsToRemoveSet = new Set(tagsToRemove.map(tag => parseCategorizedTag(tag).tag));
   // Check if any rating tags are being removed
   const removingRating = tagsToRemove.some(tag => /^rating:[gsqe]$/i.test(tag));
-
-  for (const id of imageIds) {
-    const image = await imageDB.get(id);
-    if (image && image.tags) {
-      image.tags = image.tags.filter(tag => !tagsToRemoveSet.has(tag));
-      // Clear rating if rating tag was removed
-      if (removingRating) {
-        image.rating = undefined;
-      }
-      image.updatedAt = Date.now();
-      await imageDB.update(image);
+  const updatedAt = Date.now();
+
+  await withHistory('Remove tags', history => updateImages(imageIds, image => {
+    if (!image.tags) return false;
+    image.tags = image.tags.filter(tag => !tagsToRemoveSet.has(tag));
+    // Clear rating if rating tag was removed
+    if (removingRating) {
+      image.rating = undefined;
     }
+    image.updatedAt = updatedAt;
+    return true;
+  }, history, onProgress), parent);
+}
+
+function validateTagName(tag: string): void {
+  if (!tag) {
+    throw new Error('Tag name is required');
+  }
+  if (/\s/.test(tag)) {
+    throw new Error('Tag names cannot contain spaces');
+  }
+  if (/^rating:/i.test(tag)) {
+    throw new Error('Ratings are not tags; use the rating controls instead');
   }
 }
 
-export async function updateImageRating(id: string, rating?: 'g' | 's' | 'q' | 'e'): Promise<void> {
-  const image = await imageDB.get(id);
-  if (image) {
-    image.rating = rating;
-    image.updatedAt = Date.now();
-    await imageDB.update(image);
+// Library-wide tag operations. Each runs in one transaction over every image
+// carrying the tag, trashed ones included, and returns how many changed.
+
+function withTag(tag: string): UpdateWhereOptions {
+  return { index: 'tags', query: IDBKeyRange.only(tag) };
+}
+
+/**
+ * Renames a tag everywhere. The tag keeps its category. Fails if the new
+ * name is already in use; merge into it instead.
+ */
+export async function renameTagInLibrary(from: string, to: string): Promise<number> {
+  to = to.trim();
+  validateTagName(to);
+  if (to === from) return 0;
+  if ((await imageDB.getKeysByIndex('tags', to)).length > 0) {
+    throw new Error(`"${to}" is already used; merge into it instead`);
+  }
+
+  const updatedAt = Date.now();
+  const updated = await withHistory(`Rename ${from} to ${to}`, history => updateImagesWhere(image => {
+    image.tags = replaceTag(image.tags || [], from, to);
+    image.updatedAt = updatedAt;
+    return true;
+  }, history, withTag(from)));
+
+  const category = getTagCategory(from, await loadTagCategories());
+  if (category !== 'general') {
+    await setTagCategories({ [from]: 'general', [to]: category });
   }
+  return updated;
+}
+
+/**
+ * Replaces a tag with another everywhere; images that already carry both
+ * simply lose the merged one. The target keeps its own category.
+ */
+export async function mergeTagInLibrary(from: string, into: string): Promise<number> {
+  into = into.trim();
+  validateTagName(into);
+  if (into === from) return 0;
+
+  const updatedAt = Date.now();
+  const updated = await withHistory(`Merge ${from} into ${into}`, history => updateImagesWhere(image => {
+    image.tags = replaceTag(image.tags || [], from, into);
+    image.updatedAt = updatedAt;
+    return true;
+  }, history, withTag(from)));
+
+  await setTagCategories({ [from]: 'general' });
+  return updated;
+}
+
+/**
+ * Removes a tag from every image.
+ */
+export async function deleteTagFromLibrary(tag: string): Promise<number> {
+  const updatedAt = Date.now();
+  const updated = await withHistory(`Delete tag ${tag}`, history => updateImagesWhere(image => {
+    const tags = replaceTag(image.tags || [], tag, null);
+    image.tags = tags.length > 0 ? tags : undefined;
+    image.updatedAt = updatedAt;
+    return true;
+  }, history, withTag(tag)));
+
+  await setTagCategories({ [tag]: 'general' });
+  return updated;
 }
 
-export async function updateImagesRating(imageIds: string[], rating?: 'g' | 's' | 'q' | 'e'): Promise<void> {
-  for (const id of imageIds) {
-    const image = await imageDB.get(id);
+export async function updateImageRating(id: string, rating?: 'g' | 's' | 'q' | 'e', parent?: ChangeRecorder): Promise<void> {
+  return withHistory('Set rating', async history => {
+    const image = await imageDB.getMetadata(id);
     if (image) {
+      const before = snapshotFields(image);
       image.rating = rating;
       image.updatedAt = Date.now();
-      await imageDB.update(image);
+      await imageDB.updateMetadata(image);
+      recordChange(history, image.id, before, image);
     }
-  }
+  }, parent);
 }
 
-export async function updateImagePageTitle(id: string, pageTitle?: string): Promise<void> {
-  const image = await imageDB.get(id);
-  if (image) {
-    image.pageTitle = pageTitle;
-    image.updatedAt = Date.now();
-    await imageDB.update(image);
-  }
+export async function updateImagesRating(
+  imageIds: string[],
+  rating?: 'g' | 's' | 'q' | 'e',
+  onProgress?: ProgressCallback,
+  parent?: ChangeRecorder
+): Promise<void> {
+  const updatedAt = Date.now();
+  await withHistory('Set rating', history => updateImages(imageIds, image => {
+    image.rating = rating;
+    image.updatedAt = updatedAt;
+    return true;
+  }, history, onProgress), parent);
 }
 
-export async function updateImagePageUrl(id: string, pageUrl: string): Promise<void> {
-  const image = await imageDB.get(id);
-  if (image) {
-    image.pageUrl = pageUrl;
-    image.updatedAt = Date.now();
-    await imageDB.update(image);
-  }
+export async function updateImagePageTitle(id: string, pageTitle?: string, parent?: ChangeRecorder): Promise<void> {
+  return withHistory('Edit page title', async history => {
+    const image = await imageDB.getMetadata(id);
+    if (image) {
+      const before = snapshotFields(image);
+      image.pageTitle = pageTitle;
+      // The first source mirrors the top-level fields
+      if (image.sources && image.sources.length > 0) {
+        image.sources[0] = { ...image.sources[0], pageTitle };
+      }
+      image.updatedAt = Date.now();
+      await imageDB.updateMetadata(image);
+      recordChange(history, image.id, before, image);
+    }
+  }, parent);
+}
+
+export async function updateImagePageUrl(id: string, pageUrl: string, parent?: ChangeRecorder): Promise<void> {
+  return withHistory('Edit source URL', async history => {
+    const image = await imageDB.getMetadata(id);
+    if (image) {
+      const before = snapshotFields(image);
+      image.pageUrl = pageUrl;
+      if (image.sources && image.sources.length > 0) {
+        image.sources[0] = { ...image.sources[0], pageUrl };
+      }
+      image.updatedAt = Date.now();
+      await imageDB.updateMetadata(image);
+      recordChange(history, image.id, before, image);
+    }
+  }, parent);
 }
 
-export async function importLocalFiles(files: File[]): Promise<SavedImage[]> {
-  const importedImages: SavedImage[] = [];
+export async function importLocalFiles(files: File[]): Promise<SaveImageResult[]> {
+  const results: SaveImageResult[] = [];
 
   for (const file of files) {
     if (!file.type.startsWith('image/')) {
@@ -252,35 +1002,13 @@ export async function importLocalFiles(files: File[]): Promise<SavedImage[]> {
     }
 
     const blob = new Blob([await file.arrayBuffer()], { type: file.type });
-    const dimensions = await getImageDimensions(blob);
 
     // Use filename without extension as page title
     const filename = file.name;
     const pageTitle = filename.substring(0, filename.lastIndexOf('.')) || filename;
 
-    const rules = await loadTagRules();
-    const autoTags = getAutoTags(pageTitle, rules);
-    const { rating, cleanedTags } = extractRatingFromTags(autoTags);
-    const sortedTags = sortTags(cleanedTags);
-
-    const image: SavedImage = {
-      id: crypto.randomUUID(),
-      blob,
-      imageUrl: `file:///${filename}`,
-      pageUrl: `file:///${filename}`,
-      pageTitle,
-      mimeType: blob.type,
-      fileSize: blob.size,
-      width: dimensions.width,
-      height: dimensions.height,
-      savedAt: Date.now(),
-      tags: sortedTags.length > 0 ? sortedTags : undefined,
-      rating,
-    };
-
-    await imageDB.add(image);
-    importedImages.push(image);
+    results.push(await storeImage(blob, `file:///${filename}`, `file:///${filename}`, pageTitle));
   }
 
-  return importedImages;
+  return results;
 }
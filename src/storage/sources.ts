@@ -0,0 +1,45 @@
+import type { ImageMetadata, ImageSource } from '../types';
+
+type SourceFields = Pick<ImageMetadata, 'imageUrl' | 'pageUrl' | 'pageTitle' | 'savedAt' | 'sources' | 'clickedImageUrl'>;
+
+/**
+ * Returns every place an image was captured from, oldest first.
+ * Images saved before provenance tracking have no `sources` array, so their
+ * top-level URL fields stand in as the only source.
+ */
+export function getImageSources(image: SourceFields): ImageSource[] {
+  if (image.sources && image.sources.length > 0) {
+    return image.sources;
+  }
+
+  return [{
+    imageUrl: image.imageUrl,
+    pageUrl: image.pageUrl,
+    pageTitle: image.pageTitle,
+    capturedAt: image.savedAt,
+    clickedImageUrl: image.clickedImageUrl,
+  }];
+}
+
+/**
+ * Adds a source to a list unless the same image/page URL pair is already
+ * recorded. Returns a new array.
+ */
+export function mergeImageSource(sources: ImageSource[], source: ImageSource): ImageSource[] {
+  const exists = sources.some(existing =>
+    existing.imageUrl === source.imageUrl && existing.pageUrl === source.pageUrl
+  );
+  return exists ? sources : [...sources, source];
+}
+
+/**
+ * Case-insensitive substring match of a URL/page title query against the
+ * image's own fields and all of its sources. `query` must already be lowercase.
+ */
+export function sourcesMatchQuery(image: SourceFields, query: string): boolean {
+  const fields = [image.imageUrl, image.pageUrl, image.pageTitle, image.clickedImageUrl];
+  for (const source of image.sources ?? []) {
+    fields.push(source.imageUrl, source.pageUrl, source.pageTitle, source.clickedImageUrl);
+  }
+  return fields.some(field => field !== undefined && field.toLowerCase().includes(query));
+}
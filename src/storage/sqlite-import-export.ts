@@ -1,6 +1,7 @@
 import initSqlJs, { Database } from 'sql.js';
-import type { SavedImage } from '../types';
+import type { SavedImage, Album } from '../types';
 import { getImageBlob } from './service';
+import { computeContentHash, computePerceptualHash } from './image-hash';
 
 // Schema matches IndexedDB structure
 const SCHEMA = `
@@ -18,12 +19,32 @@ const SCHEMA = `
     tags TEXT,
     isDeleted INTEGER DEFAULT 0,
     rating TEXT,
+    contentHash TEXT,
+    perceptualHash TEXT,
+    sources TEXT,
+    clickedImageUrl TEXT,
+    site TEXT,
+    artist TEXT,
+    postId TEXT,
+    postedAt INTEGER,
+    postText TEXT,
     blob BLOB NOT NULL
   );
   CREATE INDEX IF NOT EXISTS idx_savedAt ON images(savedAt);
   CREATE INDEX IF NOT EXISTS idx_updatedAt ON images(updatedAt);
   CREATE INDEX IF NOT EXISTS idx_pageUrl ON images(pageUrl);
   CREATE INDEX IF NOT EXISTS idx_rating ON images(rating);
+  CREATE INDEX IF NOT EXISTS idx_contentHash ON images(contentHash);
+  CREATE INDEX IF NOT EXISTS idx_artist ON images(site, artist);
+  CREATE TABLE IF NOT EXISTS albums (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    coverImageId TEXT,
+    imageIds TEXT NOT NULL,
+    createdAt INTEGER NOT NULL,
+    updatedAt INTEGER
+  );
 `;
 
 export interface ImportConflict {
@@ -50,7 +71,8 @@ export interface ImportAnalysis {
 
 export async function exportDatabase(
   imagesMetadata: Omit<SavedImage, 'blob'>[],
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  albums: Album[] = []
 ): Promise<Blob[]> {
   const SQL = await initSqlJs({
     locateFile: file => `/sql-wasm.wasm`
@@ -67,7 +89,11 @@ export async function exportDatabase(
     db.run(SCHEMA);
 
     const stmt = db.prepare(`
-      INSERT INTO images VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO images (
+        id, imageUrl, pageUrl, pageTitle, mimeType, fileSize, width, height,
+        savedAt, updatedAt, tags, isDeleted, rating, contentHash, perceptualHash, sources,
+        clickedImageUrl, site, artist, postId, postedAt, postText, blob
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const startIdx = fileIndex * IMAGES_PER_FILE;
@@ -102,6 +128,15 @@ export async function exportDatabase(
           metadata.tags ? JSON.stringify(metadata.tags) : null,
           metadata.isDeleted ? 1 : 0,
           metadata.rating || null,
+          metadata.contentHash || null,
+          metadata.perceptualHash || null,
+          metadata.sources ? JSON.stringify(metadata.sources) : null,
+          metadata.clickedImageUrl || null,
+          metadata.site || null,
+          metadata.artist || null,
+          metadata.postId || null,
+          metadata.postedAt || null,
+          metadata.postText || null,
           new Uint8Array(blobArrayBuffer)
         ]);
       }
@@ -109,6 +144,11 @@ export async function exportDatabase(
 
     stmt.free();
 
+    // Albums are small; they all go in the first file
+    if (fileIndex === 0) {
+      writeAlbums(db, albums);
+    }
+
     const data = db.export();
     db.close();
 
@@ -227,6 +267,16 @@ export async function importDatabase(
       tags: rowData.tags ? JSON.parse(rowData.tags) : undefined,
       isDeleted: rowData.isDeleted === 1,
       rating: rowData.rating || undefined,
+      sources: rowData.sources ? JSON.parse(rowData.sources) : undefined,
+      clickedImageUrl: rowData.clickedImageUrl || undefined,
+      site: rowData.site || undefined,
+      artist: rowData.artist || undefined,
+      postId: rowData.postId || undefined,
+      postedAt: rowData.postedAt || undefined,
+      postText: rowData.postText || undefined,
+      // Backups made before hashing have no hash columns
+      contentHash: rowData.contentHash || await computeContentHash(blob),
+      perceptualHash: rowData.perceptualHash || await computePerceptualHash(blob).catch(() => undefined),
     });
   }
 
@@ -235,6 +285,60 @@ export async function importDatabase(
   return images;
 }
 
+function writeAlbums(db: Database, albums: Album[]) {
+  const stmt = db.prepare(`
+    INSERT INTO albums (id, name, description, coverImageId, imageIds, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  for (const album of albums) {
+    stmt.run([
+      album.id,
+      album.name,
+      album.description || null,
+      album.coverImageId || null,
+      JSON.stringify(album.imageIds),
+      album.createdAt,
+      album.updatedAt || null,
+    ]);
+  }
+
+  stmt.free();
+}
+
+/**
+ * Reads the albums table of a backup. Backups made before albums existed
+ * have no such table and yield no albums.
+ */
+export async function importAlbums(file: File): Promise<Album[]> {
+  const SQL = await initSqlJs({
+    locateFile: file => `/sql-wasm.wasm`
+  });
+
+  const arrayBuffer = await file.arrayBuffer();
+  const db = new SQL.Database(new Uint8Array(arrayBuffer));
+
+  const hasTable = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'albums'");
+  const result = hasTable.length > 0
+    ? db.exec('SELECT id, name, description, coverImageId, imageIds, createdAt, updatedAt FROM albums')
+    : [];
+  db.close();
+
+  if (result.length === 0) {
+    return [];
+  }
+
+  return result[0].values.map(row => ({
+    id: row[0] as string,
+    name: row[1] as string,
+    description: (row[2] as string) || undefined,
+    coverImageId: (row[3] as string) || undefined,
+    imageIds: JSON.parse(row[4] as string),
+    createdAt: row[5] as number,
+    updatedAt: (row[6] as number) || undefined,
+  }));
+}
+
 export function getImageBlobFromDatabase(db: Database, imageId: string): Blob | null {
   const result = db.exec('SELECT blob, mimeType FROM images WHERE id = ?', [imageId]);
 
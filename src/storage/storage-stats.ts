@@ -0,0 +1,109 @@
+import type { SavedImage } from '../types';
+
+// Images sharing a mime type, site, rating or month, with their total size
+export interface SizeGroup {
+  key: string;
+  count: number;
+  bytes: number;
+}
+
+export interface StorageStats {
+  count: number;
+  bytes: number;
+  trash: { count: number; bytes: number };
+  // Largest group first
+  byMimeType: SizeGroup[];
+  byDomain: SizeGroup[];
+  byRating: SizeGroup[];
+  // Newest month first, keyed YYYY-MM
+  byMonth: SizeGroup[];
+  largest: Omit<SavedImage, 'blob'>[];
+}
+
+// What the browser reports for the extension's origin, IndexedDB included
+export interface StorageEstimateInfo {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+export const LOCAL_FILES_DOMAIN = 'Local files';
+export const UNRATED = 'unrated';
+
+/**
+ * Site an image was saved from, without the www. prefix. Uploaded files and
+ * unparsable URLs fall under LOCAL_FILES_DOMAIN.
+ */
+export function getImageDomain(pageUrl: string): string {
+  try {
+    const url = new URL(pageUrl);
+    if (!url.hostname) return LOCAL_FILES_DOMAIN;
+    return url.hostname.replace(/^www\./, '');
+  } catch {
+    return LOCAL_FILES_DOMAIN;
+  }
+}
+
+// YYYY-MM of a timestamp, in local time
+export function getMonthKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function groupBySize(images: Omit<SavedImage, 'blob'>[], keyOf: (image: Omit<SavedImage, 'blob'>) => string): SizeGroup[] {
+  const groups = new Map<string, SizeGroup>();
+  for (const image of images) {
+    const key = keyOf(image);
+    const group = groups.get(key) ?? { key, count: 0, bytes: 0 };
+    group.count++;
+    group.bytes += image.fileSize;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Sizes of the library broken down several ways. Trashed images still take
+ * up space until the trash is emptied, so they're counted everywhere and
+ * also totalled on their own.
+ */
+export function computeStorageStats(images: Omit<SavedImage, 'blob'>[], largestCount = 10): StorageStats {
+  const bySize = (a: SizeGroup, b: SizeGroup) => b.bytes - a.bytes || a.key.localeCompare(b.key);
+  const trashed = images.filter(image => image.isDeleted);
+
+  return {
+    count: images.length,
+    bytes: images.reduce((sum, image) => sum + image.fileSize, 0),
+    trash: {
+      count: trashed.length,
+      bytes: trashed.reduce((sum, image) => sum + image.fileSize, 0),
+    },
+    byMimeType: groupBySize(images, image => image.mimeType || 'unknown').sort(bySize),
+    byDomain: groupBySize(images, image => getImageDomain(image.pageUrl)).sort(bySize),
+    byRating: groupBySize(images, image => image.rating ?? UNRATED).sort(bySize),
+    byMonth: groupBySize(images, image => getMonthKey(image.savedAt)).sort((a, b) => b.key.localeCompare(a.key)),
+    largest: [...images].sort((a, b) => b.fileSize - a.fileSize).slice(0, largestCount),
+  };
+}
+
+/**
+ * Usage and quota from navigator.storage; null where the API is missing.
+ */
+export async function getStorageEstimate(): Promise<StorageEstimateInfo | null> {
+  if (!navigator.storage?.estimate) return null;
+
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+  ]);
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, persisted };
+}
+
+/**
+ * Asks the browser not to evict the library under storage pressure. Returns
+ * whether storage is now persistent; the browser may refuse.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
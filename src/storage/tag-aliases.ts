@@ -0,0 +1,230 @@
+// cats → cat: the antecedent is replaced by the consequent whenever it's written
+export interface TagAlias {
+  id: string;
+  antecedent: string;
+  consequent: string;
+}
+
+// cat_ears → animal_ears: images tagged with the antecedent also get the consequent
+export interface TagImplication {
+  id: string;
+  antecedent: string;
+  consequent: string;
+}
+
+export interface TagAliasTable {
+  aliases: TagAlias[];
+  implications: TagImplication[];
+}
+
+export type TagRelationKind = 'alias' | 'implication';
+
+const ALIASES_KEY = 'tagAliases';
+const IMPLICATIONS_KEY = 'tagImplications';
+
+export async function loadTagAliasTable(): Promise<TagAliasTable> {
+  const result = await chrome.storage.local.get([ALIASES_KEY, IMPLICATIONS_KEY]);
+  return {
+    aliases: result[ALIASES_KEY] || [],
+    implications: result[IMPLICATIONS_KEY] || [],
+  };
+}
+
+export async function saveTagAliasTable(table: TagAliasTable): Promise<void> {
+  await chrome.storage.local.set({
+    [ALIASES_KEY]: table.aliases,
+    [IMPLICATIONS_KEY]: table.implications,
+  });
+}
+
+/**
+ * Adds an alias or implication. Throws with a readable message when it
+ * conflicts with the existing table (see validateTagRelation).
+ */
+export async function addTagRelation(kind: TagRelationKind, antecedent: string, consequent: string): Promise<string> {
+  const table = await loadTagAliasTable();
+  const relation = { id: crypto.randomUUID(), antecedent: antecedent.trim(), consequent: consequent.trim() };
+
+  const error = validateTagRelation(kind, relation, table);
+  if (error) {
+    throw new Error(error);
+  }
+
+  if (kind === 'alias') {
+    table.aliases.push(relation);
+  } else {
+    table.implications.push(relation);
+  }
+  await saveTagAliasTable(table);
+  return relation.id;
+}
+
+export async function deleteTagRelation(kind: TagRelationKind, id: string): Promise<void> {
+  const table = await loadTagAliasTable();
+  if (kind === 'alias') {
+    table.aliases = table.aliases.filter(a => a.id !== id);
+  } else {
+    table.implications = table.implications.filter(i => i.id !== id);
+  }
+  await saveTagAliasTable(table);
+}
+
+/**
+ * Returns why a new alias or implication can't be added, or null if it can.
+ * A tag has at most one alias, aliased tags can't take part in implications
+ * (their consequent should be used instead), and neither may form a cycle.
+ */
+export function validateTagRelation(
+  kind: TagRelationKind,
+  relation: Pick<TagAlias, 'antecedent' | 'consequent'>,
+  table: TagAliasTable
+): string | null {
+  const { antecedent, consequent } = relation;
+
+  if (!antecedent || !consequent) {
+    return 'Both tags are required';
+  }
+  if (/\s/.test(antecedent) || /\s/.test(consequent)) {
+    return 'Tags cannot contain spaces';
+  }
+  if (antecedent === consequent) {
+    return 'A tag cannot alias or imply itself';
+  }
+
+  if (kind === 'alias') {
+    const existing = table.aliases.find(a => a.antecedent === antecedent);
+    if (existing) {
+      return `${antecedent} is already aliased to ${existing.consequent}`;
+    }
+    if (resolveTagAlias(consequent, table.aliases) === antecedent) {
+      return `${consequent} is already aliased to ${antecedent}`;
+    }
+    return null;
+  }
+
+  const aliased = [antecedent, consequent].find(tag => table.aliases.some(a => a.antecedent === tag));
+  if (aliased) {
+    return `${aliased} is aliased to ${resolveTagAlias(aliased, table.aliases)}; use that tag instead`;
+  }
+  if (table.implications.some(i => i.antecedent === antecedent && i.consequent === consequent)) {
+    return `${antecedent} already implies ${consequent}`;
+  }
+  if (expandImplications([consequent], table.implications).includes(antecedent)) {
+    return `${consequent} already implies ${antecedent}`;
+  }
+  return null;
+}
+
+/**
+ * Follows alias chains (a → b → c gives c). Stops at a tag seen before, so a
+ * cycle in imported data can't loop forever.
+ */
+export function resolveTagAlias(tag: string, aliases: TagAlias[]): string {
+  const seen = new Set<string>();
+  let current = tag;
+
+  while (!seen.has(current)) {
+    seen.add(current);
+    const alias = aliases.find(a => a.antecedent === current);
+    if (!alias) break;
+    current = alias.consequent;
+  }
+
+  return current;
+}
+
+/**
+ * Adds every tag implied by the given tags, transitively. Input tags keep
+ * their order; implied tags follow.
+ */
+export function expandImplications(tags: string[], implications: TagImplication[]): string[] {
+  const result = [...tags];
+  const present = new Set(tags);
+
+  for (let i = 0; i < result.length; i++) {
+    for (const implication of implications) {
+      if (implication.antecedent === result[i] && !present.has(implication.consequent)) {
+        present.add(implication.consequent);
+        result.push(implication.consequent);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Rewrites tags the way they're stored: aliases are replaced by their
+ * consequents, then implications are added. Duplicates are dropped.
+ */
+export function applyTagAliases(tags: string[], table: TagAliasTable): string[] {
+  const resolved = Array.from(new Set(tags.map(tag => resolveTagAlias(tag, table.aliases))));
+  const implications = table.implications.map(i => ({
+    ...i,
+    antecedent: resolveTagAlias(i.antecedent, table.aliases),
+    consequent: resolveTagAlias(i.consequent, table.aliases),
+  }));
+  return expandImplications(resolved, implications);
+}
+
+export function exportTagAliasesToJSON(table: TagAliasTable): string {
+  return JSON.stringify(table, null, 2);
+}
+
+export interface TagAliasImportResult {
+  imported: number;
+  skipped: number;
+}
+
+function getRelationFingerprint(kind: TagRelationKind, relation: Pick<TagAlias, 'antecedent' | 'consequent'>): string {
+  return JSON.stringify({ kind, antecedent: relation.antecedent, consequent: relation.consequent });
+}
+
+/**
+ * Imports aliases and implications exported by exportTagAliasesToJSON.
+ * Entries already present, or that would conflict with the table, are skipped.
+ */
+export async function importTagAliasesFromJSON(jsonString: string): Promise<TagAliasImportResult> {
+  const parsed = JSON.parse(jsonString) as Partial<TagAliasTable>;
+  const table = await loadTagAliasTable();
+
+  const existingFingerprints = new Set([
+    ...table.aliases.map(a => getRelationFingerprint('alias', a)),
+    ...table.implications.map(i => getRelationFingerprint('implication', i)),
+  ]);
+
+  let importedCount = 0;
+  let skippedCount = 0;
+
+  const entries: [TagRelationKind, TagAlias][] = [
+    ...(parsed.aliases || []).map((a): [TagRelationKind, TagAlias] => ['alias', a]),
+    ...(parsed.implications || []).map((i): [TagRelationKind, TagAlias] => ['implication', i]),
+  ];
+
+  for (const [kind, entry] of entries) {
+    const relation = { id: crypto.randomUUID(), antecedent: entry.antecedent, consequent: entry.consequent };
+    const fingerprint = getRelationFingerprint(kind, relation);
+
+    if (existingFingerprints.has(fingerprint) || validateTagRelation(kind, relation, table)) {
+      skippedCount++;
+      continue;
+    }
+
+    if (kind === 'alias') {
+      table.aliases.push(relation);
+    } else {
+      table.implications.push(relation);
+    }
+    existingFingerprints.add(fingerprint);
+    importedCount++;
+  }
+
+  if (importedCount > 0) {
+    await saveTagAliasTable(table);
+  }
+
+  return {
+    imported: importedCount,
+    skipped: skippedCount,
+  };
+}
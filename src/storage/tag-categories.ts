@@ -0,0 +1,122 @@
+export type TagCategory = 'artist' | 'copyright' | 'character' | 'general' | 'meta';
+
+// Tag → category for every tag that isn't general. Categories belong to the
+// tag, not the image, the way Danbooru does it.
+export type TagCategoryMap = Record<string, TagCategory>;
+
+// Display order, as on Danbooru
+export const TAG_CATEGORIES: TagCategory[] = ['artist', 'copyright', 'character', 'general', 'meta'];
+
+export const TAG_CATEGORY_LABELS: Record<TagCategory, string> = {
+  artist: 'Artist',
+  copyright: 'Copyright',
+  character: 'Character',
+  general: 'General',
+  meta: 'Meta',
+};
+
+// Prefixes accepted when typing tags: artist:foo, char:bar, ...
+const CATEGORY_PREFIXES: Record<string, TagCategory> = {
+  artist: 'artist',
+  art: 'artist',
+  copyright: 'copyright',
+  copy: 'copyright',
+  character: 'character',
+  char: 'character',
+  general: 'general',
+  gen: 'general',
+  meta: 'meta',
+};
+
+const STORAGE_KEY = 'tagCategories';
+
+export async function loadTagCategories(): Promise<TagCategoryMap> {
+  const result = await chrome.storage.local.get([STORAGE_KEY]);
+  return result[STORAGE_KEY] || {};
+}
+
+/**
+ * Records categories for tags. Setting a tag to general removes its entry.
+ */
+export async function setTagCategories(updates: TagCategoryMap): Promise<void> {
+  const categories = await loadTagCategories();
+  await chrome.storage.local.set({ [STORAGE_KEY]: applyTagCategoryUpdates(categories, updates) });
+}
+
+export function applyTagCategoryUpdates(categories: TagCategoryMap, updates: TagCategoryMap): TagCategoryMap {
+  const result = { ...categories };
+  for (const [tag, category] of Object.entries(updates)) {
+    if (category === 'general') {
+      delete result[tag];
+    } else {
+      result[tag] = category;
+    }
+  }
+  return result;
+}
+
+/**
+ * Splits a typed tag into its name and category prefix, if it has one.
+ * `artist:foo` → foo (artist); `rating:g` and `cat:pet` aren't categories.
+ */
+export function parseCategorizedTag(tag: string): { tag: string; category?: TagCategory } {
+  const colon = tag.indexOf(':');
+  if (colon <= 0 || colon === tag.length - 1) return { tag };
+
+  const category = CATEGORY_PREFIXES[tag.slice(0, colon).toLowerCase()];
+  return category ? { tag: tag.slice(colon + 1), category } : { tag };
+}
+
+/**
+ * Strips category prefixes from typed tags. Returns the plain tags and the
+ * categories they were given; later prefixes for the same tag win.
+ */
+export function extractTagCategories(tags: string[]): { tags: string[]; categories: TagCategoryMap } {
+  const categories: TagCategoryMap = {};
+  const plainTags: string[] = [];
+
+  for (const typed of tags) {
+    const { tag, category } = parseCategorizedTag(typed);
+    if (category) categories[tag] = category;
+    if (!plainTags.includes(tag)) plainTags.push(tag);
+  }
+
+  return { tags: plainTags, categories };
+}
+
+export function getTagCategory(tag: string, categories: TagCategoryMap): TagCategory {
+  return categories[tag] ?? 'general';
+}
+
+/**
+ * Sorts tags by category (display order), then alphabetically (case-insensitive).
+ */
+export function sortTagsByCategory(tags: string[], categories: TagCategoryMap): string[] {
+  const rank = (tag: string) => TAG_CATEGORIES.indexOf(getTagCategory(tag, categories));
+  return [...tags].sort((a, b) => rank(a) - rank(b) || a.toLowerCase().localeCompare(b.toLowerCase()));
+}
+
+/**
+ * Groups items by their tag's category, in display order, skipping empty
+ * categories. Items keep their order within a group.
+ */
+export function groupByTagCategory<T>(
+  items: T[],
+  getTag: (item: T) => string,
+  categories: TagCategoryMap
+): { category: TagCategory; items: T[] }[] {
+  return TAG_CATEGORIES
+    .map(category => ({ category, items: items.filter(item => getTagCategory(getTag(item), categories) === category) }))
+    .filter(group => group.items.length > 0);
+}
+
+/**
+ * Tags of each category, alphabetically (for the Danbooru upload fields).
+ */
+export function splitTagsByCategory(tags: string[], categories: TagCategoryMap): Record<TagCategory, string[]> {
+  const result: Record<TagCategory, string[]> = { artist: [], copyright: [], character: [], general: [], meta: [] };
+  for (const tag of sortTagsByCategory(tags, categories)) {
+    result[getTagCategory(tag, categories)].push(tag);
+  }
+  return result;
+}
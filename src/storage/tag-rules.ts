@@ -1,13 +1,77 @@
+import { getImageCreator, creatorMatchesAccount } from '../sites/creators';
+import { parseCategorizedTag } from './tag-categories';
+import type { SavedImage } from '../types';
+
+// What a rule condition is tested against
+export type RuleField =
+  'pageTitle' | 'pageUrl' | 'imageUrl' | 'domain' | 'account' | 'mimeType' | 'width' | 'height' | 'ratio';
+
+export type RuleOperator = 'contains' | 'equals' | 'regex' | '=' | '>' | '<' | '>=' | '<=';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string;
+}
+
 export interface TagRule {
   id: string;
   name: string;
+  // Page title condition; rules from before conditions existed only have this
   pattern: string;
   isRegex: boolean;
+  // May reference regex capture groups of the pattern: artist:$1.
+  // -tag removes a tag added by an earlier rule.
   tags: string[];
   enabled: boolean;
+  // All must match, along with the page title pattern
+  conditions?: RuleCondition[];
+  rating?: 'g' | 's' | 'q' | 'e';
+  // Rules further down the list are skipped once this one matches
+  stopProcessing?: boolean;
+}
+
+// Everything a rule can look at when an image is saved
+export interface RuleContext {
+  pageTitle?: string;
+  pageUrl?: string;
+  imageUrl?: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+  // From the site extractor, for account conditions
+  site?: string;
+  artist?: string;
+}
+
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+  pageTitle: 'Page title',
+  pageUrl: 'Page URL',
+  imageUrl: 'Image URL',
+  domain: 'Domain',
+  account: 'Account',
+  mimeType: 'MIME type',
+  width: 'Width',
+  height: 'Height',
+  ratio: 'Aspect ratio',
+};
+
+const NUMERIC_FIELDS: RuleField[] = ['width', 'height', 'ratio'];
+
+export function isNumericRuleField(field: RuleField): boolean {
+  return NUMERIC_FIELDS.includes(field);
+}
+
+export function getRuleOperators(field: RuleField): RuleOperator[] {
+  return isNumericRuleField(field) ? ['=', '>', '<', '>=', '<='] : ['contains', 'equals', 'regex'];
 }
 
 const STORAGE_KEY = 'tagRules';
+const HITS_KEY = 'tagRuleHits';
+
+// Rule id → how many saved images the rule has tagged. Kept apart from the
+// rules so counting doesn't race rule edits and isn't exported.
+export type RuleHitCounts = Record<string, number>;
 
 export async function loadTagRules(): Promise<TagRule[]> {
   const result = await chrome.storage.local.get([STORAGE_KEY]);
@@ -42,39 +106,301 @@ export async function deleteTagRule(id: string): Promise<void> {
   const rules = await loadTagRules();
   const filtered = rules.filter(r => r.id !== id);
   await saveTagRules(filtered);
+
+  const hits = await loadRuleHitCounts();
+  if (id in hits) {
+    delete hits[id];
+    await chrome.storage.local.set({ [HITS_KEY]: hits });
+  }
+}
+
+/**
+ * Moves a rule before another one (to the end when beforeId is null).
+ * Rules run in list order.
+ */
+export async function moveTagRule(id: string, beforeId: string | null): Promise<void> {
+  const rules = await loadTagRules();
+  await saveTagRules(moveRule(rules, id, beforeId));
+}
+
+export function moveRule(rules: TagRule[], id: string, beforeId: string | null): TagRule[] {
+  const rule = rules.find(r => r.id === id);
+  if (!rule || id === beforeId) return rules;
+
+  const rest = rules.filter(r => r.id !== id);
+  const index = beforeId ? rest.findIndex(r => r.id === beforeId) : -1;
+  rest.splice(index === -1 ? rest.length : index, 0, rule);
+  return rest;
+}
+
+export async function loadRuleHitCounts(): Promise<RuleHitCounts> {
+  const result = await chrome.storage.local.get([HITS_KEY]);
+  return result[HITS_KEY] || {};
 }
 
-export function matchesRule(pageTitle: string, rule: TagRule): boolean {
-  if (!rule.enabled) return false;
-  if (!pageTitle) pageTitle = '';
+export async function recordRuleHits(ruleIds: string[]): Promise<void> {
+  if (ruleIds.length === 0) return;
+
+  const hits = await loadRuleHitCounts();
+  for (const id of ruleIds) {
+    hits[id] = (hits[id] || 0) + 1;
+  }
+  await chrome.storage.local.set({ [HITS_KEY]: hits });
+}
 
+/**
+ * Whether a rule applies to a saved image. A plain string is the page title,
+ * for callers that only have that.
+ */
+export function matchesRule(context: string | RuleContext, rule: TagRule): boolean {
+  return matchRule(context, rule) !== null;
+}
+
+/**
+ * The pattern's capture groups ($0 is the whole match) when the rule
+ * applies, otherwise null. Plain-text patterns capture nothing.
+ */
+function matchRule(context: string | RuleContext, rule: TagRule): (string | undefined)[] | null {
+  if (!rule.enabled) return null;
+  const ruleContext = typeof context === 'string' || !context ? { pageTitle: context || '' } : context;
+
+  const captures = matchPattern(ruleContext.pageTitle || '', rule);
+  if (!captures || !(rule.conditions || []).every(condition => matchesCondition(ruleContext, condition))) {
+    return null;
+  }
+  return captures;
+}
+
+function matchPattern(pageTitle: string, rule: TagRule): (string | undefined)[] | null {
   if (rule.pattern === '') {
-    return true;
+    return [];
   }
 
   if (rule.isRegex) {
     try {
       const regex = new RegExp(rule.pattern, 'i');
-      return regex.test(pageTitle);
-    } catch (e) {
+      const match = regex.exec(pageTitle);
+      return match ? Array.from(match) : null;
+    } catch {
       console.error('Invalid regex in rule:', rule.name, rule.pattern);
-      return false;
+      return null;
+    }
+  }
+
+  return pageTitle.toLowerCase().includes(rule.pattern.toLowerCase()) ? [] : null;
+}
+
+/**
+ * Turns captured text into a tag: trimmed, lowercase, spaces as underscores.
+ * Captures come from page titles the page controls, so markup characters
+ * and control characters are dropped.
+ */
+export function normalizeCapturedTag(text: string): string {
+  return text
+    .replace(/[<>"'&\p{Cc}]/gu, ' ')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '_');
+}
+
+/**
+ * Replaces $1..$9 ($0 for the whole match) in rule tags with the normalized
+ * captures. Tags referencing a group that captured nothing are dropped.
+ */
+export function expandRuleTags(tags: string[], captures: (string | undefined)[]): string[] {
+  const expanded: string[] = [];
+
+  for (const tag of tags) {
+    let missing = false;
+    const result = tag.replace(/\$(\d)/g, (_, group: string) => {
+      const captured = normalizeCapturedTag(captures[Number(group)] ?? '');
+      if (!captured) missing = true;
+      return captured;
+    });
+    if (!missing) expanded.push(result);
+  }
+
+  return expanded;
+}
+
+/**
+ * Tags a rule gives an image, with captures filled in and its rating as a
+ * rating: tag (turned into the rating field on save). Empty if it doesn't apply.
+ */
+export function getRuleTags(context: string | RuleContext, rule: TagRule): string[] {
+  const captures = matchRule(context, rule);
+  return captures ? buildRuleTags(rule, captures) : [];
+}
+
+function buildRuleTags(rule: TagRule, captures: (string | undefined)[]): string[] {
+  const tags = expandRuleTags(rule.tags, captures);
+  return rule.rating ? [...tags, `rating:${rule.rating}`] : tags;
+}
+
+function getHostname(url?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+function getRuleCreator(context: RuleContext) {
+  return getImageCreator({ pageUrl: context.pageUrl || '', site: context.site, artist: context.artist });
+}
+
+function getTextFieldValue(context: RuleContext, field: RuleField): string | undefined {
+  switch (field) {
+    case 'pageTitle': return context.pageTitle;
+    case 'pageUrl': return context.pageUrl;
+    case 'imageUrl': return context.imageUrl;
+    case 'domain': return getHostname(context.pageUrl);
+    case 'mimeType': return context.mimeType;
+    case 'account': return getRuleCreator(context)?.key;
+    default: return undefined;
+  }
+}
+
+function getNumericFieldValue(context: RuleContext, field: RuleField): number | undefined {
+  const { width, height } = context;
+  switch (field) {
+    case 'width': return width;
+    case 'height': return height;
+    // Rounded to two decimals like the ratio: metatag, so = 1.78 matches 16:9
+    case 'ratio': return width && height ? Math.round((width / height) * 100) / 100 : undefined;
+    default: return undefined;
+  }
+}
+
+/**
+ * Parses a numeric condition value. Ratios may be written as 16:9.
+ */
+export function parseRuleNumber(field: RuleField, value: string): number | null {
+  const match = field === 'ratio'
+    ? /^\s*(\d+(?:\.\d+)?)\s*(?::\s*(\d+(?:\.\d+)?))?\s*$/.exec(value)
+    : /^\s*(\d+(?:\.\d+)?)\s*$/.exec(value);
+  if (!match) return null;
+
+  const denominator = match[2] !== undefined ? parseFloat(match[2]) : 1;
+  if (denominator === 0) return null;
+  const number = parseFloat(match[1]) / denominator;
+  return field === 'ratio' ? Math.round(number * 100) / 100 : number;
+}
+
+export function matchesCondition(context: RuleContext, condition: RuleCondition): boolean {
+  const { field, operator, value } = condition;
+
+  if (isNumericRuleField(field)) {
+    const actual = getNumericFieldValue(context, field);
+    const expected = parseRuleNumber(field, value);
+    if (actual === undefined || expected === null) return false;
+
+    switch (operator) {
+      case '=': return actual === expected;
+      case '>': return actual > expected;
+      case '<': return actual < expected;
+      case '>=': return actual >= expected;
+      case '<=': return actual <= expected;
+      default: return false;
     }
   }
 
-  return pageTitle.toLowerCase().includes(rule.pattern.toLowerCase());
+  if (field === 'account' && operator === 'equals') {
+    // Same forms as the account: metatag: pixiv/123, or a bare handle on any site
+    const creator = getRuleCreator(context);
+    return !!creator && creatorMatchesAccount(creator, value.trim());
+  }
+
+  const actual = getTextFieldValue(context, field);
+  if (actual === undefined) return false;
+
+  switch (operator) {
+    case 'regex':
+      try {
+        return new RegExp(value, 'i').test(actual);
+      } catch {
+        console.error('Invalid regex in rule condition:', value);
+        return false;
+      }
+    case 'equals': {
+      const expected = value.trim().toLowerCase();
+      if (field === 'domain') {
+        // pixiv.net also covers www.pixiv.net and i.pixiv.net
+        return actual === expected || actual.endsWith('.' + expected);
+      }
+      return actual.toLowerCase() === expected;
+    }
+    case 'contains':
+      return actual.toLowerCase().includes(value.trim().toLowerCase());
+    default:
+      return false;
+  }
 }
 
-export function getAutoTags(pageTitle: string, rules: TagRule[]): string[] {
-  const tags = new Set<string>();
+/**
+ * Short description of a condition for the rule list, e.g. `Aspect ratio > 2`.
+ */
+export function describeCondition(condition: RuleCondition): string {
+  return `${RULE_FIELD_LABELS[condition.field]} ${condition.operator} ${condition.value}`;
+}
+
+export function getAutoTags(context: string | RuleContext, rules: TagRule[]): string[] {
+  return evaluateRules(context, rules).tags;
+}
+
+// Same tag, ignoring a category prefix: -foo removes artist:foo
+function isSameRuleTag(a: string, b: string): boolean {
+  return a === b || parseCategorizedTag(a).tag === parseCategorizedTag(b).tag;
+}
+
+/**
+ * Runs the rules top to bottom. Each matching rule adds its tags, removes
+ * its -tags from what earlier rules added, and replaces an earlier rating;
+ * a stop-processing rule ends the run. Returns the tags and the ids of the
+ * rules that matched.
+ */
+export function evaluateRules(context: string | RuleContext, rules: TagRule[]): { tags: string[]; ruleIds: string[] } {
+  let tags: string[] = [];
+  const ruleIds: string[] = [];
 
   for (const rule of rules) {
-    if (matchesRule(pageTitle, rule)) {
-      rule.tags.forEach(tag => tags.add(tag));
+    const captures = matchRule(context, rule);
+    if (!captures) continue;
+    ruleIds.push(rule.id);
+
+    for (const tag of buildRuleTags(rule, captures)) {
+      if (tag.startsWith('-') && tag.length > 1) {
+        tags = tags.filter(existing => !isSameRuleTag(existing, tag.slice(1)));
+      } else if (!tags.includes(tag)) {
+        if (tag.startsWith('rating:')) {
+          tags = tags.filter(existing => !existing.startsWith('rating:'));
+        }
+        tags.push(tag);
+      }
     }
+
+    if (rule.stopProcessing) break;
   }
 
-  return Array.from(tags);
+  return { tags, ruleIds };
+}
+
+/**
+ * The rule context of an image already in the library, as it was when the
+ * image was saved.
+ */
+export function getImageRuleContext(image: Omit<SavedImage, 'blob'>): RuleContext {
+  return {
+    pageTitle: image.pageTitle || '',
+    pageUrl: image.pageUrl,
+    imageUrl: image.imageUrl,
+    mimeType: image.mimeType,
+    width: image.width,
+    height: image.height,
+    site: image.site,
+    artist: image.artist,
+  };
 }
 
 export function exportRulesToJSON(rules: TagRule[]): string {
@@ -92,6 +418,10 @@ function getRuleFingerprint(rule: Omit<TagRule, 'id' | 'enabled'>): string {
     pattern: rule.pattern,
     isRegex: rule.isRegex,
     tags: [...rule.tags].sort(),
+    // Left out when empty, so rules without conditions keep their old fingerprint
+    conditions: rule.conditions?.length ? rule.conditions : undefined,
+    rating: rule.rating,
+    stopProcessing: rule.stopProcessing || undefined,
   });
 }
 
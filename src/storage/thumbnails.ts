@@ -0,0 +1,46 @@
+import type { ThumbnailSize } from '../types';
+
+// 256 for small previews, 512 for grid cards (sharp on high-DPI screens)
+export const THUMBNAIL_SIZES: ThumbnailSize[] = [256, 512];
+
+const THUMBNAIL_TYPE = 'image/webp';
+const THUMBNAIL_QUALITY = 0.8;
+
+/**
+ * Dimensions of an image scaled to fit a maxSize × maxSize box, keeping its
+ * aspect ratio. Images already smaller keep their size.
+ */
+export function fitThumbnailSize(width: number, height: number, maxSize: number): { width: number; height: number } {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Encodes a WebP thumbnail of every size from one decode of the image.
+ * Throws when the browser can't decode the format.
+ */
+export async function createThumbnails(blob: Blob): Promise<Record<ThumbnailSize, Blob>> {
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const thumbnails = {} as Record<ThumbnailSize, Blob>;
+    for (const size of THUMBNAIL_SIZES) {
+      const { width, height } = fitThumbnailSize(bitmap.width, bitmap.height, size);
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Failed to get canvas context');
+      }
+
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      thumbnails[size] = await canvas.convertToBlob({ type: THUMBNAIL_TYPE, quality: THUMBNAIL_QUALITY });
+    }
+    return thumbnails;
+  } finally {
+    bitmap.close();
+  }
+}
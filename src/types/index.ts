@@ -1,3 +1,23 @@
+// One place an image was captured from. The first entry matches the
+// top-level imageUrl/pageUrl/pageTitle fields.
+export interface ImageSource {
+  imageUrl: string;
+  pageUrl: string;
+  pageTitle?: string;
+  capturedAt: number;
+  // URL on the page when imageUrl was upgraded to a higher-resolution original
+  clickedImageUrl?: string;
+}
+
+// Structured post details pulled from the page by a site extractor
+export interface PostMetadata {
+  site: string;       // Extractor name ('x', 'pixiv', ...) or host for other sites
+  artist?: string;    // Handle or user ID on that site
+  postId?: string;
+  postedAt?: number;
+  postText?: string;
+}
+
 export interface SavedImage {
   id: string;
   blob: Blob;
@@ -13,6 +33,15 @@ export interface SavedImage {
   tags?: string[];
   isDeleted?: boolean;
   rating?: 'g' | 's' | 'q' | 'e';
+  contentHash?: string;
+  perceptualHash?: string;
+  sources?: ImageSource[];
+  clickedImageUrl?: string;
+  site?: string;
+  artist?: string;
+  postId?: string;
+  postedAt?: number;
+  postText?: string;
 }
 
 export interface ImageMetadata {
@@ -29,6 +58,75 @@ export interface ImageMetadata {
   tags?: string[];
   isDeleted?: boolean;
   rating?: 'g' | 's' | 'q' | 'e';
+  contentHash?: string;
+  perceptualHash?: string;
+  sources?: ImageSource[];
+  clickedImageUrl?: string;
+  site?: string;
+  artist?: string;
+  postId?: string;
+  postedAt?: number;
+  postText?: string;
+}
+
+// A manually curated, ordered set of images
+export interface Album {
+  id: string;
+  name: string;
+  description?: string;
+  coverImageId?: string;
+  // Display order; the first image is the cover when coverImageId is unset
+  imageIds: string[];
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// Longest side of a stored thumbnail, in pixels
+export type ThumbnailSize = 256 | 512;
+
+// Downscaled WebP copies of an image for the grid, kept in their own store
+// so reading metadata never loads them
+export interface ImageThumbnails {
+  id: string;  // Image id
+  blobs: Record<ThumbnailSize, Blob>;
+  createdAt: number;
+}
+
+// Original file of a recompressed image, kept so the recompression can be
+// rolled back. Only the first original is kept when an image is
+// recompressed again.
+export interface ImageVersion {
+  id: string;  // Image id
+  blob: Blob;
+  mimeType: string;
+  fileSize: number;
+  width: number;
+  height: number;
+  createdAt: number;
+}
+
+export type RecompressFormat = 'image/webp' | 'image/avif' | 'image/jpeg' | 'image/png';
+
+export interface RecompressOptions {
+  format: RecompressFormat;
+  // 0-1; ignored by PNG, which is lossless
+  quality: number;
+  // Longest side in pixels; larger images are scaled down
+  maxDimension?: number;
+}
+
+// What saveImage does when the blob's content hash matches an existing image
+export type DuplicatePolicy = 'skip' | 'merge' | 'keep';
+
+export interface SaveImageOptions {
+  // Set when imageUrl is an upgraded original of the image the user clicked
+  clickedImageUrl?: string;
+  post?: PostMetadata | null;
+}
+
+export interface SaveImageResult {
+  id: string;
+  status: 'saved' | 'merged' | 'skipped';
 }
 
 export interface CaptureImageMessage {
@@ -44,3 +142,31 @@ export interface ImageCapturedMessage {
   imageId?: string;
   error?: string;
 }
+
+// Content script → background: save one image chosen in the page picker
+export interface SavePickedImageMessage {
+  type: 'SAVE_PICKED_IMAGE';
+  imageUrl: string;
+  pageUrl: string;
+  pageTitle: string;
+}
+
+// Background → content script: srcset of the <img> showing imageUrl
+export interface GetImageSrcsetMessage {
+  type: 'GET_IMAGE_SRCSET';
+  imageUrl: string;
+}
+
+// Background → content script: post metadata for the post showing imageUrl
+export interface GetPostMetadataMessage {
+  type: 'GET_POST_METADATA';
+  imageUrl: string;
+}
+
+// Content script → background: the picker finished saving a batch
+export interface PickedImagesSavedMessage {
+  type: 'PICKED_IMAGES_SAVED';
+  saved: number;
+  duplicates: number;
+  failed: number;
+}
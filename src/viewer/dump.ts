@@ -25,6 +25,13 @@ export async function dumpImages(images: SavedImage[]): Promise<void> {
       savedAt: image.savedAt,
       tags: image.tags,
       isDeleted: image.isDeleted,
+      sources: image.sources,
+      clickedImageUrl: image.clickedImageUrl,
+      site: image.site,
+      artist: image.artist,
+      postId: image.postId,
+      postedAt: image.postedAt,
+      postText: image.postText,
     });
   }
 
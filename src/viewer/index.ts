@@ -1,6 +1,23 @@
-import { getAllImages, getAllImagesMetadata, getImageBlob, getImage, deleteImage, deleteAllImages, restoreImage, permanentlyDeleteImage, emptyTrash, updateImageTags, addTagsToImages, removeTagsFromImages } from '../storage/service';
-import type { SavedImage, ImageMetadata } from '../types';
-import { parseTagSearch, removeTagFromQuery, sortTags, type ParsedTagSearch, type TagCountFilter } from './tag-utils';
+import { getAllImages, getAllImagesMetadata, getImageBlob, getThumbnailBlob, getImageMetadata, deleteImage, deleteAllImages, restoreImage, trashImages, restoreImages, permanentlyDeleteImage, emptyTrash, updateImageTags, addTagsToImages, removeTagsFromImages, loadDuplicatePolicy, withHistory, backfillImageHashes, importImages, type ImportImagesResult } from '../storage/service';
+import type { SavedImage, ImageMetadata, DuplicatePolicy, PostMetadata, Album, ThumbnailSize } from '../types';
+import { parseTagSearch, createEmptyTagSearch, removeTagFromQuery, sortTags, countTags, type ParsedTagSearch, type TagCountFilter } from './tag-utils';
+import { groupSimilarImages, pickBestImage } from './similar-images';
+import { getImageSources } from '../storage/sources';
+import { getImagePostMetadata } from '../sites/extractors';
+import { getImageCreator, getSiteInfo, groupImagesByCreator, creatorMatchesAccount, imageMatchesAnyAccount, parseAccountFilter, type Creator } from '../sites/creators';
+import { QueryIndex, compareImages, type QueryOptions } from '../storage/query-engine';
+import {
+  loadTagCategories,
+  extractTagCategories,
+  getTagCategory,
+  sortTagsByCategory,
+  groupByTagCategory,
+  splitTagsByCategory,
+  TAG_CATEGORY_LABELS,
+  type TagCategoryMap
+} from '../storage/tag-categories';
+import { applyTagAliases, type TagAliasTable } from '../storage/tag-aliases';
+import { THUMBNAIL_SIZES } from '../storage/thumbnails';
 
 // Constants
 const SortField = {
@@ -22,9 +39,14 @@ const state = {
   loadedBlobs: new Map<string, Blob>(),
   sort: 'savedAt-desc',
   groupBy: 'none',
+  similarityThreshold: 6,
   selectedIds: new Set<string>(),
   objectUrls: new Map<string, string>(),
+  // Thumbnail object URLs, keyed by thumbnailKey()
+  thumbnailUrls: new Map<string, string>(),
   currentView: 'all' as 'all' | 'trash',
+  // Album open in the grid (a sub-view of 'all'), shown in album order
+  currentAlbumId: null as string | null,
   lightboxActive: false,
   currentLightboxIndex: -1,
   previewPaneVisible: false,
@@ -33,6 +55,23 @@ const state = {
   currentRenderToken: 0,
 };
 
+// Tag → category (artist, character, ...), reloaded whenever storage changes
+let tagCategories: TagCategoryMap = {};
+
+// BEM modifier for a tag's category, e.g. ' image-tags__tag--artist'; general tags get none
+function tagCategoryModifier(block: string, tag: string): string {
+  const category = getTagCategory(tag, tagCategories);
+  return category === 'general' ? '' : ` ${block}--${category}`;
+}
+
+// Aliases and implications, reloaded whenever storage changes
+let tagAliasTable: TagAliasTable = { aliases: [], implications: [] };
+
+// Typed tags as the service stores them, for mirroring edits into local state
+function normalizeTypedTags(tags: string[]): string[] {
+  return applyTagAliases(extractTagCategories(tags).tags, tagAliasTable);
+}
+
 // Context menu state
 let ratingContextMenu: HTMLElement | null = null;
 let tagContextMenu: HTMLElement | null = null;
@@ -44,10 +83,11 @@ async function loadSettings() {
   const result = await chrome.storage.local.get(['showNotifications']);
   return {
     showNotifications: result.showNotifications ?? false, // Default: OFF
+    duplicatePolicy: await loadDuplicatePolicy(),
   };
 }
 
-async function saveSettings(settings: { showNotifications: boolean }) {
+async function saveSettings(settings: { showNotifications?: boolean; duplicatePolicy?: DuplicatePolicy }) {
   await chrome.storage.local.set(settings);
 }
 
@@ -80,11 +120,12 @@ async function saveViewSettings() {
   await chrome.storage.local.set({
     sortBy: state.sort,
     groupBy: state.groupBy,
+    similarityThreshold: state.similarityThreshold,
   });
 }
 
 async function restoreViewSettings() {
-  const result = await chrome.storage.local.get(['sortBy', 'groupBy']);
+  const result = await chrome.storage.local.get(['sortBy', 'groupBy', 'similarityThreshold']);
 
   if (result.sortBy) {
     state.sort = result.sortBy;
@@ -92,11 +133,20 @@ async function restoreViewSettings() {
     if (sortSelect) sortSelect.value = result.sortBy;
   }
 
+  if (typeof result.similarityThreshold === 'number') {
+    state.similarityThreshold = result.similarityThreshold;
+  }
+
   if (result.groupBy) {
-    state.groupBy = result.groupBy;
+    // The size/dimension based "duplicates" mode was replaced by similarity grouping,
+    // and X-only account grouping by creator grouping across sites
+    const renamedModes: Record<string, string> = { duplicates: 'similar', 'x-account': 'creator' };
+    state.groupBy = renamedModes[result.groupBy] ?? result.groupBy;
     const groupBySelect = document.getElementById('group-by') as HTMLSelectElement;
-    if (groupBySelect) groupBySelect.value = result.groupBy;
+    if (groupBySelect) groupBySelect.value = state.groupBy;
   }
+
+  updateSimilarityThresholdControl();
 }
 
 async function loadImages() {
@@ -115,11 +165,8 @@ async function loadImages() {
  * Used when a new image is saved to avoid reloading all metadata.
  */
 async function loadSingleImage(imageId: string) {
-  const savedImage = await getImage(imageId);
-  if (!savedImage) return;
-
-  // Strip blob to keep only metadata
-  const { blob, ...metadata } = savedImage;
+  const metadata = await getImageMetadata(imageId);
+  if (!metadata) return;
 
   // Check if image already exists in state
   const existingIndex = state.images.findIndex(img => img.id === imageId);
@@ -359,15 +406,7 @@ function updateTagSidebar(images: ImageMetadata[] = state.filteredImages) {
 
   // Parse current tag search to determine active tags
   const input = document.getElementById('tag-search-input') as HTMLInputElement;
-  const parsed = input ? parseTagSearch(input.value) : {
-    includeTags: [],
-    excludeTags: [],
-    orGroups: [],
-    ratings: new Set(),
-    fileTypes: new Set(),
-    tagCount: null,
-    includeUnrated: false
-  };
+  const parsed = input ? parseTagSearch(input.value) : createEmptyTagSearch();
 
   // Build sets for quick lookup
   const includedTags = new Set<string>(parsed.includeTags);
@@ -415,25 +454,31 @@ function updateTagSidebar(images: ImageMetadata[] = state.filteredImages) {
       return a[0].localeCompare(b[0]); // Name ascending
     });
 
-  // Render tag list with highlighting
-  sidebar.innerHTML = sortedTags
-    .map(([tag, count]) => {
-      const isIncluded = includedTags.has(tag);
-      const isExcluded = excludedTags.has(tag);
-      const itemClass = isIncluded ? 'tag-sidebar-item tag-sidebar-item--included' :
-                        isExcluded ? 'tag-sidebar-item tag-sidebar-item--excluded' :
-                        'tag-sidebar-item';
+  const renderItem = ([tag, count]: [string, number]) => {
+    const isIncluded = includedTags.has(tag);
+    const isExcluded = excludedTags.has(tag);
+    const itemClass = isIncluded ? 'tag-sidebar-item tag-sidebar-item--included' :
+                      isExcluded ? 'tag-sidebar-item tag-sidebar-item--excluded' :
+                      'tag-sidebar-item';
 
-      return `
-        <div class="${itemClass}">
-          <button class="tag-sidebar-item__action-btn tag-sidebar-item__add-btn" data-tag="${tag}" title="Include this tag">+</button>
-          <button class="tag-sidebar-item__action-btn tag-sidebar-item__exclude-btn" data-tag="${tag}" title="Exclude this tag">−</button>
-          <span class="tag-sidebar-item__name" data-tag="${tag}">${tag}</span>
-          <span class="tag-sidebar-item__count">${count}</span>
-        </div>
-      `;
-    })
-    .join('');
+    return `
+      <div class="${itemClass}">
+        <button class="tag-sidebar-item__action-btn tag-sidebar-item__add-btn" data-tag="${escapeHtml(tag)}" title="Include this tag">+</button>
+        <button class="tag-sidebar-item__action-btn tag-sidebar-item__exclude-btn" data-tag="${escapeHtml(tag)}" title="Exclude this tag">−</button>
+        <span class="tag-sidebar-item__name${tagCategoryModifier('tag-sidebar-item__name', tag)}" data-tag="${escapeHtml(tag)}">${escapeHtml(tag)}</span>
+        <span class="tag-sidebar-item__count">${count}</span>
+      </div>
+    `;
+  };
+
+  // Render tag list grouped by category; headings only once there's more than general tags
+  const groups = groupByTagCategory(sortedTags, ([tag]) => tag, tagCategories);
+  sidebar.innerHTML = groups.length === 1 && groups[0].category === 'general'
+    ? groups[0].items.map(renderItem).join('')
+    : groups.map(group => `
+        <div class="tag-sidebar-group__heading tag-sidebar-group__heading--${group.category}">${TAG_CATEGORY_LABELS[group.category]}</div>
+        ${group.items.map(renderItem).join('')}
+      `).join('');
 
   // Attach click handlers for + buttons
   sidebar.querySelectorAll('.tag-sidebar-item__add-btn').forEach(btn => {
@@ -571,84 +616,80 @@ function removeExcludedTagFromSearch(tag: string) {
   applyFiltersAndSave();
 }
 
-// Account sidebar functions (for X/Twitter account filtering)
+// Account sidebar functions (creator filtering across sites)
 function updateAccountSidebar(images: ImageMetadata[] = state.filteredImages) {
   const sidebar = document.getElementById('account-sidebar-list');
   if (!sidebar) return;
 
   // Parse current tag search to determine active accounts
   const input = document.getElementById('tag-search-input') as HTMLInputElement;
-  const parsed = input ? parseTagSearch(input.value) : {
-    includeTags: [],
-    excludeTags: [],
-    orGroups: [],
-    ratings: new Set(),
-    fileTypes: new Set(),
-    tagCount: null,
-    includeUnrated: false,
-    accounts: new Set(),
-    excludeAccounts: new Set()
-  };
-
-  // Build sets for quick lookup
-  const includedAccounts = new Set<string>(parsed.accounts);
-  const excludedAccounts = new Set<string>(parsed.excludeAccounts);
-
-  // Count accounts
-  const accountCounts = new Map<string, number>();
-  images.forEach(img => {
-    const account = getXAccountFromUrl(img.pageUrl);
-    if (account) {
-      accountCounts.set(account, (accountCounts.get(account) || 0) + 1);
-    }
+  const parsed: ParsedTagSearch = input ? parseTagSearch(input.value) : createEmptyTagSearch();
+
+  // One entry per creator; `account` is the metatag value the buttons act on,
+  // i.e. the search's own value when it selects this creator
+  const entries: { account: string; site?: string; handle: string; count: number; included: boolean; excluded: boolean }[] = [];
+  const matchedIncludes = new Set<string>();
+  const matchedExcludes = new Set<string>();
+
+  groupImagesByCreator(images).forEach(({ creator, images: creatorImages }) => {
+    const includedBy = Array.from(parsed.accounts).find(account => creatorMatchesAccount(creator, account));
+    const excludedBy = Array.from(parsed.excludeAccounts).find(account => creatorMatchesAccount(creator, account));
+    if (includedBy) matchedIncludes.add(includedBy);
+    if (excludedBy) matchedExcludes.add(excludedBy);
+
+    entries.push({
+      account: includedBy ?? excludedBy ?? creator.key,
+      site: creator.site,
+      handle: creator.handle,
+      count: creatorImages.length,
+      included: !!includedBy,
+      excluded: !includedBy && !!excludedBy,
+    });
   });
 
-  // Add included accounts to the list with count 0 (so they show even when filtered out)
-  includedAccounts.forEach(account => {
-    if (!accountCounts.has(account)) {
-      accountCounts.set(account, 0);
+  // Selected accounts show with count 0 even when filtered out
+  parsed.accounts.forEach(account => {
+    if (!matchedIncludes.has(account)) {
+      entries.push({ account, ...parseAccountFilter(account), count: 0, included: true, excluded: false });
     }
   });
-
-  // Add excluded accounts to the list with count 0 (so they show even when filtered out)
-  excludedAccounts.forEach(account => {
-    if (!accountCounts.has(account)) {
-      accountCounts.set(account, 0);
+  parsed.excludeAccounts.forEach(account => {
+    if (!matchedExcludes.has(account)) {
+      entries.push({ account, ...parseAccountFilter(account), count: 0, included: false, excluded: true });
     }
   });
 
   // Sort: selected accounts (included/excluded) first, then by count (desc), then alphabetically
-  const sortedAccounts = Array.from(accountCounts.entries())
-    .sort((a, b) => {
-      const aSelected = includedAccounts.has(a[0]) || excludedAccounts.has(a[0]);
-      const bSelected = includedAccounts.has(b[0]) || excludedAccounts.has(b[0]);
+  entries.sort((a, b) => {
+    const aSelected = a.included || a.excluded;
+    const bSelected = b.included || b.excluded;
 
-      // Selected accounts come first
-      if (aSelected && !bSelected) return -1;
-      if (!aSelected && bSelected) return 1;
+    // Selected accounts come first
+    if (aSelected && !bSelected) return -1;
+    if (!aSelected && bSelected) return 1;
 
-      // Within selected or unselected groups, sort by count then alphabetically
-      if (b[1] !== a[1]) {
-        return b[1] - a[1]; // Count descending
-      }
-      return a[0].localeCompare(b[0]); // Name ascending
-    });
+    // Within selected or unselected groups, sort by count then alphabetically
+    if (b.count !== a.count) {
+      return b.count - a.count; // Count descending
+    }
+    return a.handle.localeCompare(b.handle); // Name ascending
+  });
 
   // Render account list with highlighting
-  sidebar.innerHTML = sortedAccounts
-    .map(([account, count]) => {
-      const isIncluded = includedAccounts.has(account);
-      const isExcluded = excludedAccounts.has(account);
-      const itemClass = isIncluded ? 'account-sidebar-item account-sidebar-item--included' :
-                        isExcluded ? 'account-sidebar-item account-sidebar-item--excluded' :
+  sidebar.innerHTML = entries
+    .map(entry => {
+      const itemClass = entry.included ? 'account-sidebar-item account-sidebar-item--included' :
+                        entry.excluded ? 'account-sidebar-item account-sidebar-item--excluded' :
                         'account-sidebar-item';
+      const account = escapeHtml(entry.account);
 
       return `
         <div class="${itemClass}">
           <button class="account-sidebar-item__action-btn account-sidebar-item__add-btn" data-account="${account}" title="Include this account">+</button>
           <button class="account-sidebar-item__action-btn account-sidebar-item__exclude-btn" data-account="${account}" title="Exclude this account">−</button>
-          <span class="account-sidebar-item__name" data-account="${account}">@${account}</span>
-          <span class="account-sidebar-item__count">${count}</span>
+          ${entry.site ? createSiteIconHTML(entry.site) : ''}
+          <span class="account-sidebar-item__name" data-account="${account}" title="${account}">@${escapeHtml(entry.handle)}</span>
+          <span class="account-sidebar-item__count">${entry.count}</span>
         </div>
       `;
     })
@@ -674,9 +715,9 @@ function updateAccountSidebar(images: ImageMetadata[] = state.filteredImages) {
   sidebar.querySelectorAll('.account-sidebar-item__name').forEach(span => {
     span.addEventListener('click', () => {
       const account = span.getAttribute('data-account')!;
-      if (includedAccounts.has(account)) {
+      if (parsed.accounts.has(account)) {
         removeAccountFromSearch(account);
-      } else if (excludedAccounts.has(account)) {
+      } else if (parsed.excludeAccounts.has(account)) {
         removeExcludedAccountFromSearch(account);
       } else {
         // Unselected account - add it
@@ -686,6 +727,10 @@ function updateAccountSidebar(images: ImageMetadata[] = state.filteredImages) {
   });
 }
 
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 function toggleAccountInSearch(account: string) {
   const input = document.getElementById('tag-search-input') as HTMLInputElement;
   if (!input) return;
@@ -714,7 +759,7 @@ function addAccountToSearch(account: string) {
   const current = input.value.trim();
 
   // Check if already in search
-  const accountPattern = new RegExp(`\\baccount:${account}\\b`, 'i');
+  const accountPattern = new RegExp(`(^|\\s)account:${escapeRegExp(account)}(?=\\s|$)`, 'i');
   if (accountPattern.test(current)) {
     return; // Already present
   }
@@ -734,7 +779,7 @@ function excludeAccountFromSearch(account: string) {
   const current = input.value.trim();
 
   // Check if already excluded
-  const excludedPattern = new RegExp(`-account:${account}\\b`, 'i');
+  const excludedPattern = new RegExp(`(^|\\s)-account:${escapeRegExp(account)}(?=\\s|$)`, 'i');
   if (excludedPattern.test(current)) {
     return; // Already excluded
   }
@@ -751,8 +796,8 @@ function removeAccountFromSearch(account: string) {
   const current = input.value.trim();
 
   // Remove account:xxx pattern
-  const accountPattern = new RegExp(`\\baccount:${account}\\b`, 'gi');
-  let newValue = current.replace(accountPattern, '').trim();
+  const accountPattern = new RegExp(`(^|\\s)account:${escapeRegExp(account)}(?=\\s|$)`, 'gi');
+  let newValue = current.replace(accountPattern, '$1').trim();
 
   // Clean up multiple spaces
   newValue = newValue.replace(/\s+/g, ' ');
@@ -768,8 +813,8 @@ function removeExcludedAccountFromSearch(account: string) {
   const current = input.value.trim();
 
   // Remove -account:xxx pattern
-  const excludedPattern = new RegExp(`-account:${account}\\b`, 'gi');
-  let newValue = current.replace(excludedPattern, '').trim();
+  const excludedPattern = new RegExp(`(^|\\s)-account:${escapeRegExp(account)}(?=\\s|$)`, 'gi');
+  let newValue = current.replace(excludedPattern, '$1').trim();
 
   // Clean up multiple spaces
   newValue = newValue.replace(/\s+/g, ' ');
@@ -873,123 +918,40 @@ function updateRatingPills() {
   });
 }
 
-// Calculate rating counts for all images matching current filters (excluding rating filter)
-// NOTE: This intentionally duplicates filter logic from applyFilters() but EXCLUDES rating filter.
-// This allows showing counts for each rating based on current search/tag/account filters.
-// If you modify applyFilters(), update this function to match (except for rating filter).
-function getRatingCounts(): { g: number; s: number; q: number; e: number; unrated: number } {
-  let filtered = state.images;
-
-  // 1. Apply view filter (all or trash)
-  if (state.currentView === 'all') {
-    filtered = filtered.filter(img => !img.isDeleted);
-  } else {
-    filtered = filtered.filter(img => img.isDeleted);
-  }
-
-  // 2. Apply URL/page title search filter
-  const urlSearchInput = document.getElementById('url-search-input') as HTMLInputElement;
-  if (urlSearchInput && urlSearchInput.value) {
-    const query = urlSearchInput.value.toLowerCase();
-    filtered = filtered.filter(img =>
-      img.imageUrl.toLowerCase().includes(query) ||
-      img.pageUrl.toLowerCase().includes(query) ||
-      (img.pageTitle && img.pageTitle.toLowerCase().includes(query))
-    );
-  }
+// Inverted index over state.images; synced before each query
+const queryIndex = new QueryIndex();
 
-  // 3. Apply tag search filter (Danbooru syntax) - BUT SKIP RATING FILTER
+function getCurrentTagSearch(): ParsedTagSearch | null {
   const tagSearchInput = document.getElementById('tag-search-input') as HTMLInputElement;
-  if (tagSearchInput && tagSearchInput.value) {
-    const parsed = parseTagSearch(tagSearchInput.value);
-
-    // Skip rating filter - we want counts across all ratings
-
-    // Apply file type filters
-    if (parsed.fileTypes.size > 0) {
-      filtered = filtered.filter(img => parsed.fileTypes.has(img.mimeType));
-    }
-
-    // Apply tag count filter
-    if (parsed.tagCount) {
-      filtered = filtered.filter(img => {
-        const tagCount = img.tags?.length ?? 0;
-        const filter = parsed.tagCount!;
-
-        if (filter.operator === 'list') {
-          return filter.values!.includes(tagCount);
-        } else if (filter.operator === 'range') {
-          return tagCount >= filter.min! && tagCount <= filter.max!;
-        } else if (filter.operator === '=') {
-          return tagCount === filter.value!;
-        } else if (filter.operator === '>') {
-          return tagCount > filter.value!;
-        } else if (filter.operator === '<') {
-          return tagCount < filter.value!;
-        } else if (filter.operator === '>=') {
-          return tagCount >= filter.value!;
-        } else if (filter.operator === '<=') {
-          return tagCount <= filter.value!;
-        }
-        return true;
-      });
-    }
-
-    // Apply account filters (OR logic for included accounts)
-    if (parsed.accounts.size > 0) {
-      filtered = filtered.filter(img => {
-        const account = getXAccountFromUrl(img.pageUrl);
-        return account && parsed.accounts.has(account);
-      });
-    }
-
-    // Apply excluded account filters
-    if (parsed.excludeAccounts.size > 0) {
-      filtered = filtered.filter(img => {
-        const account = getXAccountFromUrl(img.pageUrl);
-        return !account || !parsed.excludeAccounts.has(account);
-      });
-    }
-
-    // Apply include tags (AND logic)
-    if (parsed.includeTags.length > 0) {
-      filtered = filtered.filter(img =>
-        img.tags && parsed.includeTags.every(tag => img.tags!.includes(tag))
-      );
-    }
+  return tagSearchInput && tagSearchInput.value ? parseTagSearch(tagSearchInput.value) : null;
+}
 
-    // Apply OR groups
-    if (parsed.orGroups.length > 0) {
-      filtered = filtered.filter(img => {
-        if (!img.tags) return false;
-        // Image must match at least one tag from each OR group
-        return parsed.orGroups.every(group =>
-          group.some(tag => img.tags!.includes(tag))
-        );
-      });
-    }
+function getQueryOptions(): QueryOptions {
+  const urlSearchInput = document.getElementById('url-search-input') as HTMLInputElement;
+  return {
+    view: state.currentView,
+    urlQuery: urlSearchInput?.value || undefined,
+    // Albums keep their own order, applied after the query
+    sort: state.currentAlbumId ? undefined : state.sort,
+    albums: albumMembership,
+    tagCategories,
+  };
+}
 
-    // Apply exclude tags
-    if (parsed.excludeTags.length > 0) {
-      filtered = filtered.filter(img =>
-        !img.tags || !parsed.excludeTags.some(tag => img.tags!.includes(tag))
-      );
-    }
-  }
+// Calculate rating counts for all images matching current filters (excluding rating filter).
+// Shares the query engine with applyFiltersWithoutRender(), so the two can't drift apart.
+function getRatingCounts(): { g: number; s: number; q: number; e: number; unrated: number } {
+  queryIndex.sync(state.images);
+  const { ids } = queryIndex.query(getCurrentTagSearch(), { ...getQueryOptions(), ignoreRatings: true });
 
   // Count images by rating
   const counts = { g: 0, s: 0, q: 0, e: 0, unrated: 0 };
-  for (const img of filtered) {
-    if (!img.rating) {
+  for (const id of ids) {
+    const rating = queryIndex.getRecord(id)!.rating;
+    if (!rating) {
       counts.unrated++;
-    } else if (img.rating === 'g') {
-      counts.g++;
-    } else if (img.rating === 's') {
-      counts.s++;
-    } else if (img.rating === 'q') {
-      counts.q++;
-    } else if (img.rating === 'e') {
-      counts.e++;
+    } else if (rating in counts) {
+      counts[rating as keyof typeof counts]++;
     }
   }
 
@@ -1002,115 +964,12 @@ function getRatingCounts(): { g: number; s: number; q: number; e: number; unrate
  * Runs filter logic and updates state.filteredImages without rendering.
  */
 function applyFiltersWithoutRender(): void {
-  // Re-sort first so updated images move to correct position
-  applySorting();
-
-  let filtered = state.images;
-
-  // 1. Apply view filter (all or trash)
-  if (state.currentView === 'all') {
-    filtered = filtered.filter(img => !img.isDeleted);
-  } else {
-    filtered = filtered.filter(img => img.isDeleted);
-  }
-
-  // 2. Apply URL/page title search filter
-  const urlSearchInput = document.getElementById('url-search-input') as HTMLInputElement;
-  if (urlSearchInput && urlSearchInput.value) {
-    const query = urlSearchInput.value.toLowerCase();
-    filtered = filtered.filter(img =>
-      img.imageUrl.toLowerCase().includes(query) ||
-      img.pageUrl.toLowerCase().includes(query) ||
-      (img.pageTitle && img.pageTitle.toLowerCase().includes(query))
-    );
-  }
-
-  // 3. Apply tag search filter (Danbooru syntax)
-  const tagSearchInput = document.getElementById('tag-search-input') as HTMLInputElement;
-  if (tagSearchInput && tagSearchInput.value) {
-    const parsed = parseTagSearch(tagSearchInput.value);
-
-    // Apply rating filters
-    if (parsed.ratings.size > 0 || parsed.includeUnrated) {
-      filtered = filtered.filter(img => {
-        if (parsed.includeUnrated && !img.rating) {
-          return true;
-        }
-        return img.rating && parsed.ratings.has(img.rating);
-      });
-    }
-
-    // Apply file type filters
-    if (parsed.fileTypes.size > 0) {
-      filtered = filtered.filter(img => parsed.fileTypes.has(img.mimeType));
-    }
-
-    // Apply tag count filter
-    if (parsed.tagCount) {
-      filtered = filtered.filter(img => {
-        const tagCount = img.tags?.length ?? 0;
-        const filter = parsed.tagCount!;
-
-        if (filter.operator === 'list') {
-          return filter.values!.includes(tagCount);
-        } else if (filter.operator === 'range') {
-          return tagCount >= filter.min! && tagCount <= filter.max!;
-        } else if (filter.operator === '=') {
-          return tagCount === filter.value!;
-        } else if (filter.operator === '>') {
-          return tagCount > filter.value!;
-        } else if (filter.operator === '<') {
-          return tagCount < filter.value!;
-        } else if (filter.operator === '>=') {
-          return tagCount >= filter.value!;
-        } else if (filter.operator === '<=') {
-          return tagCount <= filter.value!;
-        }
-        return true;
-      });
-    }
-
-    // Apply account filters (OR logic for included accounts)
-    if (parsed.accounts.size > 0) {
-      filtered = filtered.filter(img => {
-        const account = getXAccountFromUrl(img.pageUrl);
-        return account && parsed.accounts.has(account);
-      });
-    }
-
-    // Apply excluded account filters
-    if (parsed.excludeAccounts.size > 0) {
-      filtered = filtered.filter(img => {
-        const account = getXAccountFromUrl(img.pageUrl);
-        return !account || !parsed.excludeAccounts.has(account);
-      });
-    }
-
-    // Apply include tags (AND logic)
-    if (parsed.includeTags.length > 0) {
-      filtered = filtered.filter(img =>
-        img.tags && parsed.includeTags.every(tag => img.tags!.includes(tag))
-      );
-    }
-
-    // Apply OR groups
-    if (parsed.orGroups.length > 0) {
-      filtered = filtered.filter(img => {
-        if (!img.tags) return false;
-        // Image must match at least one tag from each OR group
-        return parsed.orGroups.every(group =>
-          group.some(tag => img.tags!.includes(tag))
-        );
-      });
-    }
-
-    // Apply exclude tags
-    if (parsed.excludeTags.length > 0) {
-      filtered = filtered.filter(img =>
-        !img.tags || !parsed.excludeTags.some(tag => img.tags!.includes(tag))
-      );
-    }
-  }
+  // The index re-sorts too, so updated images move to correct position
+  queryIndex.sync(state.images);
+  const { ids } = queryIndex.query(getCurrentTagSearch(), getQueryOptions());
+  const album = getCurrentAlbum();
+  const matched = album ? new Set(ids) : null;
+  const filtered = (album ? album.imageIds.filter(id => matched!.has(id)) : ids).map(id => queryIndex.getRecord(id)!);
 
   // Store filtered images for select all
   state.filteredImages = filtered;
@@ -1127,7 +986,7 @@ function applyFiltersWithoutRender(): void {
   const tagSidebar = document.getElementById('tag-sidebar');
   const accountSidebar = document.getElementById('account-sidebar');
 
-  if (state.groupBy === 'x-account') {
+  if (state.groupBy === 'creator') {
     // Show BOTH account sidebar and tag sidebar
     updateAccountSidebar(filtered);
     updateTagSidebar(filtered);
@@ -1137,6 +996,9 @@ function applyFiltersWithoutRender(): void {
     updateTagSidebar(filtered);
     if (accountSidebar) accountSidebar.style.display = 'none';
   }
+
+  updateSavedSearchesSidebar();
+  updateAlbumsSidebar();
 }
 
 async function applyFilters() {
@@ -1148,11 +1010,30 @@ async function applyFilters() {
   updateSelectionCount();
   updatePreviewPane();
   updateRatingPills();
+  updateTagSearchError();
 
   // Render images (async - chunked for large datasets)
   await renderImages(state.filteredImages);
 }
 
+// Show the first syntax error in the tag search under the search box.
+// The rest of the query still filters, so this is a hint, not a blocker.
+function updateTagSearchError() {
+  const input = document.getElementById('tag-search-input') as HTMLInputElement;
+  const errorEl = document.getElementById('tag-search-error');
+  if (!input || !errorEl) return;
+
+  const error = parseTagSearch(input.value).errors[0];
+  input.classList.toggle('search-input--invalid', !!error);
+  if (error) {
+    errorEl.textContent = `${error.message} (at character ${error.position + 1})`;
+    errorEl.style.display = '';
+  } else {
+    errorEl.textContent = '';
+    errorEl.style.display = 'none';
+  }
+}
+
 // Apply filters and save search state (for search input modifications)
 async function applyFiltersAndSave() {
   await applyFilters();
@@ -1160,32 +1041,7 @@ async function applyFiltersAndSave() {
 }
 
 function applySorting() {
-  const [field, direction] = state.sort.split('-');
-  const isAsc = direction === 'asc';
-
-  state.images.sort((a, b) => {
-    let comparison = 0;
-
-    switch (field) {
-      case 'savedAt':
-        comparison = a.savedAt - b.savedAt;
-        break;
-      case 'updatedAt':
-        comparison = (a.updatedAt ?? a.savedAt) - (b.updatedAt ?? b.savedAt);
-        break;
-      case 'fileSize':
-        comparison = a.fileSize - b.fileSize;
-        break;
-      case 'dimensions':
-        comparison = (a.width * a.height) - (b.width * b.height);
-        break;
-      case 'url':
-        comparison = a.imageUrl.localeCompare(b.imageUrl);
-        break;
-    }
-
-    return isAsc ? comparison : -comparison;
-  });
+  state.images.sort((a, b) => compareImages(a, b, state.sort));
 }
 
 // Placeholder for unloaded images
@@ -1223,6 +1079,10 @@ function revokeObjectURLs() {
     URL.revokeObjectURL(url);
   }
   state.objectUrls.clear();
+  for (const url of state.thumbnailUrls.values()) {
+    URL.revokeObjectURL(url);
+  }
+  state.thumbnailUrls.clear();
 }
 
 function revokeObjectURL(imageId: string) {
@@ -1231,6 +1091,48 @@ function revokeObjectURL(imageId: string) {
     URL.revokeObjectURL(url);
     state.objectUrls.delete(imageId);
   }
+  for (const size of THUMBNAIL_SIZES) {
+    const thumbnailUrl = state.thumbnailUrls.get(thumbnailKey(imageId, size));
+    if (thumbnailUrl) {
+      URL.revokeObjectURL(thumbnailUrl);
+      state.thumbnailUrls.delete(thumbnailKey(imageId, size));
+    }
+  }
+}
+
+// Grid cards and preview thumbnails show downscaled copies; full blobs are
+// only loaded for the preview pane, lightbox and downloads
+const GRID_THUMBNAIL_SIZE: ThumbnailSize = 512;
+const STRIP_THUMBNAIL_SIZE: ThumbnailSize = 256;
+
+function thumbnailKey(imageId: string, size: ThumbnailSize): string {
+  return `${size}:${imageId}`;
+}
+
+function getThumbnailURL(imageId: string, size: ThumbnailSize): string {
+  return state.thumbnailUrls.get(thumbnailKey(imageId, size)) ?? PLACEHOLDER_IMAGE;
+}
+
+// Falls back to the full image when no thumbnail can be made
+async function loadThumbnailURL(imageId: string, size: ThumbnailSize): Promise<string> {
+  const key = thumbnailKey(imageId, size);
+  if (state.thumbnailUrls.has(key)) {
+    return state.thumbnailUrls.get(key)!;
+  }
+
+  const blob = await getThumbnailBlob(imageId, size);
+  if (!blob) {
+    await loadImageBlob(imageId);
+    return getOrCreateObjectURL(imageId);
+  }
+
+  // Loaded by another card while this one waited
+  if (state.thumbnailUrls.has(key)) {
+    return state.thumbnailUrls.get(key)!;
+  }
+  const url = URL.createObjectURL(blob);
+  state.thumbnailUrls.set(key, url);
+  return url;
 }
 
 // Context menu for rating changes
@@ -1312,7 +1214,7 @@ function closeContextMenus(): void {
 
 // Create image card HTML (shared by grouped and ungrouped rendering)
 function createImageCardHTML(image: ImageMetadata): string {
-  const url = getOrCreateObjectURL(image.id);
+  const url = getThumbnailURL(image.id, GRID_THUMBNAIL_SIZE);
   const date = new Date(image.savedAt).toLocaleString();
   const fileSize = formatFileSize(image.fileSize);
   const isSelected = state.selectedIds.has(image.id);
@@ -1337,18 +1239,18 @@ function createImageCardHTML(image: ImageMetadata): string {
     parsed.orGroups.forEach(group => group.forEach(tag => activeTags.add(tag)));
   }
 
-  // X account filter button
-  const xAccount = getXAccountFromUrl(image.pageUrl);
-  const isAccountActive = xAccount && parsed && parsed.accounts.has(xAccount);
-  const accountButtonHTML = xAccount
-    ? `<button class="image-account-btn${isAccountActive ? ' image-account-btn--active' : ''}" data-account="${xAccount}" title="Filter by @${xAccount}">@${xAccount}</button>`
+  // Creator filter button
+  const creator = getImageCreator(image);
+  const isAccountActive = creator && parsed && imageMatchesAnyAccount(image, parsed.accounts);
+  const accountButtonHTML = creator
+    ? `<button class="image-account-btn${isAccountActive ? ' image-account-btn--active' : ''}" data-account="${escapeHtml(creator.key)}" title="Filter by ${escapeHtml(getSiteInfo(creator.site).label)} @${escapeHtml(creator.handle)}">${createSiteIconHTML(creator.site)}@${escapeHtml(creator.handle)}</button>`
     : '';
 
   const tagsHTML = image.tags && image.tags.length > 0
     ? `<div class="image-tags">
-        ${sortTags(image.tags).map(tag => {
+        ${sortTagsByCategory(image.tags, tagCategories).map(tag => {
           const isActive = activeTags.has(tag);
-          return `<span class="image-tags__tag${isActive ? ' image-tags__tag--active' : ''}" data-tag="${tag}">${tag}</span>`;
+          return `<span class="image-tags__tag${tagCategoryModifier('image-tags__tag', tag)}${isActive ? ' image-tags__tag--active' : ''}" data-tag="${escapeHtml(tag)}">${escapeHtml(tag)}</span>`;
         }).join('')}
       </div>`
     : '';
@@ -1365,8 +1267,11 @@ function createImageCardHTML(image: ImageMetadata): string {
     ? `<div class="rating-badge" style="background-color: ${ratingConfig[image.rating].color}">${ratingConfig[image.rating].label}</div>`
     : '<div class="rating-badge rating-badge-unrated">—</div>';
 
+  // Cards of an open album can be dragged into a new order
+  const draggable = state.currentAlbumId && state.groupBy === 'none' ? ' draggable="true"' : '';
+
   return `
-    <div class="image-card${isSelected ? ' selected' : ''}" data-id="${image.id}">
+    <div class="image-card${isSelected ? ' selected' : ''}" data-id="${image.id}"${draggable}>
       <input type="checkbox" class="image-checkbox" data-id="${image.id}"${isSelected ? ' checked' : ''}>
       ${ratingHTML}
       <img src="${url}" alt="Saved image" class="image-preview" data-image-id="${image.id}">
@@ -1406,8 +1311,7 @@ function setupImageObserver() {
           const imageId = img.dataset.imageId;
           if (!imageId) return;
 
-          await loadImageBlob(imageId);
-          const url = getOrCreateObjectURL(imageId);
+          const url = await loadThumbnailURL(imageId, GRID_THUMBNAIL_SIZE);
           if (url !== PLACEHOLDER_IMAGE) {
             img.src = url;
           }
@@ -1447,8 +1351,7 @@ function setupPreviewThumbnailObserver() {
           const imageId = img.dataset.imageId;
           if (!imageId) return;
 
-          await loadImageBlob(imageId);
-          const url = getOrCreateObjectURL(imageId);
+          const url = await loadThumbnailURL(imageId, STRIP_THUMBNAIL_SIZE);
           if (url !== PLACEHOLDER_IMAGE) {
             img.src = url;
             previewThumbnailObserver!.unobserve(img);
@@ -1490,7 +1393,11 @@ async function renderImages(images: ImageMetadata[]) {
 
   // Only revoke URLs for images no longer in the filtered set
   const currentImageIds = new Set(images.map(img => img.id));
-  const urlsToRevoke = Array.from(state.objectUrls.keys()).filter(
+  const loadedIds = new Set([
+    ...state.objectUrls.keys(),
+    ...Array.from(state.thumbnailUrls.keys(), key => key.slice(key.indexOf(':') + 1)),
+  ]);
+  const urlsToRevoke = Array.from(loadedIds).filter(
     id => !currentImageIds.has(id)
   );
   for (const id of urlsToRevoke) {
@@ -1500,10 +1407,10 @@ async function renderImages(images: ImageMetadata[]) {
   emptyState.style.display = 'none';
   grid.style.display = '';
 
-  if (state.groupBy === 'x-account') {
-    await renderXAccountGroups(images, renderToken);
-  } else if (state.groupBy === 'duplicates') {
-    await renderDuplicateGroups(images, renderToken);
+  if (state.groupBy === 'creator') {
+    await renderCreatorGroups(images, renderToken);
+  } else if (state.groupBy === 'similar') {
+    await renderSimilarGroups(images, renderToken);
   } else {
     await renderUngroupedImages(images, renderToken);
   }
@@ -1673,7 +1580,7 @@ async function handleSaveTags(e: Event) {
   if (imageInState) {
     // Extract rating from tags if present (same logic as updateImageTags in service.ts)
     const ratingTag = uniqueTags.find(tag => /^rating:[gsqe]$/i.test(tag));
-    const cleanedTags = uniqueTags.filter(tag => !/^rating:[gsqe]$/i.test(tag));
+    const cleanedTags = normalizeTypedTags(uniqueTags.filter(tag => !/^rating:[gsqe]$/i.test(tag)));
 
     imageInState.tags = cleanedTags.length > 0 ? cleanedTags : undefined;
     if (ratingTag) {
@@ -1810,7 +1717,7 @@ async function renderSinglePreview(image: ImageMetadata, container: HTMLElement)
   };
 
   const tagsHTML = image.tags && image.tags.length > 0
-    ? sortTags(image.tags).map(tag => `<span class="preview-meta-tags__tag">${tag}</span>`).join('')
+    ? sortTagsByCategory(image.tags, tagCategories).map(tag => `<span class="preview-meta-tags__tag${tagCategoryModifier('preview-meta-tags__tag', tag)}">${escapeHtml(tag)}</span>`).join('')
     : '<span class="no-tags">No tags</span>';
 
   container.innerHTML = `
@@ -1847,6 +1754,14 @@ async function renderSinglePreview(image: ImageMetadata, container: HTMLElement)
           <span class="preview-meta-label">Image URL</span>
           <span class="preview-meta-value preview-meta-readonly" title="${image.imageUrl}">${truncateUrl(image.imageUrl)}</span>
         </div>
+        ${image.clickedImageUrl ? `
+        <div class="preview-meta-row">
+          <span class="preview-meta-label">Clicked URL</span>
+          <span class="preview-meta-value preview-meta-readonly" title="${image.clickedImageUrl}">${truncateUrl(image.clickedImageUrl)}</span>
+        </div>
+        ` : ''}
+        ${createSourcesListHTML(image, 'preview-meta')}
+        ${createPostInfoHTML(image, 'preview-meta')}
         <div class="preview-meta-row">
           <span class="preview-meta-label">Tags</span>
           <div class="preview-meta-tags">${tagsHTML}</div>
@@ -1971,7 +1886,7 @@ async function renderSinglePreview(image: ImageMetadata, container: HTMLElement)
 
         const { updateImageTags } = await import('../storage/service');
         await updateImageTags(image.id, uniqueTags);
-        await syncImageMetadataToState(image.id, 'tags', uniqueTags);
+        await syncImageMetadataToState(image.id, 'tags', normalizeTypedTags(uniqueTags));
       }
     });
 
@@ -1997,7 +1912,7 @@ async function renderSinglePreview(image: ImageMetadata, container: HTMLElement)
 
       const { updateImageTags } = await import('../storage/service');
       await updateImageTags(image.id, uniqueTags);
-      await syncImageMetadataToState(image.id, 'tags', uniqueTags);
+      await syncImageMetadataToState(image.id, 'tags', normalizeTypedTags(uniqueTags));
     });
   }
 }
@@ -2148,22 +2063,24 @@ async function applyPreviewBulkTags() {
   const uniqueTagsToAdd = Array.from(new Set(tagsToAdd));
   const uniqueTagsToRemove = Array.from(new Set(tagsToRemove));
 
-  // Apply operations
-  if (uniqueTagsToAdd.length > 0) {
-    await addTagsToImages(selectedImageIds, uniqueTagsToAdd);
-  }
+  // Apply operations as one undoable step
+  const selectedRating = document.querySelector('input[name="preview-bulk-rating"]:checked') as HTMLInputElement;
+  await withHistory(`Bulk tag ${selectedImageIds.length} image${selectedImageIds.length !== 1 ? 's' : ''}`, async history => {
+    if (uniqueTagsToAdd.length > 0) {
+      await addTagsToImages(selectedImageIds, uniqueTagsToAdd, undefined, history);
+    }
 
-  if (uniqueTagsToRemove.length > 0) {
-    await removeTagsFromImages(selectedImageIds, uniqueTagsToRemove);
-  }
+    if (uniqueTagsToRemove.length > 0) {
+      await removeTagsFromImages(selectedImageIds, uniqueTagsToRemove, undefined, history);
+    }
 
-  // Apply rating if selected
-  const selectedRating = document.querySelector('input[name="preview-bulk-rating"]:checked') as HTMLInputElement;
-  if (selectedRating && selectedRating.value !== '') {
-    const { updateImagesRating } = await import('../storage/service');
-    const ratingValue = selectedRating.value === 'unrated' ? undefined : selectedRating.value as ('g' | 's' | 'q' | 'e');
-    await updateImagesRating(selectedImageIds, ratingValue);
-  }
+    // Apply rating if selected
+    if (selectedRating && selectedRating.value !== '') {
+      const { updateImagesRating } = await import('../storage/service');
+      const ratingValue = selectedRating.value === 'unrated' ? undefined : selectedRating.value as ('g' | 's' | 'q' | 'e');
+      await updateImagesRating(selectedImageIds, ratingValue, undefined, history);
+    }
+  });
 
   // Clear inputs
   addInput.value = '';
@@ -2255,107 +2172,68 @@ function updatePreviewQuickRemoveTagsState() {
 function formatFileSize(bytes: number): string {
   if (bytes < 1024) return bytes + ' B';
   if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
 }
 
-function getXAccountFromUrl(url: string): string | null {
-  try {
-    const urlObj = new URL(url);
-    // Match x.com or twitter.com
-    if (urlObj.hostname === 'x.com' || urlObj.hostname === 'twitter.com' ||
-        urlObj.hostname === 'www.x.com' || urlObj.hostname === 'www.twitter.com') {
-      // Extract account from path like /accountname/status/...
-      const match = urlObj.pathname.match(/^\/([^\/]+)/);
-      if (match && match[1]) {
-        // Skip non-account paths
-        const path = match[1].toLowerCase();
-        if (path === 'i' || path === 'home' || path === 'explore' ||
-            path === 'notifications' || path === 'messages' || path === 'search') {
-          return null;
-        }
-        return match[1];
-      }
-    }
-    return null;
-  } catch {
-    return null;
-  }
+function createSiteIconHTML(site: string): string {
+  const info = getSiteInfo(site);
+  return `<span class="site-icon" style="background: ${info.color}" title="${escapeHtml(info.label)}">${escapeHtml(info.icon)}</span>`;
 }
 
-function groupImagesByXAccount(images: ImageMetadata[]): Map<string, ImageMetadata[]> {
-  const groups = new Map<string, ImageMetadata[]>();
-
-  for (const image of images) {
-    const account = getXAccountFromUrl(image.pageUrl);
-    if (account) {
-      if (!groups.has(account)) {
-        groups.set(account, []);
-      }
-      groups.get(account)!.push(image);
-    }
-  }
-
-  return groups;
+// Creator groups sorted by image count (descending), then alphabetically
+function getSortedCreatorGroups(images: ImageMetadata[]): { creator: Creator; images: ImageMetadata[] }[] {
+  return Array.from(groupImagesByCreator(images).values())
+    .sort((a, b) => {
+      const countDiff = b.images.length - a.images.length;
+      if (countDiff !== 0) return countDiff;
+      return a.creator.key.localeCompare(b.creator.key);
+    });
 }
 
-function groupImagesByDuplicates(images: ImageMetadata[]): Map<string, ImageMetadata[]> {
-  const groups = new Map<string, ImageMetadata[]>();
-
-  for (const image of images) {
-    // Group by dimensions AND file size
-    const key = `${image.width}×${image.height}-${image.fileSize}`;
-    if (!groups.has(key)) {
-      groups.set(key, []);
-    }
-    groups.get(key)!.push(image);
-  }
+// Similarity grouping is needed by both rendering and getVisualOrder(), so
+// cache it per filtered set
+let similarGroupsCache: { images: ImageMetadata[]; threshold: number; groups: ImageMetadata[][] } | null = null;
 
-  // Only return groups with 2+ images (actual duplicates)
-  const duplicates = new Map<string, ImageMetadata[]>();
-  for (const [key, groupImages] of groups) {
-    if (groupImages.length >= 2) {
-      duplicates.set(key, groupImages);
-    }
+function getSimilarGroups(images: ImageMetadata[]): ImageMetadata[][] {
+  if (
+    similarGroupsCache &&
+    similarGroupsCache.images === images &&
+    similarGroupsCache.threshold === state.similarityThreshold
+  ) {
+    return similarGroupsCache.groups;
   }
 
-  return duplicates;
+  const groups = groupSimilarImages(images, state.similarityThreshold);
+  similarGroupsCache = { images, threshold: state.similarityThreshold, groups };
+  return groups;
 }
 
-async function renderXAccountGroups(images: ImageMetadata[], renderToken: number) {
+async function renderCreatorGroups(images: ImageMetadata[], renderToken: number) {
   const grid = document.getElementById('image-grid')!;
-  const groups = groupImagesByXAccount(images);
+  const groups = getSortedCreatorGroups(images);
 
-  if (groups.size === 0) {
-    grid.innerHTML = '<div class="empty-state" style="display: block;"><p>No images from X/Twitter accounts found</p></div>';
+  if (groups.length === 0) {
+    grid.innerHTML = '<div class="empty-state" style="display: block;"><p>No images with a known creator found</p></div>';
     return;
   }
 
   // Remove grid layout from outer container (let group-content handle it)
   grid.style.display = 'block';
 
-  // Sort accounts by image count (descending), then alphabetically
-  const sortedAccounts = Array.from(groups.entries())
-    .sort((a, b) => {
-      const countDiff = b[1].length - a[1].length;
-      if (countDiff !== 0) return countDiff;
-      return a[0].localeCompare(b[0]);
-    })
-    .map(([account]) => account);
-
   // Count total cards to determine rendering strategy
   const totalCards = images.length;
 
   if (totalCards < 500) {
     // Fast path for small datasets
     let html = '';
-    for (const account of sortedAccounts) {
-      const groupImages = groups.get(account)!;
+    for (const { creator, images: groupImages } of groups) {
       const count = groupImages.length;
 
       html += `
         <div class="group-section">
           <div class="group-header">
-            <h3 class="group-title">@${account}</h3>
+            <h3 class="group-title">${createSiteIconHTML(creator.site)}@${escapeHtml(creator.handle)}</h3>
             <span class="group-count">${count} image${count !== 1 ? 's' : ''}</span>
           </div>
           <div class="group-content image-grid">
@@ -2372,13 +2250,12 @@ async function renderXAccountGroups(images: ImageMetadata[], renderToken: number
   } else {
     // Chunked rendering for large datasets
     grid.innerHTML = '';
-    for (const account of sortedAccounts) {
+    for (const { creator, images: groupImages } of groups) {
       // Abort if a newer render has started
       if (renderToken !== state.currentRenderToken) {
         return;
       }
 
-      const groupImages = groups.get(account)!;
       const count = groupImages.length;
 
       const groupSection = document.createElement('div');
@@ -2387,7 +2264,7 @@ async function renderXAccountGroups(images: ImageMetadata[], renderToken: number
       const groupHeader = document.createElement('div');
       groupHeader.className = 'group-header';
       groupHeader.innerHTML = `
-        <h3 class="group-title">@${account}</h3>
+        <h3 class="group-title">${createSiteIconHTML(creator.site)}@${escapeHtml(creator.handle)}</h3>
         <span class="group-count">${count} image${count !== 1 ? 's' : ''}</span>
       `;
 
@@ -2405,40 +2282,48 @@ async function renderXAccountGroups(images: ImageMetadata[], renderToken: number
   }
 }
 
-async function renderDuplicateGroups(images: ImageMetadata[], renderToken: number) {
+function createSimilarGroupHeaderHTML(group: ImageMetadata[]): string {
+  const best = group[0];
+  const keepBestButton = state.currentView === 'all'
+    ? `<button class="button button--secondary button--sm group-keep-best-btn" data-ids="${group.map(img => img.id).join(',')}" title="Keep the highest-resolution copy and move the rest to trash">Keep best</button>`
+    : '';
+
+  return `
+    <h3 class="group-title">${best.width}×${best.height}, ${formatFileSize(best.fileSize)}</h3>
+    <div class="group-header__actions">
+      <span class="group-count">${group.length} similar</span>
+      ${keepBestButton}
+    </div>
+  `;
+}
+
+async function renderSimilarGroups(images: ImageMetadata[], renderToken: number) {
   const grid = document.getElementById('image-grid')!;
-  const groups = groupImagesByDuplicates(images);
+  const groups = getSimilarGroups(images);
 
-  if (groups.size === 0) {
-    grid.innerHTML = '<div class="empty-state" style="display: block;"><p>No duplicates found</p></div>';
+  if (groups.length === 0) {
+    grid.innerHTML = '<div class="empty-state" style="display: block;"><p>No similar images found</p></div>';
     return;
   }
 
   // Remove grid layout from outer container (let group-content handle it)
   grid.style.display = 'block';
 
-  const sortedKeys = Array.from(groups.keys()).sort();
   const totalCards = images.length;
 
   if (totalCards < 500) {
     // Fast path for small datasets
     let html = '';
-    for (const key of sortedKeys) {
-      const groupImages = groups.get(key)!;
-      const count = groupImages.length;
-      const [dimensions, fileSize] = key.split('-');
-      const fileSizeFormatted = formatFileSize(Number(fileSize));
-
+    for (const group of groups) {
       html += `
         <div class="group-section">
           <div class="group-header">
-            <h3 class="group-title">${dimensions}, ${fileSizeFormatted}</h3>
-            <span class="group-count">${count} duplicates</span>
+            ${createSimilarGroupHeaderHTML(group)}
           </div>
           <div class="group-content image-grid">
       `;
 
-      html += groupImages.map(image => createImageCardHTML(image)).join('');
+      html += group.map(image => createImageCardHTML(image)).join('');
 
       html += `
           </div>
@@ -2449,26 +2334,18 @@ async function renderDuplicateGroups(images: ImageMetadata[], renderToken: numbe
   } else {
     // Chunked rendering for large datasets
     grid.innerHTML = '';
-    for (const key of sortedKeys) {
+    for (const group of groups) {
       // Abort if a newer render has started
       if (renderToken !== state.currentRenderToken) {
         return;
       }
 
-      const groupImages = groups.get(key)!;
-      const count = groupImages.length;
-      const [dimensions, fileSize] = key.split('-');
-      const fileSizeFormatted = formatFileSize(Number(fileSize));
-
       const groupSection = document.createElement('div');
       groupSection.className = 'group-section';
 
       const groupHeader = document.createElement('div');
       groupHeader.className = 'group-header';
-      groupHeader.innerHTML = `
-        <h3 class="group-title">${dimensions}, ${fileSizeFormatted}</h3>
-        <span class="group-count">${count} duplicates</span>
-      `;
+      groupHeader.innerHTML = createSimilarGroupHeaderHTML(group);
 
       const groupContent = document.createElement('div');
       groupContent.className = 'group-content image-grid';
@@ -2478,12 +2355,66 @@ async function renderDuplicateGroups(images: ImageMetadata[], renderToken: numbe
       grid.appendChild(groupSection);
 
       // Render cards in chunks
-      const htmlChunks = groupImages.map(image => createImageCardHTML(image));
+      const htmlChunks = group.map(image => createImageCardHTML(image));
       await renderCardsInChunks(groupContent, htmlChunks, renderToken, 100);
     }
   }
 }
 
+/**
+ * Keeps the best copy in a similar-images group and moves the rest to trash.
+ */
+async function keepBestInGroup(ids: string[]) {
+  const group = state.images.filter(img => ids.includes(img.id));
+  const best = pickBestImage(group);
+  if (!best) return;
+
+  const rest = group.filter(img => img.id !== best.id);
+  const confirmed = confirm(`Keep the ${best.width}×${best.height} copy and move ${rest.length} other image(s) to trash?`);
+  if (!confirmed) return;
+
+  await withHistory(`Keep best of ${group.length} similar images`, history => trashImages(rest.map(image => image.id), undefined, history));
+  rest.forEach(image => state.selectedIds.delete(image.id));
+  updateSelectionCount();
+  await loadImages();
+  chrome.runtime.sendMessage({ type: 'UPDATE_BADGE' }).catch(() => {});
+  showUndoToast(`Moved ${rest.length} image(s) to trash`);
+}
+
+// Perceptual hashes are computed at save time; older images get them on demand
+let perceptualHashBackfillStarted = false;
+
+async function ensurePerceptualHashes() {
+  if (perceptualHashBackfillStarted) return;
+  if (!state.images.some(img => !img.perceptualHash)) return;
+
+  perceptualHashBackfillStarted = true;
+  showToast('Computing image fingerprints for older images...');
+
+  try {
+    const updated = await backfillImageHashes();
+    if (updated > 0) {
+      await loadImages();
+    }
+  } catch (error) {
+    console.error('Failed to compute image fingerprints:', error);
+    // Let the next switch to similar grouping try again
+    perceptualHashBackfillStarted = false;
+    showToast('Failed to compute image fingerprints', 'error');
+  }
+}
+
+function updateSimilarityThresholdControl() {
+  const control = document.getElementById('similarity-threshold-control');
+  const slider = document.getElementById('similarity-threshold') as HTMLInputElement | null;
+  const value = document.getElementById('similarity-threshold-value');
+  if (!control || !slider || !value) return;
+
+  control.style.display = state.groupBy === 'similar' ? '' : 'none';
+  slider.value = String(state.similarityThreshold);
+  value.textContent = String(state.similarityThreshold);
+}
+
 /**
  * Returns images in their visual rendering order.
  * This matches the DOM order when grouping is enabled.
@@ -2492,32 +2423,12 @@ function getVisualOrder(): ImageMetadata[] {
   if (state.groupBy === 'none') {
     // Ungrouped: use filtered images as-is
     return state.filteredImages;
-  } else if (state.groupBy === 'x-account') {
-    // Group by X account: sort by count (desc) then alphabetically
-    const groups = groupImagesByXAccount(state.filteredImages);
-    const sortedAccounts = Array.from(groups.entries())
-      .sort((a, b) => {
-        const countDiff = b[1].length - a[1].length;
-        if (countDiff !== 0) return countDiff;
-        return a[0].localeCompare(b[0]);
-      })
-      .map(([account]) => account);
-
-    const visualOrder: ImageMetadata[] = [];
-    for (const account of sortedAccounts) {
-      visualOrder.push(...groups.get(account)!);
-    }
-    return visualOrder;
-  } else if (state.groupBy === 'duplicates') {
-    // Group by duplicates: sort by key alphabetically
-    const groups = groupImagesByDuplicates(state.filteredImages);
-    const sortedKeys = Array.from(groups.keys()).sort();
-
-    const visualOrder: ImageMetadata[] = [];
-    for (const key of sortedKeys) {
-      visualOrder.push(...groups.get(key)!);
-    }
-    return visualOrder;
+  } else if (state.groupBy === 'creator') {
+    // Group by creator: sort by count (desc) then alphabetically
+    return getSortedCreatorGroups(state.filteredImages).flatMap(group => group.images);
+  } else if (state.groupBy === 'similar') {
+    // Similar images: groups are already ordered largest first, best copy first
+    return getSimilarGroups(state.filteredImages).flat();
   }
 
   // Fallback
@@ -2559,6 +2470,54 @@ async function updateLightboxContent(image: ImageMetadata) {
   updateLightboxMetadata(image);
 }
 
+/**
+ * Renders the list of all capture sources for an image.
+ * Returns an empty string when the image has a single source, since the
+ * page/image URL rows already show it.
+ */
+function createSourcesListHTML(image: ImageMetadata, block: 'metadata' | 'preview-meta'): string {
+  const sources = getImageSources(image);
+  if (sources.length < 2) return '';
+
+  const items = sources.map(source => `
+    <li class="${block}-sources__item">
+      <a class="${block}-sources__link" href="${escapeHtml(source.pageUrl)}" target="_blank" rel="noopener noreferrer" title="${escapeHtml(source.pageUrl)}">${escapeHtml(source.pageTitle || source.pageUrl)}</a>
+      <span class="${block}-sources__date">${new Date(source.capturedAt).toLocaleDateString()}</span>
+    </li>
+  `).join('');
+
+  return `
+    <div class="${block}-row">
+      <span class="${block}-label">Sources (${sources.length})${block === 'metadata' ? ':' : ''}</span>
+      <ul class="${block}-sources">${items}</ul>
+    </div>
+  `;
+}
+
+function createPostInfoHTML(image: ImageMetadata, block: 'metadata' | 'preview-meta'): string {
+  const post = getImagePostMetadata(image);
+  if (!post.artist && !post.postedAt && !post.postText) return '';
+
+  const colon = block === 'metadata' ? ':' : '';
+  const details = [post.site, post.artist && `@${post.artist}`, post.postedAt && new Date(post.postedAt).toLocaleString()]
+    .filter(Boolean)
+    .map(part => escapeHtml(String(part)))
+    .join(' · ');
+
+  return `
+    <div class="${block}-row">
+      <span class="${block}-label">Post${colon}</span>
+      <span class="${block}-value ${block}-readonly">${details}</span>
+    </div>
+    ${post.postText ? `
+    <div class="${block}-row">
+      <span class="${block}-label">Post Text${colon}</span>
+      <span class="${block}-value ${block}-readonly ${block}-post-text">${escapeHtml(post.postText)}</span>
+    </div>
+    ` : ''}
+  `;
+}
+
 function updateLightboxMetadata(image: ImageMetadata) {
   const metadata = document.querySelector('.lightbox-metadata');
   if (!metadata) return;
@@ -2567,7 +2526,7 @@ function updateLightboxMetadata(image: ImageMetadata) {
   const fileSize = formatFileSize(image.fileSize);
 
   const tagsValue = image.tags && image.tags.length > 0
-    ? sortTags(image.tags).map(tag => `<span class="metadata-tags__tag">${tag}</span>`).join('')
+    ? sortTagsByCategory(image.tags, tagCategories).map(tag => `<span class="metadata-tags__tag${tagCategoryModifier('metadata-tags__tag', tag)}">${escapeHtml(tag)}</span>`).join('')
     : '<span class="no-tags">No tags</span>';
 
   // Get rating display info
@@ -2605,6 +2564,7 @@ function updateLightboxMetadata(image: ImageMetadata) {
       <span class="metadata-label">Type:</span>
       <span class="metadata-value">${image.mimeType}</span>
     </div>
+    <div class="metadata-row" id="lightbox-original-row-${image.id}" style="display: none"></div>
     <div class="metadata-row">
       <span class="metadata-label">Saved:</span>
       <span class="metadata-value">${date}</span>
@@ -2621,6 +2581,14 @@ function updateLightboxMetadata(image: ImageMetadata) {
       <span class="metadata-label">Image URL:</span>
       <span class="metadata-value metadata-readonly" title="${image.imageUrl}">${image.imageUrl}</span>
     </div>
+    ${image.clickedImageUrl ? `
+    <div class="metadata-row">
+      <span class="metadata-label">Clicked URL:</span>
+      <span class="metadata-value metadata-readonly" title="${image.clickedImageUrl}">${image.clickedImageUrl}</span>
+    </div>
+    ` : ''}
+    ${createSourcesListHTML(image, 'metadata')}
+    ${createPostInfoHTML(image, 'metadata')}
     <div class="metadata-row">
       <span class="metadata-label">Rating:</span>
       <div class="metadata-rating-display">
@@ -2665,6 +2633,9 @@ function updateLightboxMetadata(image: ImageMetadata) {
     </div>
   `;
 
+  // The row is optional; without it the panel is still complete
+  renderKeptOriginal(image.id).catch(() => {});
+
   // Attach event listeners for action buttons
   const downloadBtn = metadata.querySelector('.lightbox-download-btn');
   if (downloadBtn) {
@@ -2767,7 +2738,7 @@ function updateLightboxMetadata(image: ImageMetadata) {
 
         await updateImageTags(image.id, uniqueTags);
 
-        await syncImageMetadataToState(image.id, 'tags', uniqueTags);
+        await syncImageMetadataToState(image.id, 'tags', normalizeTypedTags(uniqueTags));
 
         // Update lightbox metadata display
         const imageInState = state.images.find(img => img.id === image.id);
@@ -2878,16 +2849,16 @@ function setupTagAutocomplete(
 
     // Danbooru syntax: Check if we're in a metatag context or "or" operator
     if (enableDanbooruSyntax) {
-      const metatagPattern = /^(rating|is|tagcount):/i;
+      const metatagPattern = /^-?(rating|is|tagcount|date|saved|updated|age|width|height|mpixels|filesize|ratio):/i;
       if (metatagPattern.test(currentToken) || currentToken.toLowerCase() === 'or' || currentToken.toLowerCase() === 'o') {
         autocompleteDiv.style.display = 'none';
         return;
       }
     }
 
-    // Danbooru syntax: Handle exclusion prefix
-    const isExclusion = enableDanbooruSyntax && currentToken.startsWith('-');
-    const tagPrefix = isExclusion ? currentToken.substring(1) : currentToken;
+    // Danbooru syntax: Handle exclusion, ~ and group prefixes
+    const operatorPrefix = enableDanbooruSyntax ? /^[-~(]*/.exec(currentToken)![0] : '';
+    const tagPrefix = currentToken.substring(operatorPrefix.length);
 
     // Get already-entered tags to exclude them from suggestions
     const enteredTagsSet = new Set<string>();
@@ -2896,10 +2867,10 @@ function setupTagAutocomplete(
     tokens.forEach(token => {
       if (enableDanbooruSyntax) {
         // Skip metatags and operators
-        const metatagPattern = /^(rating|is|tagcount):/i;
+        const metatagPattern = /^-?(rating|is|tagcount|date|saved|updated|age|width|height|mpixels|filesize|ratio):/i;
         if (metatagPattern.test(token) || token === 'or') return;
-        // Remove exclusion prefix for comparison
-        const cleanToken = token.startsWith('-') ? token.substring(1) : token;
+        // Remove operator prefixes and closing parens for comparison
+        const cleanToken = token.replace(/^[-~(]+/, '').replace(/\)+$/, '');
         if (cleanToken) enteredTagsSet.add(cleanToken);
       } else {
         if (token) enteredTagsSet.add(token);
@@ -2927,7 +2898,7 @@ function setupTagAutocomplete(
 
   function renderSuggestions() {
     autocompleteDiv.innerHTML = currentMatches.slice(0, 8).map((tag, index) =>
-      `<div class="tag-suggestion ${index === selectedIndex ? 'selected' : ''}" data-tag="${tag}" data-index="${index}">${tag}</div>`
+      `<div class="tag-suggestion ${index === selectedIndex ? 'selected' : ''}" data-tag="${escapeHtml(tag)}" data-index="${index}">${escapeHtml(tag)}</div>`
     ).join('');
 
     // Attach mousedown handlers (fires before blur, allows preventDefault)
@@ -2954,9 +2925,9 @@ function setupTagAutocomplete(
     const lastSpaceIndex = beforeCursor.lastIndexOf(' ');
     const currentToken = beforeCursor.substring(lastSpaceIndex + 1);
 
-    // Danbooru syntax: preserve exclusion prefix if present
-    const isExclusion = enableDanbooruSyntax && currentToken.startsWith('-');
-    const tagWithPrefix = isExclusion ? `-${tag}` : tag;
+    // Danbooru syntax: preserve exclusion, ~ and group prefixes if present
+    const operatorPrefix = enableDanbooruSyntax ? /^[-~(]*/.exec(currentToken)![0] : '';
+    const tagWithPrefix = operatorPrefix + tag;
 
     const beforeTag = value.substring(0, lastSpaceIndex + 1);
     const nextSpaceOrEnd = afterCursor.indexOf(' ');
@@ -3416,7 +3387,7 @@ tagContextMenu.addEventListener('click', async (e: Event) => {
   const { updateImageTags } = await import('../storage/service');
   await updateImageTags(contextMenuTargetImageId, updatedTags);
 
-  await syncImageMetadataToState(contextMenuTargetImageId, 'tags', updatedTags);
+  await syncImageMetadataToState(contextMenuTargetImageId, 'tags', normalizeTypedTags(updatedTags));
 
   closeContextMenus();
 });
@@ -3492,7 +3463,16 @@ imageGrid.addEventListener('click', (e: Event) => {
     return;
   }
 
-  // 2. Account button - toggle account filter
+  // 2. Similar-images group header - keep best copy
+  if (target.matches('.group-keep-best-btn')) {
+    const ids = target.getAttribute('data-ids');
+    if (ids) {
+      keepBestInGroup(ids.split(','));
+    }
+    return;
+  }
+
+  // 3. Account button - toggle account filter
   if (target.matches('.image-account-btn')) {
     const account = target.getAttribute('data-account');
     if (account) {
@@ -3502,7 +3482,7 @@ imageGrid.addEventListener('click', (e: Event) => {
     return;
   }
 
-  // 3. Tag clicks - toggle tag in search input
+  // 4. Tag clicks - toggle tag in search input
   if (target.matches('.image-tags__tag')) {
     const tag = target.getAttribute('data-tag');
     if (tag) {
@@ -3512,18 +3492,18 @@ imageGrid.addEventListener('click', (e: Event) => {
     return;
   }
 
-  // 4. Image preview (opens lightbox)
+  // 5. Image preview (opens lightbox)
   if (target.matches('.image-preview')) {
     handleImageClick(e);
     return;
   }
 
-  // 5. Checkbox (let the change event handle it)
+  // 6. Checkbox (let the change event handle it)
   if (target.matches('.image-checkbox')) {
     return;
   }
 
-  // 6. Anywhere else on the card → handle selection based on modifier keys
+  // 7. Anywhere else on the card → handle selection based on modifier keys
   const card = target.closest('.image-card');
   if (card) {
     const id = card.getAttribute('data-id')!;
@@ -3607,39 +3587,72 @@ document.getElementById('restore-selected-btn')!.addEventListener('click', async
   const count = state.selectedIds.size;
   if (count === 0) return;
 
-  for (const id of state.selectedIds) {
-    await restoreImage(id);
-  }
+  await withHistory(`Restore ${count} image${count !== 1 ? 's' : ''}`, history => restoreImages(Array.from(state.selectedIds), undefined, history));
   state.selectedIds.clear();
   updateSelectionCount();
   await loadImages();
   chrome.runtime.sendMessage({ type: 'UPDATE_BADGE' }).catch(() => {});
+  showUndoToast(`Restored ${count} image${count !== 1 ? 's' : ''}`);
 });
 
 document.getElementById('delete-selected-btn')!.addEventListener('click', async () => {
   const count = state.selectedIds.size;
   if (count === 0) return;
 
-  for (const id of state.selectedIds) {
-    await deleteImage(id);
-  }
+  await withHistory(`Move ${count} image${count !== 1 ? 's' : ''} to trash`, history => trashImages(Array.from(state.selectedIds), undefined, history));
   state.selectedIds.clear();
   updateSelectionCount();
   await loadImages();
   chrome.runtime.sendMessage({ type: 'UPDATE_BADGE' }).catch(() => {});
+  showUndoToast(`Moved ${count} image${count !== 1 ? 's' : ''} to trash`);
 });
 
 chrome.runtime.onMessage.addListener((message) => {
   if (message.type === 'IMAGE_SAVED') {
     loadSingleImage(message.imageId);
+    if (message.status === 'merged') {
+      showToast('Image was already saved - tags merged into the existing copy');
+    } else if (message.status === 'skipped') {
+      showToast('Image is already in your storage');
+    }
   }
 });
 
-// Group by
-const groupBySelect = document.getElementById('group-by') as HTMLSelectElement;
+// Categories are recorded when tags are typed with a prefix (artist:foo), here or by auto-tag rules
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area !== 'local' || !changes.tagCategories) return;
 
-groupBySelect.addEventListener('change', () => {
-  state.groupBy = groupBySelect.value;
+  tagCategories = changes.tagCategories.newValue || {};
+  applyFilters();
+  const lightboxImage = getVisualOrder()[state.currentLightboxIndex];
+  if (state.lightboxActive && lightboxImage) {
+    updateLightboxMetadata(lightboxImage);
+  }
+});
+
+// Group by
+const groupBySelect = document.getElementById('group-by') as HTMLSelectElement;
+
+groupBySelect.addEventListener('change', () => {
+  state.groupBy = groupBySelect.value;
+  saveViewSettings();
+  updateSimilarityThresholdControl();
+  applyFilters();
+  if (state.groupBy === 'similar') {
+    // Runs in the background and reports its own failures
+    ensurePerceptualHashes().catch(() => {});
+  }
+});
+
+// Similarity threshold (max Hamming distance between perceptual hashes)
+const similarityThresholdSlider = document.getElementById('similarity-threshold') as HTMLInputElement;
+
+similarityThresholdSlider.addEventListener('input', () => {
+  state.similarityThreshold = Number(similarityThresholdSlider.value);
+  document.getElementById('similarity-threshold-value')!.textContent = similarityThresholdSlider.value;
+});
+
+similarityThresholdSlider.addEventListener('change', () => {
   saveViewSettings();
   applyFilters();
 });
@@ -3695,6 +3708,17 @@ document.addEventListener('keydown', (e: KeyboardEvent) => {
     return;
   }
 
+  // Undo/redo metadata edits (text fields above keep their own undo)
+  if ((e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'Z' || e.key === 'y')) {
+    e.preventDefault();
+    if (e.shiftKey || e.key === 'y') {
+      redoLastEdit();
+    } else {
+      undoLastEdit();
+    }
+    return;
+  }
+
   // Lightbox navigation - same visual behavior as grid
   if (state.lightboxActive) {
     if (e.key === 'ArrowRight') {
@@ -3776,6 +3800,9 @@ settingsBtn.addEventListener('click', async () => {
   const isVisible = settingsPanel.style.display !== 'none';
   settingsPanel.style.display = isVisible ? 'none' : 'block';
 
+  if (!isVisible) {
+    await updateOriginalsStatus();
+  }
   if (isVisible && newlyImportedRuleIds.size > 0) {
     newlyImportedRuleIds.clear();
     await renderTagRules();
@@ -3785,14 +3812,21 @@ settingsBtn.addEventListener('click', async () => {
 // Settings initialization and handling
 const showNotificationsToggle = document.getElementById('show-notifications-toggle') as HTMLInputElement;
 
+const duplicatePolicySelect = document.getElementById('duplicate-policy-select') as HTMLSelectElement;
+
 loadSettings().then(settings => {
   showNotificationsToggle.checked = settings.showNotifications;
+  duplicatePolicySelect.value = settings.duplicatePolicy;
 });
 
 showNotificationsToggle.addEventListener('change', async () => {
   await saveSettings({ showNotifications: showNotificationsToggle.checked });
 });
 
+duplicatePolicySelect.addEventListener('change', async () => {
+  await saveSettings({ duplicatePolicy: duplicatePolicySelect.value as DuplicatePolicy });
+});
+
 // View toggle (All Images / Trash)
 const allImagesBtn = document.getElementById('all-images-btn')!;
 const trashBtn = document.getElementById('trash-btn')!;
@@ -3800,14 +3834,24 @@ const emptyTrashBtn = document.getElementById('empty-trash-btn')!;
 const restoreSelectedBtn = document.getElementById('restore-selected-btn')!;
 const deleteSelectedBtn = document.getElementById('delete-selected-btn')!;
 const dumpSelectedBtn = document.getElementById('dump-selected-btn')!;
+const albumViewBtn = document.getElementById('album-view-btn')!;
+const albumSelectedBtn = document.getElementById('album-selected-btn')!;
+const setAlbumCoverBtn = document.getElementById('set-album-cover-btn')!;
+const removeFromAlbumBtn = document.getElementById('remove-from-album-btn')!;
 
-function switchView(view: 'all' | 'trash') {
+function switchView(view: 'all' | 'trash', albumId: string | null = null) {
   state.currentView = view;
+  state.currentAlbumId = albumId;
   state.selectedIds.clear();
 
   // Update button states
-  allImagesBtn.classList.toggle('active', view === 'all');
+  allImagesBtn.classList.toggle('active', view === 'all' && !albumId);
   trashBtn.classList.toggle('active', view === 'trash');
+  albumViewBtn.classList.toggle('active', !!albumId);
+  albumViewBtn.style.display = albumId ? '' : 'none';
+  albumSelectedBtn.style.display = view === 'all' ? 'inline-block' : 'none';
+  setAlbumCoverBtn.style.display = albumId ? 'inline-block' : 'none';
+  removeFromAlbumBtn.style.display = albumId ? 'inline-block' : 'none';
 
   // Show/hide appropriate buttons
   if (view === 'trash') {
@@ -4006,27 +4050,30 @@ async function saveBulkTags() {
   const uniqueTagsToAdd = Array.from(new Set(tagsToAdd));
   const uniqueTagsToRemove = Array.from(new Set(tagsToRemove));
 
-  // Apply operations
-  if (uniqueTagsToAdd.length > 0) {
-    await addTagsToImages(selectedImageIds, uniqueTagsToAdd);
-  }
+  // Apply operations as one undoable step
+  const selectedRating = document.querySelector('input[name="bulk-rating"]:checked') as HTMLInputElement;
+  await withHistory(`Bulk tag ${selectedImageIds.length} image${selectedImageIds.length !== 1 ? 's' : ''}`, async history => {
+    if (uniqueTagsToAdd.length > 0) {
+      await addTagsToImages(selectedImageIds, uniqueTagsToAdd, undefined, history);
+    }
 
-  if (uniqueTagsToRemove.length > 0) {
-    await removeTagsFromImages(selectedImageIds, uniqueTagsToRemove);
-  }
+    if (uniqueTagsToRemove.length > 0) {
+      await removeTagsFromImages(selectedImageIds, uniqueTagsToRemove, undefined, history);
+    }
 
-  // Apply rating if selected
-  const selectedRating = document.querySelector('input[name="bulk-rating"]:checked') as HTMLInputElement;
-  if (selectedRating && selectedRating.value !== '') {
-    const { updateImagesRating } = await import('../storage/service');
-    const ratingValue = selectedRating.value === 'unrated' ? undefined : selectedRating.value as ('g' | 's' | 'q' | 'e');
-    await updateImagesRating(selectedImageIds, ratingValue);
-  }
+    // Apply rating if selected
+    if (selectedRating && selectedRating.value !== '') {
+      const { updateImagesRating } = await import('../storage/service');
+      const ratingValue = selectedRating.value === 'unrated' ? undefined : selectedRating.value as ('g' | 's' | 'q' | 'e');
+      await updateImagesRating(selectedImageIds, ratingValue, undefined, history);
+    }
+  });
 
   // Reload images and close modal
   await loadImages();
   updatePreviewPane();
   closeBulkTagModal();
+  showUndoToast(`Updated ${selectedImageIds.length} image${selectedImageIds.length !== 1 ? 's' : ''}`);
 }
 
 bulkTagSelectedBtn.addEventListener('click', openBulkTagModal);
@@ -4050,10 +4097,15 @@ document.getElementById('import-local-files-btn')!.addEventListener('click', asy
 
     try {
       const { importLocalFiles } = await import('../storage/service');
-      const importedImages = await importLocalFiles(files);
+      const results = await importLocalFiles(files);
 
       // Reload images to reflect the new imports
       await loadImages();
+
+      const duplicateCount = results.filter(result => result.status !== 'saved').length;
+      if (duplicateCount > 0) {
+        showToast(`Imported ${results.length - duplicateCount} image(s), ${duplicateCount} already stored`);
+      }
     } catch (error) {
       console.error('Failed to import files:', error);
       alert(`Failed to import files: ${error instanceof Error ? error.message : String(error)}`);
@@ -4098,12 +4150,13 @@ document.getElementById('export-database-btn')!.addEventListener('click', async
     // Create backup folder
     const backupDir = await dirHandle.getDirectoryHandle(backupFolderName, { create: true });
 
+    const albumsToExport = await getAlbums();
     const chunks = await exportDatabase(allImagesMetadata, (current, total) => {
       const percent = Math.round((current / total) * 100);
       progressText.textContent = `Exporting images...`;
       progressFill.style.width = `${percent}%`;
       progressDetail.textContent = `${current} / ${total} images`;
-    });
+    }, albumsToExport);
 
     // Write each chunk to the backup folder
     progressText.textContent = 'Writing files...';
@@ -4128,6 +4181,7 @@ document.getElementById('export-database-btn')!.addEventListener('click', async
     const manifest = {
       exportedAt: timestamp,
       totalImages: state.images.length,
+      totalAlbums: albumsToExport.length,
       files: chunks.length,
       version: '1.0'
     };
@@ -4213,15 +4267,18 @@ document.getElementById('import-database-btn')!.addEventListener('click', async
         const { importDatabase } = await import('../storage/sqlite-import-export');
 
         // Import all files sequentially
+        const duplicates: ImportDuplicates = { merged: 0, skipped: 0 };
         for (const { file, analysis } of analyses) {
           const importedImages = await importDatabase(file, 'skip');
           closeImportDatabase(analysis.db);
-          await importImagesToIndexedDB(importedImages);
+          await importImagesToIndexedDB(importedImages, duplicates);
+          await importAlbumsFromBackup(file);
         }
 
+        await reloadAlbums();
         await loadImages();
 
-        alert(`Import complete!\n${totalNew} images added from ${files.length} file(s).`);
+        alert(`Import complete!\n${totalNew} images added from ${files.length} file(s).${describeImportDuplicates(duplicates)}`);
       } else {
         // Show conflict resolution modal for all files (dbs will be closed by modal handlers)
         showImportConflictModal(analyses, { totalNew, totalConflicts, totalImages, allConflicts });
@@ -4235,12 +4292,52 @@ document.getElementById('import-database-btn')!.addEventListener('click', async
   input.click();
 });
 
-// Helper to import SavedImages to IndexedDB
-async function importImagesToIndexedDB(images: SavedImage[]) {
-  const { imageDB } = await import('../storage/db');
-  for (const image of images) {
-    await imageDB.update(image);  // Uses put() which inserts or updates
+document.getElementById('rebuild-thumbnails-btn')!.addEventListener('click', async () => {
+  const button = document.getElementById('rebuild-thumbnails-btn') as HTMLButtonElement;
+  const status = document.getElementById('rebuild-thumbnails-status')!;
+  if (!confirm('Regenerate the thumbnails of every image? This can take a while for a large library.')) return;
+
+  button.disabled = true;
+  try {
+    const { rebuildThumbnails } = await import('../storage/service');
+    const rebuilt = await rebuildThumbnails((current, total) => {
+      status.textContent = `Rebuilding thumbnails... ${current} / ${total}`;
+    });
+    status.textContent = `Rebuilt thumbnails for ${rebuilt} image${rebuilt !== 1 ? 's' : ''}`;
+
+    // Cards still show the old thumbnails until they're loaded again
+    revokeObjectURLs();
+    await renderImages(state.filteredImages);
+  } catch (error) {
+    console.error('Failed to rebuild thumbnails:', error);
+    status.textContent = '';
+    showToast('Failed to rebuild thumbnails', 'error');
+  } finally {
+    button.disabled = false;
   }
+});
+
+type ImportDuplicates = Pick<ImportImagesResult, 'merged' | 'skipped'>;
+
+// Helper to import SavedImages to IndexedDB. Images already in the library
+// under another ID are merged or skipped by the duplicate policy and
+// tallied in `duplicates`.
+async function importImagesToIndexedDB(images: SavedImage[], duplicates: ImportDuplicates) {
+  const result = await importImages(images);
+  duplicates.merged += result.merged;
+  duplicates.skipped += result.skipped;
+}
+
+// Extra line for the import summary when the duplicate policy applied
+function describeImportDuplicates({ merged, skipped }: ImportDuplicates): string {
+  if (merged + skipped === 0) return '';
+  return `\n${merged + skipped} of them were already in the library under another ID (${merged} merged, ${skipped} skipped).`;
+}
+
+// Albums in a backup are merged into existing ones with the same ID
+async function importAlbumsFromBackup(file: File) {
+  const { importAlbums } = await import('../storage/sqlite-import-export');
+  await mergeImportedAlbums(await importAlbums(file));
 }
 
 // Import conflict modal handlers
@@ -4285,6 +4382,7 @@ document.getElementById('import-skip-all-btn')!.addEventListener('click', async
     const existingIds = new Set(state.images.map(img => img.id));
 
     // Import all files, skipping conflicts
+    const duplicates: ImportDuplicates = { merged: 0, skipped: 0 };
     for (const { file, analysis } of analyses) {
       const importedImages = await importDatabase(file, 'skip');
       closeImportDatabase(analysis.db);
@@ -4292,12 +4390,14 @@ document.getElementById('import-skip-all-btn')!.addEventListener('click', async
       // Filter out conflicts (only import new images)
       const newImages = importedImages.filter(img => !existingIds.has(img.id));
 
-      await importImagesToIndexedDB(newImages);
+      await importImagesToIndexedDB(newImages, duplicates);
+      await importAlbumsFromBackup(file);
     }
 
+    await reloadAlbums();
     await loadImages();
 
-    alert(`Import complete!\n${aggregatedData.totalNew} new images added.\n${aggregatedData.totalConflicts} conflicts skipped.`);
+    alert(`Import complete!\n${aggregatedData.totalNew} new images added.\n${aggregatedData.totalConflicts} conflicts skipped.${describeImportDuplicates(duplicates)}`);
   } catch (error) {
     console.error('Import failed:', error);
     alert('Import failed. See console for details.');
@@ -4319,15 +4419,18 @@ document.getElementById('import-override-all-btn')!.addEventListener('click', as
     const { importDatabase, closeImportDatabase } = await import('../storage/sqlite-import-export');
 
     // Import all files, overriding conflicts
+    const duplicates: ImportDuplicates = { merged: 0, skipped: 0 };
     for (const { file, analysis } of analyses) {
       const importedImages = await importDatabase(file, 'override');
       closeImportDatabase(analysis.db);
-      await importImagesToIndexedDB(importedImages);
+      await importImagesToIndexedDB(importedImages, duplicates);
+      await importAlbumsFromBackup(file);
     }
 
+    await reloadAlbums();
     await loadImages();
 
-    alert(`Import complete!\n${aggregatedData.totalNew} new images added.\n${aggregatedData.totalConflicts} images overridden.`);
+    alert(`Import complete!\n${aggregatedData.totalNew} new images added.\n${aggregatedData.totalConflicts} images overridden.${describeImportDuplicates(duplicates)}`);
   } catch (error) {
     console.error('Import failed:', error);
     alert('Import failed. See console for details.');
@@ -4473,6 +4576,7 @@ async function finishGranularImport(analyses: any[], conflicts: any[], decisions
 
     let totalNew = 0;
     let totalOverride = 0;
+    const duplicates: ImportDuplicates = { merged: 0, skipped: 0 };
 
     // Import all files with decisions applied
     for (const { file, analysis } of analyses) {
@@ -4494,14 +4598,16 @@ async function finishGranularImport(analyses: any[], conflicts: any[], decisions
         return shouldOverride;
       });
 
-      await importImagesToIndexedDB(imagesToImport);
+      await importImagesToIndexedDB(imagesToImport, duplicates);
+      await importAlbumsFromBackup(file);
     }
 
+    await reloadAlbums();
     await loadImages();
 
     const keepCount = conflicts.length - totalOverride;
 
-    alert(`Import complete!\n${totalNew} new images added.\n${totalOverride} images overridden.\n${keepCount} conflicts skipped.`);
+    alert(`Import complete!\n${totalNew} new images added.\n${totalOverride} images overridden.\n${keepCount} conflicts skipped.${describeImportDuplicates(duplicates)}`);
   } catch (error) {
     console.error('Import failed:', error);
     alert('Import failed. See console for details.');
@@ -4592,10 +4698,24 @@ danbooruApiKeyToggle.addEventListener('click', () => {
 });
 
 // Toast notification system
-function showToast(message: string, type: 'success' | 'error' = 'success') {
+function showToast(
+  message: string,
+  type: 'success' | 'error' = 'success',
+  action?: { label: string; onClick: () => void }
+) {
   const toast = document.createElement('div');
   toast.className = 'toast toast-' + type;
   toast.textContent = message;
+  if (action) {
+    const button = document.createElement('button');
+    button.className = 'toast__action';
+    button.textContent = action.label;
+    button.addEventListener('click', () => {
+      toast.remove();
+      action.onClick();
+    });
+    toast.appendChild(button);
+  }
   toast.style.cssText = `
     position: fixed;
     bottom: 24px;
@@ -4615,7 +4735,7 @@ function showToast(message: string, type: 'success' | 'error' = 'success') {
   setTimeout(() => {
     toast.style.animation = 'slideOut 0.3s ease-in';
     setTimeout(() => toast.remove(), 300);
-  }, 3000);
+  }, action ? 6000 : 3000);
 }
 
 // Add toast animations to page
@@ -4631,52 +4751,26 @@ if (!document.getElementById('toast-styles')) {
       from { transform: translateX(0); opacity: 1; }
       to { transform: translateX(400px); opacity: 0; }
     }
+    .toast__action {
+      margin-left: 16px;
+      padding: 4px 10px;
+      border: 1px solid rgba(255, 255, 255, 0.8);
+      border-radius: 4px;
+      background: transparent;
+      color: white;
+      font-weight: 600;
+      cursor: pointer;
+    }
   `;
   document.head.appendChild(style);
 }
 
-// URL parsing helper for artist extraction
-function extractArtistFromUrl(url: string): { artist?: string; source?: string } {
-  const result: { artist?: string; source?: string } = {};
-
-  // Pixiv
-  const pixivUser = url.match(/pixiv\.net\/(?:en\/)?users\/(\d+)/);
-  const pixivArtwork = url.match(/pixiv\.net\/(?:en\/)?artworks\/(\d+)/);
-  if (pixivUser) {
-    result.artist = `pixiv_user_${pixivUser[1]}`;
-    result.source = url;
-  } else if (pixivArtwork) {
-    result.source = url;
-  }
-
-  // Twitter/X
-  const twitter = url.match(/(?:twitter|x)\.com\/([^/]+)/);
-  if (twitter && !['i', 'home', 'search'].includes(twitter[1])) {
-    result.artist = twitter[1];
-    result.source = url;
-  }
-
-  // Fanbox
-  const fanbox = url.match(/([^.]+)\.fanbox\.cc/);
-  if (fanbox) {
-    result.artist = `${fanbox[1]}_fanbox`;
-    result.source = url;
-  }
-
-  // DeviantArt
-  const deviantart = url.match(/deviantart\.com\/([^/]+)/);
-  if (deviantart) {
-    result.artist = deviantart[1];
-    result.source = url;
-  }
-
-  // ArtStation
-  const artstation = url.match(/artstation\.com\/(?:artwork\/|[^/]+$)/);
-  if (artstation) {
-    result.source = url;
-  }
-
-  return result;
+// Numeric Pixiv IDs and Fanbox creator names follow Danbooru's artist naming
+function getDanbooruArtistName(post: Partial<PostMetadata>): string {
+  if (!post.artist) return '';
+  if (post.site === 'pixiv' && /^\d+$/.test(post.artist)) return `pixiv_user_${post.artist}`;
+  if (post.site === 'fanbox') return `${post.artist}_fanbox`;
+  return post.artist;
 }
 
 // Modal control
@@ -4724,21 +4818,21 @@ async function openDanbooruUploadModal(imageId: string) {
   const sourceInput = document.getElementById('danbooru-source-input') as HTMLInputElement;
   const descriptionInput = document.getElementById('danbooru-description-input') as HTMLTextAreaElement;
 
-  // Auto-fill tags from existing tags
-  tagsInput.value = image.tags ? sortTags(image.tags).join(', ') : '';
+  // Auto-fill tags from existing tags, each category into its own field
+  const tagsByCategory = splitTagsByCategory(image.tags ?? [], tagCategories);
+  tagsInput.value = [...tagsByCategory.general, ...tagsByCategory.meta].join(' ');
+  copyrightInput.value = tagsByCategory.copyright.join(' ');
+  characterInput.value = tagsByCategory.character.join(' ');
 
-  // Extract artist from URL
-  const extracted = extractArtistFromUrl(image.pageUrl);
-  artistInput.value = extracted.artist || '';
-  sourceInput.value = extracted.source || image.pageUrl;
+  // Artist tags, else the post metadata captured at save time (or the page URL)
+  artistInput.value = tagsByCategory.artist.length > 0
+    ? tagsByCategory.artist.join(' ')
+    : getDanbooruArtistName(getImagePostMetadata(image));
+  sourceInput.value = image.pageUrl;
 
   // Fill description with page title
   descriptionInput.value = image.pageTitle || '';
 
-  // Reset other fields
-  copyrightInput.value = '';
-  characterInput.value = '';
-
   // Pre-fill rating from image, or default to Questionable
   const ratingValue = image.rating || 'q';
   const ratingInput = document.querySelector(`input[name="danbooru-rating"][value="${ratingValue}"]`) as HTMLInputElement;
@@ -4776,9 +4870,9 @@ danbooruSubmitBtn.addEventListener('click', async () => {
 
   // Combine all tags
   const generalTags = tagsInput.value.split(/\s+/).filter(Boolean);
-  const artistTags = artistInput.value.trim() ? [artistInput.value.trim()] : [];
-  const copyrightTags = copyrightInput.value.trim() ? [copyrightInput.value.trim()] : [];
-  const characterTags = characterInput.value.trim() ? [characterInput.value.trim()] : [];
+  const artistTags = artistInput.value.split(/\s+/).filter(Boolean);
+  const copyrightTags = copyrightInput.value.split(/\s+/).filter(Boolean);
+  const characterTags = characterInput.value.split(/\s+/).filter(Boolean);
 
   const allTags = [...generalTags, ...artistTags, ...copyrightTags, ...characterTags];
   const tagString = allTags.join(' ');
@@ -5008,9 +5102,21 @@ import {
   addTagRule,
   updateTagRule,
   deleteTagRule,
+  moveTagRule,
+  loadRuleHitCounts,
   exportRulesToJSON,
   importRulesFromJSON,
+  describeCondition,
+  matchesRule,
+  getRuleTags,
+  getRuleOperators,
+  isNumericRuleField,
+  parseRuleNumber,
+  RULE_FIELD_LABELS,
   type TagRule,
+  type RuleCondition,
+  type RuleField,
+  type RuleOperator,
   type ImportResult
 } from '../storage/tag-rules';
 
@@ -5024,44 +5130,60 @@ const cancelRuleBtn = document.getElementById('cancel-rule-btn')!;
 const exportRulesBtn = document.getElementById('export-rules-btn')!;
 const importRulesBtn = document.getElementById('import-rules-btn')!;
 const importRulesInput = document.getElementById('import-rules-input') as HTMLInputElement;
+const ruleConditionsList = document.getElementById('rule-conditions-list')!;
+const ruleRatingSelect = document.getElementById('rule-rating-select') as HTMLSelectElement;
+const ruleStopToggle = document.getElementById('rule-stop-toggle') as HTMLInputElement;
+const ruleSampleInput = document.getElementById('rule-sample-input') as HTMLInputElement;
+const rulePreview = document.getElementById('rule-preview')!;
 
 let editingRuleId: string | null = null;
 let newlyImportedRuleIds = new Set<string>();
 
+// Rules are listed in the order they run
 async function renderTagRules() {
   const rules = await loadTagRules();
+  const hits = await loadRuleHitCounts();
 
   if (rules.length === 0) {
     tagRulesList.innerHTML = '<p class="no-rules-message">No auto-tagging rules configured yet.</p>';
     return;
   }
 
-  rules.sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
-
-  tagRulesList.innerHTML = rules.map(rule => `
-    <div class="tag-rule-card ${!rule.enabled ? 'disabled' : ''} ${newlyImportedRuleIds.has(rule.id) ? 'newly-imported' : ''}" data-rule-id="${rule.id}">
+  tagRulesList.innerHTML = rules.map((rule, index) => `
+    <div class="tag-rule-card ${!rule.enabled ? 'disabled' : ''} ${newlyImportedRuleIds.has(rule.id) ? 'newly-imported' : ''}" data-rule-id="${rule.id}" draggable="true">
       <div class="tag-rule-header">
+        <span class="tag-rule-handle" title="Drag to reorder">⋮⋮</span>
         <div class="tag-rule-info">
           <strong>
+            <span class="tag-rule-position">${index + 1}.</span>
             ${escapeHtml(rule.name)}
             ${newlyImportedRuleIds.has(rule.id) ? '<span class="new-badge">NEW</span>' : ''}
+            ${rule.stopProcessing ? '<span class="stop-badge" title="Rules below are skipped when this one matches">stop</span>' : ''}
           </strong>
           <span class="tag-rule-pattern">
-            ${rule.pattern === '' ? '(matches all)' : escapeHtml(rule.pattern)}
+            ${rule.pattern === '' ? (rule.conditions?.length ? '(any title)' : '(matches all)') : escapeHtml(rule.pattern)}
             ${rule.isRegex ? '<span class="regex-badge">regex</span>' : ''}
           </span>
+          ${rule.conditions?.length ? `
+            <span class="tag-rule-conditions">
+              ${rule.conditions.map(condition => `<span>${escapeHtml(describeCondition(condition))}</span>`).join('')}
+            </span>
+          ` : ''}
         </div>
         <div class="tag-rule-actions">
+          <span class="tag-rule-hits" title="Images tagged by this rule">${hits[rule.id] || 0} hit${hits[rule.id] === 1 ? '' : 's'}</span>
           <label class="toggle-switch">
             <input type="checkbox" class="rule-enabled-toggle" ${rule.enabled ? 'checked' : ''}>
             <span class="toggle-slider"></span>
           </label>
+          <button class="icon-button apply-rule-btn" title="Apply now to saved images">▶</button>
           <button class="icon-button edit-rule-btn" title="Edit rule">✎</button>
           <button class="icon-button delete-rule-btn" title="Delete rule">×</button>
         </div>
       </div>
       <div class="tag-rule-tags">
-        ${rule.tags.map(tag => `<span class="tag-pill">${escapeHtml(tag)}</span>`).join('')}
+        ${rule.tags.map(tag => `<span class="tag-pill ${tag.startsWith('-') ? 'tag-pill--negative' : ''}">${escapeHtml(tag)}</span>`).join('')}
+        ${rule.rating ? `<span class="tag-pill">rating:${rule.rating}</span>` : ''}
       </div>
     </div>
   `).join('');
@@ -5081,6 +5203,15 @@ function attachRuleEventListeners() {
       await renderTagRules();
     });
 
+    const applyBtn = card.querySelector('.apply-rule-btn');
+    applyBtn?.addEventListener('click', async () => {
+      const rule = (await loadTagRules()).find(r => r.id === ruleId);
+      if (rule) {
+        // Disabled rules can still be run by hand
+        openApplyRules([{ ...rule, enabled: true }], `Apply "${rule.name}"`);
+      }
+    });
+
     const editBtn = card.querySelector('.edit-rule-btn');
     editBtn?.addEventListener('click', async () => {
       const rules = await loadTagRules();
@@ -5091,6 +5222,10 @@ function attachRuleEventListeners() {
         rulePatternInput.value = rule.pattern;
         ruleRegexToggle.checked = rule.isRegex;
         ruleTagsInput.value = rule.tags.join(' ');
+        setConditionRows(rule.conditions || []);
+        ruleRatingSelect.value = rule.rating ?? '';
+        ruleStopToggle.checked = !!rule.stopProcessing;
+        updateRulePreview();
         addRuleBtn.textContent = 'Update Rule';
         cancelRuleBtn.style.display = 'inline-block';
         ruleNameInput.focus();
@@ -5107,6 +5242,79 @@ function attachRuleEventListeners() {
   });
 }
 
+// Drag-to-reorder in the rules list
+let draggedRuleId: string | null = null;
+
+function clearRuleDropMarkers() {
+  tagRulesList.querySelectorAll('.tag-rule-card--drop-before, .tag-rule-card--drop-after').forEach(card => {
+    card.classList.remove('tag-rule-card--drop-before', 'tag-rule-card--drop-after');
+  });
+}
+
+// Rule cards are stacked, so the vertical half decides the side
+function isRuleDropAfter(card: HTMLElement, e: DragEvent): boolean {
+  const rect = card.getBoundingClientRect();
+  return e.clientY > rect.top + rect.height / 2;
+}
+
+tagRulesList.addEventListener('dragstart', (e: DragEvent) => {
+  const card = (e.target as HTMLElement).closest('.tag-rule-card') as HTMLElement | null;
+  if (!card) return;
+
+  draggedRuleId = card.dataset.ruleId!;
+  e.dataTransfer!.effectAllowed = 'move';
+  e.dataTransfer!.setData('text/plain', draggedRuleId);
+  card.classList.add('tag-rule-card--dragging');
+});
+
+tagRulesList.addEventListener('dragover', (e: DragEvent) => {
+  const card = (e.target as HTMLElement).closest('.tag-rule-card') as HTMLElement | null;
+  if (!card || !draggedRuleId) return;
+
+  e.preventDefault();
+  e.dataTransfer!.dropEffect = 'move';
+  const after = isRuleDropAfter(card, e);
+  if (!card.classList.contains(after ? 'tag-rule-card--drop-after' : 'tag-rule-card--drop-before')) {
+    clearRuleDropMarkers();
+    card.classList.add(after ? 'tag-rule-card--drop-after' : 'tag-rule-card--drop-before');
+  }
+});
+
+tagRulesList.addEventListener('drop', async (e: DragEvent) => {
+  const card = (e.target as HTMLElement).closest('.tag-rule-card') as HTMLElement | null;
+  const ruleId = draggedRuleId;
+  if (!card || !ruleId) return;
+  e.preventDefault();
+
+  draggedRuleId = null;
+  clearRuleDropMarkers();
+  const targetId = card.dataset.ruleId!;
+  if (targetId === ruleId) return;
+
+  let beforeId: string | null = targetId;
+  if (isRuleDropAfter(card, e)) {
+    const next = card.nextElementSibling as HTMLElement | null;
+    beforeId = next?.dataset.ruleId ?? null;
+  }
+  if (beforeId === ruleId) return;
+
+  await moveTagRule(ruleId, beforeId);
+  await renderTagRules();
+});
+
+tagRulesList.addEventListener('dragend', () => {
+  draggedRuleId = null;
+  clearRuleDropMarkers();
+  tagRulesList.querySelectorAll('.tag-rule-card--dragging').forEach(card => card.classList.remove('tag-rule-card--dragging'));
+});
+
+// Hit counters go up as images are saved from other pages
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'local' && changes.tagRuleHits) {
+    renderTagRules();
+  }
+});
+
 addRuleBtn.addEventListener('click', async () => {
   const name = ruleNameInput.value.trim();
   const pattern = rulePatternInput.value.trim();
@@ -5120,24 +5328,37 @@ addRuleBtn.addEventListener('click', async () => {
 
   const tags = tagsText ? tagsText.split(/\s+/).filter(t => t) : [];
 
-  if (tags.length === 0) {
-    alert('Please enter at least one tag');
+  const rating = (ruleRatingSelect.value || undefined) as TagRule['rating'];
+  const stopProcessing = ruleStopToggle.checked || undefined;
+
+  if (tags.length === 0 && !rating) {
+    alert('Please enter at least one tag or a rating');
+    return;
+  }
+
+  const conditions = readConditionRows();
+  if (typeof conditions === 'string') {
+    alert(conditions);
     return;
   }
 
   if (editingRuleId) {
-    await updateTagRule(editingRuleId, { name, pattern, isRegex, tags });
+    await updateTagRule(editingRuleId, { name, pattern, isRegex, tags, conditions, rating, stopProcessing });
     editingRuleId = null;
     addRuleBtn.textContent = 'Add Rule';
     cancelRuleBtn.style.display = 'none';
   } else {
-    await addTagRule({ name, pattern, isRegex, tags, enabled: true });
+    await addTagRule({ name, pattern, isRegex, tags, conditions, rating, stopProcessing, enabled: true });
   }
 
   ruleNameInput.value = '';
   rulePatternInput.value = '';
   ruleRegexToggle.checked = false;
   ruleTagsInput.value = '';
+  setConditionRows([]);
+  ruleRatingSelect.value = '';
+  ruleStopToggle.checked = false;
+  updateRulePreview();
 
   await renderTagRules();
 });
@@ -5148,10 +5369,111 @@ cancelRuleBtn.addEventListener('click', () => {
   rulePatternInput.value = '';
   ruleRegexToggle.checked = false;
   ruleTagsInput.value = '';
+  setConditionRows([]);
+  ruleRatingSelect.value = '';
+  ruleStopToggle.checked = false;
+  updateRulePreview();
   addRuleBtn.textContent = 'Add Rule';
   cancelRuleBtn.style.display = 'none';
 });
 
+// Condition rows of the rule form: field, operator, value
+function addConditionRow(condition: RuleCondition = { field: 'domain', operator: 'contains', value: '' }) {
+  const row = document.createElement('div');
+  row.className = 'rule-condition';
+  row.innerHTML = `
+    <select class="rule-condition__field">
+      ${(Object.keys(RULE_FIELD_LABELS) as RuleField[]).map(field =>
+        `<option value="${field}" ${field === condition.field ? 'selected' : ''}>${RULE_FIELD_LABELS[field]}</option>`
+      ).join('')}
+    </select>
+    <select class="rule-condition__operator"></select>
+    <input type="text" class="rule-condition__value" value="${escapeHtml(condition.value)}">
+    <button class="icon-button rule-condition__remove" type="button" title="Remove condition">×</button>
+  `;
+
+  const fieldSelect = row.querySelector('.rule-condition__field') as HTMLSelectElement;
+  const operatorSelect = row.querySelector('.rule-condition__operator') as HTMLSelectElement;
+  const valueInput = row.querySelector('.rule-condition__value') as HTMLInputElement;
+
+  const updateOperators = (selected?: RuleOperator) => {
+    const field = fieldSelect.value as RuleField;
+    const operators = getRuleOperators(field);
+    operatorSelect.innerHTML = operators.map(op => `<option value="${op}">${op}</option>`).join('');
+    operatorSelect.value = selected && operators.includes(selected) ? selected : operators[0];
+    valueInput.placeholder = field === 'ratio' ? 'e.g., 2 or 16:9'
+      : field === 'domain' ? 'e.g., pixiv.net'
+      : field === 'account' ? 'e.g., pixiv/12345'
+      : isNumericRuleField(field) ? 'e.g., 1920' : '';
+  };
+
+  fieldSelect.addEventListener('change', () => updateOperators(operatorSelect.value as RuleOperator));
+  row.querySelector('.rule-condition__remove')!.addEventListener('click', () => row.remove());
+  updateOperators(condition.operator);
+  ruleConditionsList.appendChild(row);
+}
+
+function setConditionRows(conditions: RuleCondition[]) {
+  ruleConditionsList.innerHTML = '';
+  conditions.forEach(condition => addConditionRow(condition));
+}
+
+// The form's conditions, or an error message; rows left empty are ignored
+function readConditionRows(): RuleCondition[] | string {
+  const conditions: RuleCondition[] = [];
+
+  for (const row of Array.from(ruleConditionsList.querySelectorAll('.rule-condition'))) {
+    const field = (row.querySelector('.rule-condition__field') as HTMLSelectElement).value as RuleField;
+    const operator = (row.querySelector('.rule-condition__operator') as HTMLSelectElement).value as RuleOperator;
+    const value = (row.querySelector('.rule-condition__value') as HTMLInputElement).value.trim();
+    if (!value) continue;
+
+    if (isNumericRuleField(field) && parseRuleNumber(field, value) === null) {
+      return `${RULE_FIELD_LABELS[field]} needs a number${field === 'ratio' ? ' or a ratio like 16:9' : ''}`;
+    }
+    if (operator === 'regex') {
+      try {
+        new RegExp(value);
+      } catch {
+        return `Invalid regex: ${value}`;
+      }
+    }
+    conditions.push({ field, operator, value });
+  }
+
+  return conditions;
+}
+
+document.getElementById('add-condition-btn')?.addEventListener('click', () => addConditionRow());
+
+// Tags the rule being edited would give an image with the sample title (conditions aren't checked)
+function updateRulePreview() {
+  const sample = ruleSampleInput.value;
+  if (!sample) {
+    rulePreview.innerHTML = '';
+    return;
+  }
+
+  const tagsText = ruleTagsInput.value.trim();
+  const rule: TagRule = {
+    id: 'preview',
+    name: '',
+    pattern: rulePatternInput.value.trim(),
+    isRegex: ruleRegexToggle.checked,
+    tags: tagsText ? tagsText.split(/\s+/) : [],
+    enabled: true,
+    rating: (ruleRatingSelect.value || undefined) as TagRule['rating'],
+  };
+  const tags = getRuleTags(sample, rule);
+
+  rulePreview.innerHTML = tags.length > 0
+    ? tags.map(tag => `<span class="tag-pill">${escapeHtml(tag)}</span>`).join('')
+    : `<span>${matchesRule(sample, rule) ? 'No tags' : 'Pattern does not match'}</span>`;
+}
+
+[rulePatternInput, ruleTagsInput, ruleSampleInput].forEach(input => input.addEventListener('input', updateRulePreview));
+[ruleRegexToggle, ruleRatingSelect].forEach(input => input.addEventListener('change', updateRulePreview));
+
 exportRulesBtn.addEventListener('click', async () => {
   const rules = await loadTagRules();
   const jsonString = exportRulesToJSON(rules);
@@ -5195,66 +5517,1332 @@ importRulesInput.addEventListener('change', async (e) => {
   importRulesInput.value = '';
 });
 
+// ===== Tag Aliases & Implications =====
+import {
+  loadTagAliasTable,
+  addTagRelation,
+  deleteTagRelation,
+  exportTagAliasesToJSON,
+  importTagAliasesFromJSON,
+  type TagRelationKind
+} from '../storage/tag-aliases';
+
+const tagAliasesList = document.getElementById('tag-aliases-list')!;
+const tagImplicationsList = document.getElementById('tag-implications-list')!;
+const relationKindSelect = document.getElementById('tag-relation-kind') as HTMLSelectElement;
+const relationAntecedentInput = document.getElementById('tag-relation-antecedent') as HTMLInputElement;
+const relationConsequentInput = document.getElementById('tag-relation-consequent') as HTMLInputElement;
+const importTagAliasesInput = document.getElementById('import-tag-aliases-input') as HTMLInputElement;
+const applyTagAliasesBtn = document.getElementById('apply-tag-aliases-btn') as HTMLButtonElement;
+
+async function reloadTagAliases() {
+  tagAliasTable = await loadTagAliasTable();
+  renderTagRelations(tagAliasesList, 'alias', tagAliasTable.aliases, 'No aliases yet.');
+  renderTagRelations(tagImplicationsList, 'implication', tagAliasTable.implications, 'No implications yet.');
+}
+
+function renderTagRelations(
+  list: HTMLElement,
+  kind: TagRelationKind,
+  relations: { id: string; antecedent: string; consequent: string }[],
+  emptyMessage: string
+) {
+  if (relations.length === 0) {
+    list.innerHTML = `<p class="no-rules-message">${emptyMessage}</p>`;
+    return;
+  }
+
+  const sorted = [...relations].sort((a, b) => a.antecedent.toLowerCase().localeCompare(b.antecedent.toLowerCase()));
+  list.innerHTML = sorted.map(relation => `
+    <div class="tag-relation" data-kind="${kind}" data-id="${escapeHtml(relation.id)}">
+      <span class="tag-pill">${escapeHtml(relation.antecedent)}</span>
+      <span class="tag-relation__arrow">${kind === 'alias' ? '→' : '⇒'}</span>
+      <span class="tag-pill">${escapeHtml(relation.consequent)}</span>
+      <button class="icon-button tag-relation__delete" title="Delete">×</button>
+    </div>
+  `).join('');
+}
+
+[tagAliasesList, tagImplicationsList].forEach(list => {
+  list.addEventListener('click', async (e) => {
+    const row = (e.target as HTMLElement).closest('.tag-relation__delete')?.closest('.tag-relation') as HTMLElement | null;
+    if (!row) return;
+
+    await deleteTagRelation(row.dataset.kind as TagRelationKind, row.dataset.id!);
+    await reloadTagAliases();
+  });
+});
+
+document.getElementById('add-tag-relation-btn')?.addEventListener('click', async () => {
+  try {
+    await addTagRelation(
+      relationKindSelect.value as TagRelationKind,
+      relationAntecedentInput.value,
+      relationConsequentInput.value
+    );
+  } catch (error) {
+    alert((error as Error).message);
+    return;
+  }
+
+  relationAntecedentInput.value = '';
+  relationConsequentInput.value = '';
+  await reloadTagAliases();
+});
+
+document.getElementById('export-tag-aliases-btn')?.addEventListener('click', async () => {
+  const jsonString = exportTagAliasesToJSON(await loadTagAliasTable());
+  const blob = new Blob([jsonString], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0] + '-' + Date.now();
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `tag-aliases-${timestamp}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+});
+
+document.getElementById('import-tag-aliases-btn')?.addEventListener('click', () => {
+  importTagAliasesInput.click();
+});
+
+importTagAliasesInput.addEventListener('change', async (e) => {
+  const file = (e.target as HTMLInputElement).files?.[0];
+  if (!file) return;
+
+  try {
+    const result = await importTagAliasesFromJSON(await file.text());
+    await reloadTagAliases();
+
+    const message = result.imported > 0
+      ? `Imported ${result.imported} entr${result.imported > 1 ? 'ies' : 'y'}${result.skipped > 0 ? `, skipped ${result.skipped} duplicate or conflicting` : ''}`
+      : `No new entries imported (${result.skipped} duplicate or conflicting skipped)`;
+
+    alert(message);
+  } catch (error) {
+    console.error('Import failed:', error);
+    alert('Failed to import aliases. Please check the file format.');
+  }
+
+  importTagAliasesInput.value = '';
+});
+
+applyTagAliasesBtn.addEventListener('click', async () => {
+  if (!confirm('Rewrite the tags of every image using the current aliases and implications?')) return;
+
+  applyTagAliasesBtn.disabled = true;
+  try {
+    const { applyTagAliasesToLibrary } = await import('../storage/service');
+    const updated = await applyTagAliasesToLibrary();
+    if (updated > 0) {
+      await loadImages();
+    }
+    showUndoToast(`Updated tags on ${updated} image${updated !== 1 ? 's' : ''}`);
+  } catch (error) {
+    console.error('Applying tag aliases failed:', error);
+    showToast('Failed to apply aliases', 'error');
+  } finally {
+    applyTagAliasesBtn.disabled = false;
+  }
+});
+
+// Tables edited in another viewer tab
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'local' && (changes.tagAliases || changes.tagImplications)) {
+    reloadTagAliases();
+  }
+});
+
+// Also escapes quotes, so the result is safe inside attribute values
 function escapeHtml(text: string): string {
   const div = document.createElement('div');
   div.textContent = text;
-  return div.innerHTML;
+  return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
 }
 
-// ===== Notes Panel =====
-const notesPanel = document.getElementById('notes-panel')!;
-const notesTextarea = document.getElementById('notes-textarea') as HTMLTextAreaElement;
-const notesToggle = document.getElementById('notes-toggle')!;
+// ===== Albums =====
+import {
+  getAlbums,
+  createAlbum,
+  updateAlbum,
+  deleteAlbum,
+  addImagesToAlbum,
+  removeImagesFromAlbum,
+  reorderAlbumImages,
+  mergeImportedAlbums,
+  albumSearchKey,
+  buildAlbumMembership,
+  getAlbumCoverId,
+  type AlbumMembership
+} from '../storage/albums';
 
-// Load notes from storage
-async function loadNotes(): Promise<{ content: string; collapsed: boolean }> {
-  const result = await chrome.storage.local.get(['notesContent', 'notesCollapsed']);
-  return {
-    content: result.notesContent ?? '',
-    collapsed: result.notesCollapsed ?? false, // Default: expanded
-  };
+let albums: Album[] = [];
+let albumMembership: AlbumMembership = new Map();
+
+// Cover thumbnails get their own object URLs, since grid renders revoke the shared ones
+const albumCoverUrls = new Map<string, string>();
+
+async function reloadAlbums() {
+  albums = await getAlbums();
+  albumMembership = buildAlbumMembership(albums);
+
+  // The open album was deleted (or replaced by an import)
+  if (state.currentAlbumId && !getCurrentAlbum()) {
+    switchView('all');
+  }
+  updateAlbumsSidebar();
 }
 
-// Save notes content
-async function saveNotesContent(content: string): Promise<void> {
-  await chrome.storage.local.set({ notesContent: content });
+function getCurrentAlbum(): Album | undefined {
+  return state.currentAlbumId ? albums.find(album => album.id === state.currentAlbumId) : undefined;
 }
 
-// Save collapsed state
-async function saveNotesCollapsed(collapsed: boolean): Promise<void> {
-  await chrome.storage.local.set({ notesCollapsed: collapsed });
+// Album members still in the library (not trashed or permanently deleted)
+function countAlbumImages(album: Album): number {
+  return album.imageIds.filter(id => {
+    const image = queryIndex.getRecord(id);
+    return image && !image.isDeleted;
+  }).length;
 }
 
-// Initialize notes panel
-loadNotes().then(({ content, collapsed }) => {
-  notesTextarea.value = content;
-  if (collapsed) {
-    notesPanel.classList.add('collapsed');
-    notesToggle.textContent = '+';
+function updateAlbumsSidebar() {
+  const list = document.getElementById('albums-list');
+  if (!list) return;
+
+  updateAlbumHeader();
+
+  if (albums.length === 0) {
+    list.innerHTML = '<p class="albums__empty">Select images and click "Add to Album"</p>';
+    return;
   }
-});
 
-// Auto-save on input with debouncing
-let notesDebounceTimer: number | undefined;
-notesTextarea.addEventListener('input', () => {
-  clearTimeout(notesDebounceTimer);
-  notesDebounceTimer = window.setTimeout(() => {
-    saveNotesContent(notesTextarea.value);
-  }, 500); // 500ms debounce
-});
+  const coverIds = new Set<string>();
+  list.innerHTML = albums.map(album => {
+    const coverId = getAlbumCoverId(album);
+    if (coverId) coverIds.add(coverId);
+    const isActive = album.id === state.currentAlbumId;
 
-// Toggle collapse/expand
-notesToggle.addEventListener('click', () => {
-  const isCollapsed = notesPanel.classList.toggle('collapsed');
-  notesToggle.textContent = isCollapsed ? '+' : '−';
-  saveNotesCollapsed(isCollapsed);
-});
+    return `
+      <div class="album-item ${isActive ? 'album-item--active' : ''}" data-album-id="${escapeHtml(album.id)}" title="album:${escapeHtml(albumSearchKey(album.name))}">
+        <img class="album-item__cover" data-action="open" ${coverId ? `data-cover-id="${escapeHtml(coverId)}"` : ''} src="${(coverId && albumCoverUrls.get(coverId)) || PLACEHOLDER_IMAGE}" alt="">
+        <span class="album-item__name" data-action="open">${escapeHtml(album.name)}</span>
+        <span class="album-item__count">${countAlbumImages(album)}</span>
+        <button class="album-item__btn" data-action="rename" title="Rename">✎</button>
+        <button class="album-item__btn" data-action="describe" title="Edit description">≡</button>
+        <button class="album-item__btn" data-action="delete" title="Delete album">×</button>
+      </div>
+    `;
+  }).join('');
 
-renderTagRules();
+  // Drop URLs of covers no longer shown
+  for (const [imageId, url] of Array.from(albumCoverUrls.entries())) {
+    if (!coverIds.has(imageId)) {
+      URL.revokeObjectURL(url);
+      albumCoverUrls.delete(imageId);
+    }
+  }
 
-// Initialize: restore view settings and search state, then load images
-(async () => {
-  await restoreViewSettings();
-  await restoreSearchState();
-  await loadImages();
+  list.querySelectorAll<HTMLImageElement>('.album-item__cover[data-cover-id]').forEach(img => {
+    const coverId = img.dataset.coverId!;
+    if (!albumCoverUrls.has(coverId)) {
+      loadAlbumCover(img, coverId);
+    }
+  });
+}
+
+async function loadAlbumCover(img: HTMLImageElement, imageId: string) {
+  let blob = await getThumbnailBlob(imageId, STRIP_THUMBNAIL_SIZE);
+  if (!blob) {
+    await loadImageBlob(imageId);
+    blob = state.loadedBlobs.get(imageId);
+  }
+  if (!blob) return;
+
+  let url = albumCoverUrls.get(imageId);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    albumCoverUrls.set(imageId, url);
+  }
+  img.src = url;
+}
+
+// Name and badge of the album toggle button, and the description under the album list
+function updateAlbumHeader() {
+  const album = getCurrentAlbum();
+  const description = document.getElementById('album-description');
+
+  if (album) {
+    document.getElementById('album-view-name')!.textContent = album.name;
+    document.getElementById('album-badge')!.textContent = countAlbumImages(album).toString();
+  }
+  if (description) {
+    description.textContent = album?.description ?? '';
+    description.style.display = album?.description ? '' : 'none';
+  }
+}
+
+function findAlbumByName(name: string): Album | undefined {
+  const lower = name.toLowerCase();
+  return albums.find(album => album.name.toLowerCase() === lower);
+}
+
+document.getElementById('albums-list')?.addEventListener('click', async (e) => {
+  const target = (e.target as HTMLElement).closest('[data-action]');
+  const id = target?.closest('.album-item')?.getAttribute('data-album-id');
+  const album = id ? albums.find(a => a.id === id) : undefined;
+  if (!target || !album) return;
+
+  switch (target.getAttribute('data-action')) {
+    case 'open':
+      switchView('all', album.id);
+      return;
+    case 'rename': {
+      const name = prompt('Rename album:', album.name)?.trim();
+      if (!name || name === album.name) return;
+      await updateAlbum(album.id, { name });
+      break;
+    }
+    case 'describe': {
+      const description = prompt('Album description:', album.description ?? '');
+      if (description === null) return;
+      await updateAlbum(album.id, { description: description.trim() || undefined });
+      break;
+    }
+    case 'delete':
+      if (!confirm(`Delete album "${album.name}"? The images stay in your library.`)) return;
+      await deleteAlbum(album.id);
+      break;
+  }
+
+  await reloadAlbums();
+  applyFilters();
+});
+
+document.getElementById('create-album-btn')?.addEventListener('click', async () => {
+  const name = prompt('New album name:')?.trim();
+  if (!name) return;
+
+  await createAlbum(name);
+  await reloadAlbums();
+});
+
+albumViewBtn.addEventListener('click', () => {
+  if (state.currentAlbumId) switchView('all', state.currentAlbumId);
+});
+
+albumSelectedBtn.addEventListener('click', async () => {
+  const count = state.selectedIds.size;
+  if (count === 0) return;
+
+  const existing = albums.length > 0 ? `\n\nAlbums: ${albums.map(album => album.name).join(', ')}` : '';
+  const name = prompt(
+    `Add ${count} image${count !== 1 ? 's' : ''} to album (an existing name, or a new one to create it):${existing}`,
+    getCurrentAlbum()?.name ?? ''
+  )?.trim();
+  if (!name) return;
+
+  const album = findAlbumByName(name) ?? await createAlbum(name);
+  // Selection order follows the grid, so the album gets them in the order shown
+  const selected = state.filteredImages.filter(image => state.selectedIds.has(image.id)).map(image => image.id);
+  await addImagesToAlbum(album.id, selected);
+  await reloadAlbums();
+  applyFilters();
+  showToast(`Added ${count} image${count !== 1 ? 's' : ''} to "${album.name}"`);
+});
+
+removeFromAlbumBtn.addEventListener('click', async () => {
+  const album = getCurrentAlbum();
+  if (!album || state.selectedIds.size === 0) return;
+
+  await removeImagesFromAlbum(album.id, Array.from(state.selectedIds));
+  state.selectedIds.clear();
+  await reloadAlbums();
+  await applyFilters();
+});
+
+setAlbumCoverBtn.addEventListener('click', async () => {
+  const album = getCurrentAlbum();
+  if (!album) return;
+  if (state.selectedIds.size !== 1) {
+    showToast('Select one image to use as the cover', 'error');
+    return;
+  }
+
+  await updateAlbum(album.id, { coverImageId: Array.from(state.selectedIds)[0] });
+  await reloadAlbums();
+});
+
+// Drag-to-reorder inside an open album. Dragging a selected card moves the whole selection.
+let draggedAlbumIds: string[] = [];
+
+function clearDropMarkers() {
+  document.querySelectorAll('.image-card--drop-before, .image-card--drop-after').forEach(card => {
+    card.classList.remove('image-card--drop-before', 'image-card--drop-after');
+  });
+}
+
+// Cards are laid out left to right, so the horizontal half decides the side
+function isDropAfter(card: HTMLElement, e: DragEvent): boolean {
+  const rect = card.getBoundingClientRect();
+  return e.clientX > rect.left + rect.width / 2;
+}
+
+imageGrid.addEventListener('dragstart', (e: DragEvent) => {
+  const card = (e.target as HTMLElement).closest('.image-card') as HTMLElement | null;
+  const album = getCurrentAlbum();
+  if (!card || !album || !card.hasAttribute('draggable')) return;
+
+  const id = card.dataset.id!;
+  draggedAlbumIds = state.selectedIds.has(id)
+    ? album.imageIds.filter(imageId => state.selectedIds.has(imageId))
+    : [id];
+  e.dataTransfer!.effectAllowed = 'move';
+  e.dataTransfer!.setData('text/plain', id);
+  card.classList.add('image-card--dragging');
+});
+
+imageGrid.addEventListener('dragover', (e: DragEvent) => {
+  const card = (e.target as HTMLElement).closest('.image-card') as HTMLElement | null;
+  if (!card || draggedAlbumIds.length === 0) return;
+
+  e.preventDefault();
+  e.dataTransfer!.dropEffect = 'move';
+  const after = isDropAfter(card, e);
+  if (!card.classList.contains(after ? 'image-card--drop-after' : 'image-card--drop-before')) {
+    clearDropMarkers();
+    card.classList.add(after ? 'image-card--drop-after' : 'image-card--drop-before');
+  }
+});
+
+imageGrid.addEventListener('drop', async (e: DragEvent) => {
+  const card = (e.target as HTMLElement).closest('.image-card') as HTMLElement | null;
+  const album = getCurrentAlbum();
+  if (!card || !album || draggedAlbumIds.length === 0) return;
+  e.preventDefault();
+
+  const movedIds = draggedAlbumIds;
+  const moved = new Set(movedIds);
+  const targetId = card.dataset.id!;
+  const after = isDropAfter(card, e);
+  draggedAlbumIds = [];
+  clearDropMarkers();
+  if (moved.has(targetId)) return;
+
+  let beforeId: string | null = targetId;
+  if (after) {
+    // Before whatever follows the target in the full album (some may be filtered out)
+    const rest = album.imageIds.filter(id => !moved.has(id));
+    beforeId = rest[rest.indexOf(targetId) + 1] ?? null;
+  }
+
+  await reorderAlbumImages(album.id, movedIds, beforeId);
+  await reloadAlbums();
+  await applyFilters();
+});
+
+imageGrid.addEventListener('dragend', () => {
+  draggedAlbumIds = [];
+  clearDropMarkers();
+  document.querySelectorAll('.image-card--dragging').forEach(card => card.classList.remove('image-card--dragging'));
+});
+
+// ===== Saved Searches =====
+import {
+  loadSavedSearches,
+  addSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  moveSavedSearch,
+  orderSavedSearches,
+  exportSavedSearchesToJSON,
+  buildSearchFragment,
+  parseSearchFragment,
+  findSavedSearch,
+  type SavedSearch
+} from '../storage/saved-searches';
+
+// Cached so counts can refresh synchronously with every filter pass
+let savedSearches: SavedSearch[] = [];
+
+async function reloadSavedSearches() {
+  savedSearches = await loadSavedSearches();
+  updateSavedSearchesSidebar();
+}
+
+function getCurrentQueries(): { urlQuery: string; tagQuery: string } {
+  return {
+    urlQuery: (document.getElementById('url-search-input') as HTMLInputElement)?.value.trim() || '',
+    tagQuery: (document.getElementById('tag-search-input') as HTMLInputElement)?.value.trim() || '',
+  };
+}
+
+function updateSavedSearchesSidebar() {
+  const list = document.getElementById('saved-searches-list');
+  if (!list) return;
+
+  if (savedSearches.length === 0) {
+    list.innerHTML = '<p class="saved-searches__empty">Save the current search with +</p>';
+    return;
+  }
+
+  const current = getCurrentQueries();
+  queryIndex.sync(state.images);
+
+  list.innerHTML = orderSavedSearches(savedSearches).map(search => {
+    // Live count over the library (not the trash), independent of the current search
+    const { total } = queryIndex.query(parseTagSearch(search.tagQuery), {
+      view: 'all',
+      urlQuery: search.urlQuery || undefined,
+      albums: albumMembership,
+      tagCategories,
+    });
+    const isActive = search.urlQuery === current.urlQuery && search.tagQuery === current.tagQuery;
+    const title = [search.tagQuery, search.urlQuery && `URL: ${search.urlQuery}`].filter(Boolean).join('\n');
+
+    return `
+      <div class="saved-search-item ${isActive ? 'saved-search-item--active' : ''}" data-search-id="${escapeHtml(search.id)}">
+        <button class="saved-search-item__btn ${search.pinned ? 'saved-search-item__btn--pinned' : ''}" data-action="pin" title="${search.pinned ? 'Unpin' : 'Pin to top'}">${search.pinned ? '★' : '☆'}</button>
+        <span class="saved-search-item__name" data-action="open" title="${escapeHtml(title)}">${escapeHtml(search.name)}</span>
+        <span class="saved-search-item__count">${total}</span>
+        <button class="saved-search-item__btn" data-action="up" title="Move up">↑</button>
+        <button class="saved-search-item__btn" data-action="down" title="Move down">↓</button>
+        <button class="saved-search-item__btn" data-action="link" title="Copy link">🔗</button>
+        <button class="saved-search-item__btn" data-action="rename" title="Rename">✎</button>
+        <button class="saved-search-item__btn" data-action="delete" title="Delete">×</button>
+      </div>
+    `;
+  }).join('');
+}
+
+async function openSavedSearch(search: SavedSearch) {
+  const urlSearchInput = document.getElementById('url-search-input') as HTMLInputElement;
+  const tagSearchInput = document.getElementById('tag-search-input') as HTMLInputElement;
+  if (urlSearchInput) urlSearchInput.value = search.urlQuery;
+  if (tagSearchInput) tagSearchInput.value = search.tagQuery;
+
+  history.replaceState(null, '', buildSearchFragment(search));
+  await applyFiltersAndSave();
+}
+
+// Opens the saved search named in a #search= fragment, if any
+async function openSearchFromFragment(): Promise<boolean> {
+  const reference = parseSearchFragment(location.hash);
+  if (!reference) return false;
+
+  const search = findSavedSearch(savedSearches, reference);
+  if (!search) {
+    showToast(`No saved search "${reference}"`, 'error');
+    return false;
+  }
+
+  await openSavedSearch(search);
+  return true;
+}
+
+document.getElementById('saved-searches-list')?.addEventListener('click', async (e) => {
+  const target = (e.target as HTMLElement).closest('[data-action]');
+  const item = target?.closest('.saved-search-item');
+  const id = item?.getAttribute('data-search-id');
+  const search = id ? savedSearches.find(s => s.id === id) : undefined;
+  if (!target || !search) return;
+
+  switch (target.getAttribute('data-action')) {
+    case 'open':
+      await openSavedSearch(search);
+      return;
+    case 'pin':
+      await updateSavedSearch(search.id, { pinned: !search.pinned });
+      break;
+    case 'up':
+    case 'down':
+      await moveSavedSearch(search.id, target.getAttribute('data-action') === 'up' ? -1 : 1);
+      break;
+    case 'link': {
+      const url = `${location.origin}${location.pathname}${buildSearchFragment(search)}`;
+      await navigator.clipboard.writeText(url);
+      showToast('Link copied');
+      return;
+    }
+    case 'rename': {
+      const name = prompt('Rename saved search:', search.name)?.trim();
+      if (!name || name === search.name) return;
+      await updateSavedSearch(search.id, { name });
+      break;
+    }
+    case 'delete':
+      if (!confirm(`Delete saved search "${search.name}"?`)) return;
+      await deleteSavedSearch(search.id);
+      break;
+  }
+
+  await reloadSavedSearches();
+});
+
+document.getElementById('save-search-btn')?.addEventListener('click', async () => {
+  const queries = getCurrentQueries();
+  if (!queries.urlQuery && !queries.tagQuery) {
+    showToast('Type a search first', 'error');
+    return;
+  }
+
+  const name = prompt('Name this search:', queries.tagQuery || queries.urlQuery)?.trim();
+  if (!name) return;
+
+  const search = await addSavedSearch({ name, ...queries });
+  history.replaceState(null, '', buildSearchFragment(search));
+  await reloadSavedSearches();
+});
+
+document.getElementById('export-saved-searches-btn')?.addEventListener('click', async () => {
+  const searches = await loadSavedSearches();
+  const jsonString = exportSavedSearchesToJSON(searches);
+  const blob = new Blob([jsonString], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0] + '-' + Date.now();
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `saved-searches-${timestamp}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+});
+
+window.addEventListener('hashchange', () => {
+  openSearchFromFragment();
+});
+
+// ===== Apply Rules to Library =====
+import type { AutoTagChange } from '../storage/service';
+
+const applyRulesModal = document.getElementById('apply-rules-modal')!;
+const applyRulesTitle = document.getElementById('apply-rules-title')!;
+const applyRulesScope = document.getElementById('apply-rules-scope') as HTMLSelectElement;
+const applyRulesSummary = document.getElementById('apply-rules-summary')!;
+const applyRulesDiff = document.getElementById('apply-rules-diff')!;
+const applyRulesProgress = document.getElementById('apply-rules-progress')!;
+const applyRulesProgressFill = document.getElementById('apply-rules-progress-fill')!;
+const applyRulesConfirmBtn = document.getElementById('apply-rules-confirm') as HTMLButtonElement;
+
+// The dry run can cover the whole library; rows past this are only counted
+const MAX_AUTO_TAG_ROWS = 200;
+
+let applyingRules: TagRule[] = [];
+let autoTagChanges: AutoTagChange[] = [];
+let autoTagPreviewToken = 0;
+let isApplyingRules = false;
+
+function openApplyRules(rules: TagRule[], title: string) {
+  applyingRules = rules;
+  applyRulesTitle.textContent = title;
+
+  const filteredOption = applyRulesScope.querySelector('option[value="filtered"]') as HTMLOptionElement;
+  const selectedOption = applyRulesScope.querySelector('option[value="selected"]') as HTMLOptionElement;
+  filteredOption.textContent = `Filtered images (${state.filteredImages.length})`;
+  selectedOption.textContent = `Selected images (${state.selectedIds.size})`;
+  selectedOption.disabled = state.selectedIds.size === 0;
+  if (selectedOption.disabled && applyRulesScope.value === 'selected') {
+    applyRulesScope.value = 'all';
+  }
+
+  applyRulesProgress.classList.remove('active');
+  applyRulesModal.classList.add('active');
+  updateAutoTagPreview();
+}
+
+function closeApplyRules() {
+  if (isApplyingRules) return;
+  applyRulesModal.classList.remove('active');
+  autoTagChanges = [];
+}
+
+// Undefined means the whole library (without the trash)
+function getApplyRulesImageIds(): string[] | undefined {
+  switch (applyRulesScope.value) {
+    case 'filtered': return state.filteredImages.map(image => image.id);
+    case 'selected': return Array.from(state.selectedIds);
+    default: return undefined;
+  }
+}
+
+async function updateAutoTagPreview() {
+  const token = ++autoTagPreviewToken;
+  applyRulesConfirmBtn.disabled = true;
+  applyRulesSummary.textContent = 'Checking images...';
+  applyRulesDiff.innerHTML = '';
+
+  const { previewAutoTags } = await import('../storage/service');
+  const changes = await previewAutoTags(applyingRules, getApplyRulesImageIds());
+  // The scope changed while this ran
+  if (token !== autoTagPreviewToken) return;
+
+  autoTagChanges = changes;
+  renderAutoTagPreview();
+}
+
+function renderAutoTagPreview() {
+  const count = autoTagChanges.length;
+  applyRulesSummary.textContent = count > 0
+    ? `${count} image${count !== 1 ? 's' : ''} would gain tags:`
+    : 'No images would change.';
+  applyRulesConfirmBtn.disabled = count === 0;
+
+  applyRulesDiff.innerHTML = autoTagChanges.slice(0, MAX_AUTO_TAG_ROWS).map(change => {
+    const image = queryIndex.getRecord(change.imageId);
+    const title = image?.pageTitle || image?.imageUrl || change.imageId;
+
+    return `
+      <div class="apply-rules-item">
+        <div class="apply-rules-item__title" title="${escapeHtml(title)}">${escapeHtml(title)}</div>
+        <div class="apply-rules-item__tags">
+          ${change.addedTags.map(tag => `<span class="tag-pill apply-rules-item__tag">+${escapeHtml(tag)}</span>`).join('')}
+          ${change.rating ? `<span class="tag-pill apply-rules-item__tag">rating:${change.rating}</span>` : ''}
+        </div>
+      </div>
+    `;
+  }).join('') + (count > MAX_AUTO_TAG_ROWS ? `<p class="apply-rules-empty">...and ${count - MAX_AUTO_TAG_ROWS} more</p>` : '');
+}
+
+applyRulesConfirmBtn.addEventListener('click', async () => {
+  if (autoTagChanges.length === 0) return;
+
+  isApplyingRules = true;
+  applyRulesConfirmBtn.disabled = true;
+  applyRulesScope.disabled = true;
+  applyRulesProgressFill.style.width = '0%';
+  applyRulesProgress.classList.add('active');
+
+  try {
+    const { applyAutoTags } = await import('../storage/service');
+    const updated = await applyAutoTags(autoTagChanges, (current, total) => {
+      applyRulesProgressFill.style.width = `${Math.round((current / total) * 100)}%`;
+      applyRulesSummary.textContent = `Tagging images... ${current} / ${total}`;
+    });
+
+    isApplyingRules = false;
+    closeApplyRules();
+    await loadImages();
+    showUndoToast(`Auto-tagged ${updated} image${updated !== 1 ? 's' : ''}`);
+  } catch (error) {
+    console.error('Applying rules failed:', error);
+    showToast('Failed to apply rules', 'error');
+    applyRulesConfirmBtn.disabled = false;
+  } finally {
+    isApplyingRules = false;
+    applyRulesScope.disabled = false;
+  }
+});
+
+document.getElementById('apply-rules-btn')?.addEventListener('click', async () => {
+  const rules = (await loadTagRules()).filter(rule => rule.enabled);
+  if (rules.length === 0) {
+    alert('There are no enabled rules to apply.');
+    return;
+  }
+  openApplyRules(rules, 'Apply Rules to Library');
+});
+
+applyRulesScope.addEventListener('change', updateAutoTagPreview);
+document.getElementById('apply-rules-cancel')?.addEventListener('click', closeApplyRules);
+document.querySelector('.apply-rules-overlay')?.addEventListener('click', closeApplyRules);
+document.querySelector('.apply-rules-close')?.addEventListener('click', closeApplyRules);
+
+// ===== Tag Manager =====
+const tagManagerModal = document.getElementById('tag-manager-modal')!;
+const tagManagerList = document.getElementById('tag-manager-list')!;
+const tagManagerFilter = document.getElementById('tag-manager-filter') as HTMLInputElement;
+
+function openTagManager() {
+  tagManagerFilter.value = '';
+  renderTagManager();
+  tagManagerModal.classList.add('active');
+  tagManagerFilter.focus();
+}
+
+function closeTagManager() {
+  tagManagerModal.classList.remove('active');
+}
+
+// Counts cover the whole library, trash included, since that's what the operations change
+function renderTagManager() {
+  const filter = tagManagerFilter.value.trim().toLowerCase();
+  const tags = countTags(state.images).filter(([tag]) => tag.toLowerCase().includes(filter));
+
+  if (tags.length === 0) {
+    tagManagerList.innerHTML = `<p class="tag-manager-empty">${filter ? 'No matching tags' : 'No tags yet'}</p>`;
+    return;
+  }
+
+  tagManagerList.innerHTML = tags.map(([tag, count]) => `
+    <div class="tag-manager-item" data-tag="${escapeHtml(tag)}">
+      <span class="tag-manager-item__name${tagCategoryModifier('tag-manager-item__name', tag)}">${escapeHtml(tag)}</span>
+      <span class="tag-manager-item__count">${count}</span>
+      <button class="icon-button" data-action="rename" title="Rename">✎</button>
+      <button class="icon-button" data-action="merge" title="Merge into another tag">⇥</button>
+      <button class="icon-button" data-action="delete" title="Delete from every image">×</button>
+    </div>
+  `).join('');
+}
+
+async function runTagOperation(operation: () => Promise<number>, describe: (count: number) => string) {
+  try {
+    const updated = await operation();
+    await loadImages();
+    renderTagManager();
+    showUndoToast(describe(updated));
+  } catch (error) {
+    console.error('Tag operation failed:', error);
+    showToast((error as Error).message, 'error');
+  }
+}
+
+tagManagerList.addEventListener('click', async (e) => {
+  const target = (e.target as HTMLElement).closest('[data-action]');
+  const tag = target?.closest('.tag-manager-item')?.getAttribute('data-tag');
+  if (!target || !tag) return;
+
+  const { renameTagInLibrary, mergeTagInLibrary, deleteTagFromLibrary } = await import('../storage/service');
+  const existingTags = new Set(countTags(state.images).map(([name]) => name));
+  const images = (count: number) => `${count} image${count !== 1 ? 's' : ''}`;
+
+  switch (target.getAttribute('data-action')) {
+    case 'rename': {
+      const name = prompt(`Rename "${tag}" to:`, tag)?.trim();
+      if (!name || name === tag) return;
+
+      if (existingTags.has(name)) {
+        if (!confirm(`"${name}" already exists. Merge "${tag}" into it?`)) return;
+        await runTagOperation(() => mergeTagInLibrary(tag, name), count => `Merged "${tag}" into "${name}" on ${images(count)}`);
+      } else {
+        await runTagOperation(() => renameTagInLibrary(tag, name), count => `Renamed "${tag}" to "${name}" on ${images(count)}`);
+      }
+      break;
+    }
+    case 'merge': {
+      const into = prompt(`Merge "${tag}" into which tag?`)?.trim();
+      if (!into || into === tag) return;
+
+      if (!existingTags.has(into)) {
+        alert(`There is no tag "${into}". Use rename to give "${tag}" a new name.`);
+        return;
+      }
+      await runTagOperation(() => mergeTagInLibrary(tag, into), count => `Merged "${tag}" into "${into}" on ${images(count)}`);
+      break;
+    }
+    case 'delete':
+      if (!confirm(`Remove "${tag}" from every image? This cannot be undone.`)) return;
+      await runTagOperation(() => deleteTagFromLibrary(tag), count => `Removed "${tag}" from ${images(count)}`);
+      break;
+  }
+});
+
+tagManagerFilter.addEventListener('input', renderTagManager);
+document.getElementById('manage-tags-btn')?.addEventListener('click', openTagManager);
+document.querySelector('.tag-manager-overlay')?.addEventListener('click', closeTagManager);
+document.querySelector('.tag-manager-close')?.addEventListener('click', closeTagManager);
+
+// ===== Storage Statistics =====
+import { computeStorageStats, getStorageEstimate, requestPersistentStorage, UNRATED, type SizeGroup } from '../storage/storage-stats';
+
+const storageStatsModal = document.getElementById('storage-stats-modal')!;
+const storageStatsBreakdown = document.getElementById('storage-stats-breakdown')!;
+const storageStatsUsage = document.getElementById('storage-stats-usage')!;
+const storageStatsUsageFill = document.getElementById('storage-stats-usage-fill') as HTMLElement;
+const storageStatsPersistStatus = document.getElementById('storage-stats-persist-status')!;
+const storageStatsPersistBtn = document.getElementById('storage-stats-persist-btn') as HTMLButtonElement;
+
+const RATING_LABELS: Record<string, string> = {
+  g: 'General',
+  s: 'Sensitive',
+  q: 'Questionable',
+  e: 'Explicit',
+  [UNRATED]: 'Unrated',
+};
+
+async function openStorageStats() {
+  storageStatsModal.classList.add('active');
+  storageStatsBreakdown.innerHTML = '<p class="storage-stats-empty">Loading...</p>';
+  try {
+    await renderStorageStats();
+  } catch (error) {
+    console.error('Failed to load storage statistics:', error);
+    storageStatsBreakdown.innerHTML = '<p class="storage-stats-empty">Failed to load storage statistics</p>';
+  }
+}
+
+function closeStorageStats() {
+  storageStatsModal.classList.remove('active');
+}
+
+function renderSizeGroups(title: string, groups: SizeGroup[], total: number, label: (key: string) => string = key => key): string {
+  const rows = groups.map(group => `
+    <div class="storage-stats-row">
+      <div class="storage-stats-row__name" title="${escapeHtml(label(group.key))}">
+        ${escapeHtml(label(group.key))}
+        <div class="storage-stats-row__bar" style="width: ${total > 0 ? (group.bytes / total) * 100 : 0}%"></div>
+      </div>
+      <span class="storage-stats-row__count">${group.count}</span>
+      <span class="storage-stats-row__size">${formatFileSize(group.bytes)}</span>
+    </div>
+  `).join('');
+
+  return `
+    <div class="storage-stats-section">
+      <h4 class="storage-stats-section__title">${title}</h4>
+      ${rows}
+    </div>
+  `;
+}
+
+// Sizes come from every stored image, trash included, since it all takes space
+async function renderStorageStats() {
+  const { getAllImagesMetadata, getOriginalsUsage } = await import('../storage/service');
+  const [images, estimate, originals] = await Promise.all([getAllImagesMetadata(), getStorageEstimate(), getOriginalsUsage()]);
+  const stats = computeStorageStats(images);
+
+  if (estimate && estimate.quota > 0) {
+    const percent = (estimate.usage / estimate.quota) * 100;
+    storageStatsUsage.textContent = `Using ${formatFileSize(estimate.usage)} of ${formatFileSize(estimate.quota)} (${percent.toFixed(1)}%)`;
+    storageStatsUsageFill.style.width = `${Math.min(100, percent)}%`;
+  } else {
+    storageStatsUsage.textContent = 'The browser does not report storage usage';
+    storageStatsUsageFill.style.width = '0%';
+  }
+
+  const persisted = estimate?.persisted ?? false;
+  storageStatsPersistStatus.textContent = persisted
+    ? 'Storage is persistent: the browser will not evict the library when space runs low'
+    : 'Storage is not persistent: the browser may evict the library when space runs low';
+  storageStatsPersistBtn.style.display = persisted ? 'none' : '';
+
+  if (stats.count === 0) {
+    storageStatsBreakdown.innerHTML = '<p class="storage-stats-empty">No images yet</p>';
+    return;
+  }
+
+  const largest = stats.largest.map(image => `
+    <div class="storage-stats-row">
+      <span class="storage-stats-row__name" title="${escapeHtml(image.pageUrl)}">${escapeHtml(image.pageTitle || image.imageUrl)}</span>
+      <span class="storage-stats-row__count">${image.width}×${image.height}</span>
+      <span class="storage-stats-row__size">${formatFileSize(image.fileSize)}</span>
+    </div>
+  `).join('');
+
+  storageStatsBreakdown.innerHTML = `
+    <p class="storage-stats-summary">
+      ${stats.count} image${stats.count !== 1 ? 's' : ''} · ${formatFileSize(stats.bytes)}
+      (trash: ${stats.trash.count} image${stats.trash.count !== 1 ? 's' : ''} · ${formatFileSize(stats.trash.bytes)})
+    </p>
+    ${originals.count > 0 ? `
+    <p class="storage-stats-summary">
+      Originals kept from recompression: ${originals.count} · ${formatFileSize(originals.bytes)}
+    </p>
+    ` : ''}
+    ${renderSizeGroups('By type', stats.byMimeType, stats.bytes)}
+    ${renderSizeGroups('By site', stats.byDomain, stats.bytes)}
+    ${renderSizeGroups('By rating', stats.byRating, stats.bytes, key => RATING_LABELS[key] ?? key)}
+    ${renderSizeGroups('By month saved', stats.byMonth, stats.bytes)}
+    <div class="storage-stats-section">
+      <h4 class="storage-stats-section__title">Largest images</h4>
+      ${largest}
+    </div>
+  `;
+}
+
+storageStatsPersistBtn.addEventListener('click', async () => {
+  storageStatsPersistBtn.disabled = true;
+  try {
+    const granted = await requestPersistentStorage();
+    showToast(granted ? 'Storage is now persistent' : 'The browser declined persistent storage', granted ? 'success' : 'error');
+    await renderStorageStats();
+  } catch (error) {
+    console.error('Failed to request persistent storage:', error);
+    showToast('Failed to request persistent storage', 'error');
+  } finally {
+    storageStatsPersistBtn.disabled = false;
+  }
+});
+
+document.getElementById('storage-stats-btn')?.addEventListener('click', openStorageStats);
+document.querySelector('.storage-stats-overlay')?.addEventListener('click', closeStorageStats);
+document.querySelector('.storage-stats-close')?.addEventListener('click', closeStorageStats);
+
+// ===== Recompress =====
+import { RECOMPRESS_FORMATS, summarizeRecompression } from '../storage/recompress';
+import type { RecompressResult } from '../storage/service';
+import type { RecompressFormat } from '../types';
+
+const recompressModal = document.getElementById('recompress-modal')!;
+const recompressScope = document.getElementById('recompress-scope') as HTMLSelectElement;
+const recompressFormat = document.getElementById('recompress-format') as HTMLSelectElement;
+const recompressQuality = document.getElementById('recompress-quality') as HTMLInputElement;
+const recompressQualityValue = document.getElementById('recompress-quality-value')!;
+const recompressMaxDimension = document.getElementById('recompress-max-dimension') as HTMLSelectElement;
+const recompressKeepOriginals = document.getElementById('recompress-keep-originals') as HTMLInputElement;
+const recompressSummary = document.getElementById('recompress-summary')!;
+const recompressList = document.getElementById('recompress-list')!;
+const recompressProgress = document.getElementById('recompress-progress')!;
+const recompressProgressFill = document.getElementById('recompress-progress-fill')!;
+const recompressPreviewBtn = document.getElementById('recompress-preview') as HTMLButtonElement;
+const recompressConfirmBtn = document.getElementById('recompress-confirm') as HTMLButtonElement;
+
+// Encoding can take seconds per image; rows past this are only counted
+const MAX_RECOMPRESS_ROWS = 200;
+
+let recompressResults: RecompressResult[] = [];
+let isRecompressing = false;
+
+recompressFormat.innerHTML = RECOMPRESS_FORMATS
+  .map(({ format, label }) => `<option value="${format}">${label}</option>`)
+  .join('');
+
+function openRecompress() {
+  const filteredOption = recompressScope.querySelector('option[value="filtered"]') as HTMLOptionElement;
+  const selectedOption = recompressScope.querySelector('option[value="selected"]') as HTMLOptionElement;
+  filteredOption.textContent = `Filtered images (${state.filteredImages.length})`;
+  selectedOption.textContent = `Selected images (${state.selectedIds.size})`;
+  selectedOption.disabled = state.selectedIds.size === 0;
+  recompressScope.value = state.selectedIds.size > 0 ? 'selected' : 'filtered';
+
+  resetRecompressPreview();
+  recompressModal.classList.add('active');
+}
+
+function closeRecompress() {
+  if (isRecompressing) return;
+  recompressModal.classList.remove('active');
+  recompressResults = [];
+}
+
+// Any option change makes the previewed files stale
+function resetRecompressPreview() {
+  recompressResults = [];
+  recompressProgress.classList.remove('active');
+  recompressSummary.textContent = 'Preview to see how much space recompressing would save.';
+  recompressList.innerHTML = '';
+  recompressConfirmBtn.disabled = true;
+}
+
+function setRecompressControlsDisabled(disabled: boolean) {
+  [recompressScope, recompressFormat, recompressQuality, recompressMaxDimension, recompressKeepOriginals, recompressPreviewBtn]
+    .forEach(control => { control.disabled = disabled; });
+}
+
+function updateRecompressProgress(label: string, current: number, total: number) {
+  recompressProgressFill.style.width = `${Math.round((current / total) * 100)}%`;
+  recompressSummary.textContent = `${label}... ${current} / ${total}`;
+}
+
+function renderRecompressPreview(checked: number) {
+  const { count, originalBytes, newBytes, savedBytes } = summarizeRecompression(recompressResults);
+  recompressSummary.textContent = count > 0
+    ? `${count} of ${checked} image${checked !== 1 ? 's' : ''} would shrink from ${formatFileSize(originalBytes)} to ${formatFileSize(newBytes)}, saving ${formatFileSize(savedBytes)}.`
+    : 'No images would get smaller.';
+  recompressConfirmBtn.disabled = count === 0;
+
+  recompressList.innerHTML = recompressResults.slice(0, MAX_RECOMPRESS_ROWS).map(result => {
+    const image = queryIndex.getRecord(result.imageId);
+    const title = image?.pageTitle || image?.imageUrl || result.imageId;
+
+    return `
+      <div class="recompress-item">
+        <span class="recompress-item__title" title="${escapeHtml(title)}">${escapeHtml(title)}</span>
+        <span class="recompress-item__sizes">
+          ${formatFileSize(result.originalSize)} → ${formatFileSize(result.fileSize)}
+          (−${Math.round((1 - result.fileSize / result.originalSize) * 100)}%)
+        </span>
+      </div>
+    `;
+  }).join('') + (count > MAX_RECOMPRESS_ROWS ? `<p class="recompress-empty">...and ${count - MAX_RECOMPRESS_ROWS} more</p>` : '');
+}
+
+// Cached blobs and object URLs still point at the old file
+function forgetImageFile(imageId: string) {
+  revokeObjectURL(imageId);
+  state.loadedBlobs.delete(imageId);
+}
+
+recompressPreviewBtn.addEventListener('click', async () => {
+  const imageIds = recompressScope.value === 'selected'
+    ? Array.from(state.selectedIds)
+    : state.filteredImages.map(image => image.id);
+  if (imageIds.length === 0) return;
+
+  isRecompressing = true;
+  resetRecompressPreview();
+  setRecompressControlsDisabled(true);
+  recompressProgressFill.style.width = '0%';
+  recompressProgress.classList.add('active');
+
+  try {
+    const { previewRecompression } = await import('../storage/service');
+    recompressResults = await previewRecompression(imageIds, {
+      format: recompressFormat.value as RecompressFormat,
+      quality: Number(recompressQuality.value) / 100,
+      maxDimension: recompressMaxDimension.value ? Number(recompressMaxDimension.value) : undefined,
+    }, (current, total) => updateRecompressProgress('Encoding images', current, total));
+    renderRecompressPreview(imageIds.length);
+  } catch (error) {
+    console.error('Recompression preview failed:', error);
+    recompressSummary.textContent = (error as Error).message;
+  } finally {
+    isRecompressing = false;
+    recompressProgress.classList.remove('active');
+    setRecompressControlsDisabled(false);
+  }
+});
+
+recompressConfirmBtn.addEventListener('click', async () => {
+  if (recompressResults.length === 0) return;
+
+  const keepOriginals = recompressKeepOriginals.checked;
+  if (!keepOriginals && !confirm('Originals will not be kept, so these images can\'t be restored. Continue?')) return;
+
+  isRecompressing = true;
+  recompressConfirmBtn.disabled = true;
+  setRecompressControlsDisabled(true);
+  recompressProgressFill.style.width = '0%';
+  recompressProgress.classList.add('active');
+
+  try {
+    const { applyRecompression } = await import('../storage/service');
+    const { savedBytes } = summarizeRecompression(recompressResults);
+    const replaced = await applyRecompression(recompressResults, keepOriginals, (current, total) => {
+      updateRecompressProgress('Replacing images', current, total);
+    });
+
+    recompressResults.forEach(result => forgetImageFile(result.imageId));
+    isRecompressing = false;
+    closeRecompress();
+    await loadImages();
+    showToast(`Recompressed ${replaced} image${replaced !== 1 ? 's' : ''}, saving ${formatFileSize(savedBytes)}`);
+  } catch (error) {
+    console.error('Recompression failed:', error);
+    showToast('Failed to recompress images', 'error');
+    recompressConfirmBtn.disabled = false;
+  } finally {
+    isRecompressing = false;
+    recompressProgress.classList.remove('active');
+    setRecompressControlsDisabled(false);
+  }
+});
+
+// Fills the lightbox row about a kept original, if the image has one
+async function renderKeptOriginal(imageId: string) {
+  const row = document.getElementById(`lightbox-original-row-${imageId}`);
+  const { getOriginalImage } = await import('../storage/service');
+  const original = await getOriginalImage(imageId);
+  if (!row || !original) return;
+
+  row.innerHTML = `
+    <span class="metadata-label">Original:</span>
+    <span class="metadata-value">
+      ${escapeHtml(original.mimeType)} · ${formatFileSize(original.fileSize)} · ${original.width} × ${original.height}
+      <button class="button button--sm button--secondary lightbox-restore-original-btn">Restore</button>
+    </span>
+  `;
+  row.style.display = '';
+
+  row.querySelector('.lightbox-restore-original-btn')?.addEventListener('click', async () => {
+    if (!confirm('Put the original file back in place of the recompressed one?')) return;
+
+    try {
+      const { restoreOriginalImage } = await import('../storage/service');
+      await restoreOriginalImage(imageId);
+      forgetImageFile(imageId);
+      await loadImages();
+
+      const restored = state.images.find(image => image.id === imageId);
+      if (restored) {
+        updateLightboxMetadata(restored);
+      }
+      showToast('Restored the original image');
+    } catch (error) {
+      console.error('Failed to restore original:', error);
+      showToast('Failed to restore the original image', 'error');
+    }
+  });
+}
+
+async function updateOriginalsStatus() {
+  const { getOriginalsUsage } = await import('../storage/service');
+  const { count, bytes } = await getOriginalsUsage();
+  const button = document.getElementById('discard-originals-btn') as HTMLButtonElement;
+  button.disabled = count === 0;
+  document.getElementById('discard-originals-status')!.textContent = count > 0
+    ? `${count} original${count !== 1 ? 's' : ''} of recompressed images kept for restoring (${formatFileSize(bytes)})`
+    : '';
+}
+
+document.getElementById('discard-originals-btn')!.addEventListener('click', async () => {
+  if (!confirm('Delete the kept originals of every recompressed image? They can\'t be restored afterwards.')) return;
+
+  try {
+    const { discardOriginalImages } = await import('../storage/service');
+    await discardOriginalImages();
+    await updateOriginalsStatus();
+    showToast('Discarded kept originals');
+  } catch (error) {
+    console.error('Failed to discard originals:', error);
+    showToast('Failed to discard originals', 'error');
+  }
+});
+
+recompressQuality.addEventListener('input', () => {
+  recompressQualityValue.textContent = recompressQuality.value;
+  resetRecompressPreview();
+});
+[recompressScope, recompressFormat, recompressMaxDimension].forEach(control => {
+  control.addEventListener('change', resetRecompressPreview);
+});
+document.getElementById('recompress-btn')?.addEventListener('click', openRecompress);
+document.getElementById('recompress-cancel')?.addEventListener('click', closeRecompress);
+document.querySelector('.recompress-overlay')?.addEventListener('click', closeRecompress);
+document.querySelector('.recompress-close')?.addEventListener('click', closeRecompress);
+
+// ===== History (undo/redo) =====
+import { operationHistory, undoOperation, redoOperation } from '../storage/service';
+import type { HistoryEntry } from '../storage/history';
+
+const historyList = document.getElementById('history-list')!;
+const undoBtn = document.getElementById('undo-btn') as HTMLButtonElement;
+const redoBtn = document.getElementById('redo-btn') as HTMLButtonElement;
+
+// Toast for an operation that was just recorded, offering to undo it
+function showUndoToast(message: string) {
+  showToast(message, 'success', { label: 'Undo', onClick: undoLastEdit });
+}
+
+async function undoLastEdit() {
+  await replayHistory(undoOperation, 'Undid', 'Nothing to undo');
+}
+
+async function redoLastEdit() {
+  await replayHistory(redoOperation, 'Redid', 'Nothing to redo');
+}
+
+async function replayHistory(replay: () => Promise<HistoryEntry | undefined>, verb: string, emptyMessage: string) {
+  const entry = await replay();
+  if (!entry) {
+    showToast(emptyMessage, 'error');
+    return;
+  }
+
+  await loadImages();
+  updatePreviewPane();
+  const lightboxImage = getVisualOrder()[state.currentLightboxIndex];
+  if (state.lightboxActive && lightboxImage) {
+    updateLightboxMetadata(lightboxImage);
+  }
+  if (entry.changes.some(change => 'isDeleted' in change.after)) {
+    chrome.runtime.sendMessage({ type: 'UPDATE_BADGE' }).catch(() => {});
+  }
+  showToast(`${verb}: ${entry.label}`);
+}
+
+function formatHistoryTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function renderHistoryEntry(entry: HistoryEntry, undone: boolean): string {
+  const count = new Set(entry.changes.map(change => change.imageId)).size;
+  return `
+    <div class="history-item${undone ? ' history-item--undone' : ''}" title="${formatHistoryTime(entry.timestamp)}">
+      <span class="history-item__label">${escapeHtml(entry.label)}</span>
+      <span class="history-item__count">${count}</span>
+    </div>
+  `;
+}
+
+// Newest first: undone operations (struck through) above the ones that can still be undone
+function updateHistoryPanel() {
+  const undoEntries = operationHistory.undoEntries;
+  const redoEntries = operationHistory.redoEntries;
+
+  undoBtn.disabled = undoEntries.length === 0;
+  redoBtn.disabled = redoEntries.length === 0;
+  undoBtn.title = undoEntries[0] ? `Undo ${undoEntries[0].label} (Ctrl+Z)` : 'Undo (Ctrl+Z)';
+  redoBtn.title = redoEntries[0] ? `Redo ${redoEntries[0].label} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)';
+
+  if (undoEntries.length === 0 && redoEntries.length === 0) {
+    historyList.innerHTML = '<p class="history__empty">Tag, rating and trash edits show up here</p>';
+    return;
+  }
+
+  historyList.innerHTML = [
+    ...[...redoEntries].reverse().map(entry => renderHistoryEntry(entry, true)),
+    ...undoEntries.map(entry => renderHistoryEntry(entry, false)),
+  ].join('');
+}
+
+undoBtn.addEventListener('click', undoLastEdit);
+redoBtn.addEventListener('click', redoLastEdit);
+operationHistory.subscribe(updateHistoryPanel);
+updateHistoryPanel();
+
+// ===== Notes Panel =====
+const notesPanel = document.getElementById('notes-panel')!;
+const notesTextarea = document.getElementById('notes-textarea') as HTMLTextAreaElement;
+const notesToggle = document.getElementById('notes-toggle')!;
+
+// Load notes from storage
+async function loadNotes(): Promise<{ content: string; collapsed: boolean }> {
+  const result = await chrome.storage.local.get(['notesContent', 'notesCollapsed']);
+  return {
+    content: result.notesContent ?? '',
+    collapsed: result.notesCollapsed ?? false, // Default: expanded
+  };
+}
+
+// Save notes content
+async function saveNotesContent(content: string): Promise<void> {
+  await chrome.storage.local.set({ notesContent: content });
+}
+
+// Save collapsed state
+async function saveNotesCollapsed(collapsed: boolean): Promise<void> {
+  await chrome.storage.local.set({ notesCollapsed: collapsed });
+}
+
+// Initialize notes panel
+loadNotes().then(({ content, collapsed }) => {
+  notesTextarea.value = content;
+  if (collapsed) {
+    notesPanel.classList.add('collapsed');
+    notesToggle.textContent = '+';
+  }
+});
+
+// Auto-save on input with debouncing
+let notesDebounceTimer: number | undefined;
+notesTextarea.addEventListener('input', () => {
+  clearTimeout(notesDebounceTimer);
+  notesDebounceTimer = window.setTimeout(() => {
+    saveNotesContent(notesTextarea.value);
+  }, 500); // 500ms debounce
+});
+
+// Toggle collapse/expand
+notesToggle.addEventListener('click', () => {
+  const isCollapsed = notesPanel.classList.toggle('collapsed');
+  notesToggle.textContent = isCollapsed ? '+' : '−';
+  saveNotesCollapsed(isCollapsed);
+});
+
+renderTagRules();
+reloadTagAliases();
+
+// Initialize: restore view settings and search state, then load images
+(async () => {
+  await restoreViewSettings();
+  await restoreSearchState();
+  tagCategories = await loadTagCategories();
+  await reloadAlbums();
+  await loadImages();
+  await reloadSavedSearches();
+  await openSearchFromFragment();
+  if (state.groupBy === 'similar') {
+    // Runs in the background and reports its own failures
+    ensurePerceptualHashes().catch(() => {});
+  }
 })();
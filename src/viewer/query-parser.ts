@@ -0,0 +1,526 @@
+// Tokenizer and recursive-descent parser for the tag search syntax.
+//
+// Grammar (implicit AND binds loosest, so `a b or c` is `a (b or c)`):
+//   query   := and
+//   and     := or*                          terms separated by spaces
+//   or      := unary ('or' unary)*
+//   unary   := '-' unary | '~' unary | primary
+//   primary := '(' and ')' | "quoted tag" | metatag | tag
+//
+// `~a ~b c` is Danbooru's OR shorthand: every ~term in the same AND list
+// forms one OR group. `*` in an unquoted tag is a wildcard.
+//
+// Parsing never throws. Mistakes are recorded as syntax errors and skipped,
+// so a half-typed query still filters by what's readable so far.
+
+import type { NumericFilter, TagCountFilter } from './tag-utils';
+
+export type QueryNode =
+  | { type: 'tag'; tag: string; wildcard: boolean }
+  | { type: 'rating'; ratings: string[] }
+  | { type: 'unrated' }
+  | { type: 'fileType'; mimeTypes: string[] }
+  | { type: 'tagCount'; filter: TagCountFilter }
+  // Matches when any filter matches (a list of date periods needs several ranges)
+  | { type: 'numeric'; field: NumericField; filters: NumericFilter[] }
+  | { type: 'account' | 'artist' | 'site'; values: string[] }
+  // Album search keys (lowercase, underscores for spaces)
+  | { type: 'album'; values: string[] }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'and' | 'or'; operands: QueryNode[] };
+
+// `age` and `updatedAge` are milliseconds before now, computed when evaluated
+export type NumericField =
+  'savedAt' | 'updatedAt' | 'age' | 'updatedAge' | 'width' | 'height' | 'mpixels' | 'fileSize' | 'ratio';
+
+export interface QuerySyntaxError {
+  message: string;
+  // Character offset in the query where the problem starts
+  position: number;
+}
+
+export interface ParsedQuery {
+  // null for an empty query (or one with nothing readable)
+  root: QueryNode | null;
+  errors: QuerySyntaxError[];
+}
+
+type TokenType = 'lparen' | 'rparen' | 'or' | 'not' | 'tilde' | 'term';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  quoted: boolean;
+  position: number;
+}
+
+const FILE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+};
+
+const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+
+function countChar(text: string, char: string): number {
+  return text.split(char).length - 1;
+}
+
+/**
+ * Splits a query into tokens. `(` only opens a group at the start of a word
+ * and `)` only closes one at the end of a word when the word's own
+ * parentheses are unbalanced, so tags like `saber_(fate)` stay intact.
+ */
+export function tokenizeQuery(query: string, errors: QuerySyntaxError[] = []): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (isSpace(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ type: 'lparen', text: '(', quoted: false, position: i });
+      i++;
+    } else if (char === '-' || char === '~') {
+      if (i + 1 >= query.length || isSpace(query[i + 1])) {
+        errors.push({ message: `Expected a tag after '${char}'`, position: i });
+      } else {
+        tokens.push({ type: char === '-' ? 'not' : 'tilde', text: char, quoted: false, position: i });
+      }
+      i++;
+    } else if (char === '"') {
+      const start = i;
+      let text = '';
+      i++;
+      while (i < query.length && query[i] !== '"') {
+        if (query[i] === '\\' && i + 1 < query.length) i++;
+        text += query[i];
+        i++;
+      }
+      if (i >= query.length) {
+        errors.push({ message: 'Missing closing quote', position: start });
+      }
+      i++;
+      if (text) {
+        tokens.push({ type: 'term', text, quoted: true, position: start });
+      } else {
+        errors.push({ message: 'Empty quoted tag', position: start });
+      }
+    } else {
+      const start = i;
+      while (i < query.length && !isSpace(query[i])) i++;
+      let word = query.slice(start, i);
+
+      let closing = 0;
+      while (word.endsWith(')') && countChar(word, '(') < countChar(word, ')')) {
+        word = word.slice(0, -1);
+        closing++;
+      }
+
+      if (word.toLowerCase() === 'or') {
+        tokens.push({ type: 'or', text: word, quoted: false, position: start });
+      } else if (word) {
+        tokens.push({ type: 'term', text: word, quoted: false, position: start });
+      }
+      for (let c = 0; c < closing; c++) {
+        tokens.push({ type: 'rparen', text: ')', quoted: false, position: i - closing + c });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// Inclusive interval a single value stands for: a point for plain numbers,
+// a whole period for dates (2024-01 is all of January)
+type Interval = [number, number];
+
+interface NumericSpec {
+  parse(value: string): Interval | null;
+  // Widens exact matches, so filesize:2MB finds files that display as 2MB
+  fuzz?(interval: Interval): Interval;
+}
+
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?$/;
+
+function parsePoint(value: string): Interval | null {
+  if (!NUMBER_PATTERN.test(value)) return null;
+  const number = parseFloat(value);
+  return [number, number];
+}
+
+function parseInteger(value: string): Interval | null {
+  return /^\d+$/.test(value) ? parsePoint(value) : null;
+}
+
+const FILE_SIZE_UNITS: Record<string, number> = {
+  '': 1, b: 1, k: 1024, kb: 1024, m: 1024 ** 2, mb: 1024 ** 2, g: 1024 ** 3, gb: 1024 ** 3,
+};
+
+function parseFileSize(value: string): Interval | null {
+  const match = /^(\d+(?:\.\d+)?)([a-z]*)$/i.exec(value);
+  const unit = match ? FILE_SIZE_UNITS[match[2].toLowerCase()] : undefined;
+  if (!match || unit === undefined) return null;
+  const bytes = Math.round(parseFloat(match[1]) * unit);
+  return [bytes, bytes];
+}
+
+// 16:9 or 1.78, rounded to two decimals like Danbooru
+function parseRatio(value: string): Interval | null {
+  const match = /^(\d+(?:\.\d+)?)(?::(\d+(?:\.\d+)?))?$/.exec(value);
+  if (!match) return null;
+  const denominator = match[2] !== undefined ? parseFloat(match[2]) : 1;
+  if (denominator === 0) return null;
+  const ratio = Math.round((parseFloat(match[1]) / denominator) * 100) / 100;
+  return [ratio, ratio];
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  mi: 60 * 1000,
+  min: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  mo: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000,
+};
+
+// 7d, 2w, 6mo, 1y
+function parseDuration(value: string): Interval | null {
+  const match = /^(\d+(?:\.\d+)?)(s|mi|min|h|d|w|mo|y)$/i.exec(value);
+  if (!match) return null;
+  const ms = parseFloat(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+  return [ms, ms];
+}
+
+// 2024, 2024-03 or 2024-03-15 in local time, as the whole year/month/day
+function parseDate(value: string): Interval | null {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) return null;
+
+  const year = parseInt(match[1], 10);
+  const month = match[2] !== undefined ? parseInt(match[2], 10) - 1 : undefined;
+  const day = match[3] !== undefined ? parseInt(match[3], 10) : undefined;
+  if (month !== undefined && (month < 0 || month > 11)) return null;
+
+  const start = new Date(year, month ?? 0, day ?? 1);
+  if (day !== undefined && start.getDate() !== day) return null;
+
+  const end = day !== undefined ? new Date(year, month!, day + 1)
+    : month !== undefined ? new Date(year, month + 1, 1)
+    : new Date(year + 1, 0, 1);
+  return [start.getTime(), end.getTime() - 1];
+}
+
+const withTolerance = (fraction: number) => ([low, high]: Interval): Interval =>
+  [low * (1 - fraction), high * (1 + fraction)];
+
+const withMargin = (margin: number) => ([low, high]: Interval): Interval =>
+  [low - margin, high + margin];
+
+const NUMERIC_SPECS: Record<string, NumericSpec> = {
+  tagcount: { parse: parseInteger },
+  width: { parse: parseInteger },
+  height: { parse: parseInteger },
+  mpixels: { parse: parsePoint, fuzz: withMargin(0.05) },
+  filesize: { parse: parseFileSize, fuzz: withTolerance(0.05) },
+  ratio: { parse: parseRatio, fuzz: withMargin(0.005) },
+  date: { parse: parseDate },
+  age: { parse: parseDuration },
+};
+
+/**
+ * Parses a numeric metatag value into filters (any may match): `2`, `1,3`,
+ * `>5`, `<=3`, `1..10`, `..10`, `5..`. Comparisons use the edge of the
+ * value's interval, so `date:>2024-01` means after January.
+ */
+function parseNumericFilters(value: string, spec: NumericSpec): NumericFilter[] | null {
+  const exact = (interval: Interval): NumericFilter => {
+    const [low, high] = spec.fuzz ? spec.fuzz(interval) : interval;
+    return low === high ? { operator: '=', value: low } : { operator: 'range', min: low, max: high };
+  };
+
+  if (value.includes(',')) {
+    const intervals = value.split(',').map(item => spec.parse(item));
+    if (intervals.some(interval => !interval)) return null;
+    const filters = (intervals as Interval[]).map(exact);
+    return filters.every(filter => filter.operator === '=')
+      ? [{ operator: 'list', values: filters.map(filter => filter.value!) }]
+      : filters;
+  }
+
+  const range = value.split('..');
+  if (range.length === 2) {
+    const from = range[0] ? spec.parse(range[0]) : undefined;
+    const to = range[1] ? spec.parse(range[1]) : undefined;
+    if (from === null || to === null || (!from && !to)) return null;
+    if (!from) return [{ operator: '<=', value: to![1] }];
+    if (!to) return [{ operator: '>=', value: from[0] }];
+    return [{ operator: 'range', min: Math.min(from[0], to[0]), max: Math.max(from[1], to[1]) }];
+  }
+
+  const match = /^(>=|<=|>|<)?(.+)$/.exec(value);
+  if (!match) return null;
+  const interval = spec.parse(match[2]);
+  if (!interval) return null;
+
+  switch (match[1]) {
+    case '>': return [{ operator: '>', value: interval[1] }];
+    case '>=': return [{ operator: '>=', value: interval[0] }];
+    case '<': return [{ operator: '<', value: interval[0] }];
+    case '<=': return [{ operator: '<=', value: interval[1] }];
+    default: return [exact(interval)];
+  }
+}
+
+/**
+ * Parses a tagcount: value: `2`, `1,3`, `>5`, `<=3`, `1..10`.
+ */
+export function parseTagCountValue(value: string): TagCountFilter | null {
+  const filters = parseNumericFilters(value, NUMERIC_SPECS.tagcount);
+  return filters && filters.length === 1 ? filters[0] : null;
+}
+
+// date:/updated: take absolute dates or, like age:, durations before now
+function parseDateMetatag(value: string, field: 'savedAt' | 'updatedAt', ageField: 'age' | 'updatedAge'): QueryNode | null {
+  const asDate = parseNumericFilters(value, NUMERIC_SPECS.date);
+  if (asDate) return { type: 'numeric', field, filters: asDate };
+  const asAge = parseNumericFilters(value, NUMERIC_SPECS.age);
+  return asAge ? { type: 'numeric', field: ageField, filters: asAge } : null;
+}
+
+function parseNumericMetatag(field: NumericField, value: string, spec: NumericSpec): QueryNode | null {
+  const filters = parseNumericFilters(value, spec);
+  return filters ? { type: 'numeric', field, filters } : null;
+}
+
+// Reads a metatag term, or returns undefined if the term isn't one.
+// Returns null for a known metatag with an unusable value.
+function parseMetatag(name: string, value: string): QueryNode | null | undefined {
+  const lower = value.toLowerCase();
+
+  switch (name) {
+    case 'rating': {
+      const ratings = lower.split(',').map(r => {
+        if (/^[gsqe]$/.test(r)) return r;
+        if (['general', 'sensitive', 'questionable', 'explicit'].includes(r)) return r.charAt(0);
+        return null;
+      });
+      return ratings.length > 0 && ratings.every(r => r !== null)
+        ? { type: 'rating', ratings: ratings as string[] }
+        : null;
+    }
+    case 'is': {
+      if (lower === 'unrated') return { type: 'unrated' };
+      const types = lower.split(',');
+      return types.every(type => FILE_TYPES[type])
+        ? { type: 'fileType', mimeTypes: types.map(type => FILE_TYPES[type]) }
+        : null;
+    }
+    case 'tagcount': {
+      const filter = parseTagCountValue(value);
+      return filter ? { type: 'tagCount', filter } : null;
+    }
+    case 'date':
+    case 'saved':
+      return parseDateMetatag(value, 'savedAt', 'age');
+    case 'updated':
+      return parseDateMetatag(value, 'updatedAt', 'updatedAge');
+    case 'age':
+      return parseNumericMetatag('age', value, NUMERIC_SPECS.age);
+    case 'width':
+    case 'height':
+    case 'mpixels':
+    case 'ratio':
+      return parseNumericMetatag(name, value, NUMERIC_SPECS[name]);
+    case 'filesize':
+      return parseNumericMetatag('fileSize', value, NUMERIC_SPECS.filesize);
+    case 'account':
+    case 'artist':
+    case 'site':
+    case 'album': {
+      const values = lower.split(',').map(v => v.trim()).filter(v => v);
+      return values.length > 0 ? { type: name, values } : null;
+    }
+    default:
+      return undefined;
+  }
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private errors: QuerySyntaxError[]) {}
+
+  parse(): QueryNode | null {
+    return this.parseAnd(false);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private error(message: string, token: Token | undefined): void {
+    this.errors.push({ message, position: token ? token.position : Number.MAX_SAFE_INTEGER });
+  }
+
+  // A space-separated list, ending at EOF or (inside a group) at ')'
+  private parseAnd(inGroup: boolean): QueryNode | null {
+    const operands: QueryNode[] = [];
+    const tildeGroup: QueryNode[] = [];
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.type === 'rparen') {
+        if (inGroup) break;
+        this.error("Unmatched ')'", token);
+        this.index++;
+        continue;
+      }
+      if (token.type === 'or') {
+        this.error("'or' needs a tag on both sides", token);
+        this.index++;
+        continue;
+      }
+
+      const tilde = token.type === 'tilde';
+      if (tilde) this.index++;
+
+      const node = this.parseOr();
+      if (!node) continue;
+      (tilde ? tildeGroup : operands).push(node);
+    }
+
+    if (tildeGroup.length === 1) {
+      operands.push(tildeGroup[0]);
+    } else if (tildeGroup.length > 1) {
+      operands.push({ type: 'or', operands: tildeGroup });
+    }
+
+    if (operands.length === 0) return null;
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  private parseOr(): QueryNode | null {
+    const operands: QueryNode[] = [];
+    const first = this.parseUnary();
+    if (first) operands.push(first);
+
+    while (this.peek()?.type === 'or') {
+      const orToken = this.peek()!;
+      this.index++;
+
+      const next = this.peek();
+      if (!next || next.type === 'rparen' || next.type === 'or') {
+        this.error("'or' needs a tag on both sides", orToken);
+        continue;
+      }
+      const node = this.parseUnary();
+      if (node) operands.push(node);
+    }
+
+    if (operands.length === 0) return null;
+    // Nested ORs flatten, so `a or (b or c)` is one group
+    const flat = operands.reduce<QueryNode[]>(
+      (all, node) => all.concat(node.type === 'or' ? node.operands : [node]),
+      []
+    );
+    return flat.length === 1 ? flat[0] : { type: 'or', operands: flat };
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.peek();
+    if (!token) return null;
+
+    if (token.type === 'not') {
+      this.index++;
+      const next = this.peek();
+      if (!next || next.type === 'rparen' || next.type === 'or') {
+        this.error("Expected a tag after '-'", token);
+        return null;
+      }
+      const operand = this.parseUnary();
+      if (!operand) return null;
+      // Double negation cancels out
+      return operand.type === 'not' ? operand.operand : { type: 'not', operand };
+    }
+
+    if (token.type === 'tilde') {
+      // `~` only groups at the top of an AND list; elsewhere it's a no-op
+      this.index++;
+      return this.parseUnary();
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode | null {
+    const token = this.peek()!;
+
+    if (token.type === 'lparen') {
+      this.index++;
+      const inner = this.parseAnd(true);
+      if (this.peek()?.type === 'rparen') {
+        this.index++;
+      } else {
+        this.error("Missing ')'", token);
+      }
+      if (!inner) this.error('Empty parentheses', token);
+      return inner;
+    }
+
+    if (token.type !== 'term') {
+      // ')' or 'or' right after '~'; left for the caller to consume
+      this.error(`Expected a tag before '${token.text}'`, token);
+      return null;
+    }
+
+    this.index++;
+    if (token.quoted) {
+      return { type: 'tag', tag: token.text, wildcard: false };
+    }
+
+    const colon = token.text.indexOf(':');
+    if (colon > 0) {
+      const name = token.text.slice(0, colon).toLowerCase();
+      const node = parseMetatag(name, token.text.slice(colon + 1));
+      if (node === null) {
+        this.error(`Invalid ${name}: value '${token.text.slice(colon + 1)}'`, token);
+        return null;
+      }
+      if (node) return node;
+    }
+
+    return { type: 'tag', tag: token.text, wildcard: token.text.includes('*') };
+  }
+}
+
+/**
+ * Parses a tag search into an AST, collecting syntax errors instead of
+ * throwing. Errors are sorted by position.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const errors: QuerySyntaxError[] = [];
+  const tokens = tokenizeQuery(query, errors);
+  const root = new Parser(tokens, errors).parse();
+
+  errors.sort((a, b) => a.position - b.position);
+  errors.forEach(error => {
+    error.position = Math.min(error.position, query.length);
+  });
+
+  return { root, errors };
+}
+
+/**
+ * Turns a wildcard tag into a regex; `*` matches any run of characters.
+ */
+export function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
@@ -0,0 +1,136 @@
+import type { ImageMetadata } from '../types';
+import { splitHash, popCount32 } from '../storage/image-hash';
+
+type SimilarityCandidate = Pick<ImageMetadata, 'id' | 'width' | 'height' | 'fileSize' | 'savedAt' | 'perceptualHash'>;
+
+/**
+ * Orders images by how good a copy they are: larger resolution first,
+ * then larger file size, then the earliest saved.
+ */
+export function compareImageQuality(a: SimilarityCandidate, b: SimilarityCandidate): number {
+  const pixelDiff = b.width * b.height - a.width * a.height;
+  if (pixelDiff !== 0) return pixelDiff;
+  const sizeDiff = b.fileSize - a.fileSize;
+  if (sizeDiff !== 0) return sizeDiff;
+  return a.savedAt - b.savedAt;
+}
+
+/**
+ * Returns the copy to keep when collapsing a group of similar images.
+ */
+export function pickBestImage<T extends SimilarityCandidate>(images: T[]): T | undefined {
+  return [...images].sort(compareImageQuality)[0];
+}
+
+// Hashes are bucketed by each of their four 16-bit chunks
+const CHUNK_BITS = 16;
+const CHUNK_COUNT = 4;
+
+/**
+ * XOR masks of every chunk value within `radius` bits of a given one.
+ */
+function chunkMasks(radius: number): number[] {
+  const masks: number[] = [];
+  const flip = (mask: number, fromBit: number, remaining: number) => {
+    masks.push(mask);
+    if (remaining === 0) return;
+    for (let bit = fromBit; bit < CHUNK_BITS; bit++) {
+      flip(mask | (1 << bit), bit + 1, remaining - 1);
+    }
+  };
+  flip(0, 0, radius);
+  return masks;
+}
+
+/**
+ * Groups images whose perceptual hashes are within `threshold` bits of each
+ * other. Similarity is transitive: if A~B and B~C, all three share a group.
+ * Only groups with 2+ images are returned, each sorted best copy first,
+ * largest groups first. Images without a perceptual hash are ignored.
+ *
+ * Two hashes within `threshold` bits differ by at most threshold / 4 bits in
+ * one of their four 16-bit chunks, so only images sharing a bucket for some
+ * chunk value that close are compared. At thresholds where enumerating those
+ * values costs more than comparing every pair, every pair is compared.
+ */
+export function groupSimilarImages<T extends SimilarityCandidate>(images: T[], threshold: number): T[][] {
+  const hashed = images.filter(img => img.perceptualHash);
+  const count = hashed.length;
+  const high = new Uint32Array(count);
+  const low = new Uint32Array(count);
+  hashed.forEach((img, i) => {
+    [high[i], low[i]] = splitHash(img.perceptualHash!);
+  });
+
+  // Union-find over image indexes
+  const parent = new Int32Array(count);
+  for (let i = 0; i < count; i++) parent[i] = i;
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const link = (i: number, j: number) => {
+    const distance = popCount32((high[i] ^ high[j]) >>> 0) + popCount32((low[i] ^ low[j]) >>> 0);
+    if (distance <= threshold) {
+      const rootI = find(i);
+      const rootJ = find(j);
+      if (rootI !== rootJ) parent[rootJ] = rootI;
+    }
+  };
+
+  const masks = chunkMasks(Math.min(Math.floor(threshold / CHUNK_COUNT), CHUNK_BITS));
+  if (masks.length * CHUNK_COUNT >= count) {
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        link(i, j);
+      }
+    }
+  } else {
+    const chunkOf = (i: number, chunk: number): number => {
+      const half = chunk < 2 ? high[i] : low[i];
+      return chunk % 2 === 0 ? half >>> CHUNK_BITS : half & 0xffff;
+    };
+
+    // Image indexes by chunk value, one map per chunk
+    const buckets = Array.from({ length: CHUNK_COUNT }, () => new Map<number, number[]>());
+    for (let i = 0; i < count; i++) {
+      buckets.forEach((bucket, chunk) => {
+        const value = chunkOf(i, chunk);
+        if (!bucket.has(value)) {
+          bucket.set(value, []);
+        }
+        bucket.get(value)!.push(i);
+      });
+    }
+
+    // A pair can turn up under several chunks; comparing it again is harmless
+    for (let i = 0; i < count; i++) {
+      buckets.forEach((bucket, chunk) => {
+        const value = chunkOf(i, chunk);
+        for (const mask of masks) {
+          for (const j of bucket.get(value ^ mask) ?? []) {
+            if (j > i) link(i, j);
+          }
+        }
+      });
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  for (let i = 0; i < count; i++) {
+    const root = find(i);
+    if (!groups.has(root)) {
+      groups.set(root, []);
+    }
+    groups.get(root)!.push(hashed[i]);
+  }
+
+  return Array.from(groups.values())
+    .filter(group => group.length >= 2)
+    .map(group => group.sort(compareImageQuality))
+    .sort((a, b) => b.length - a.length || compareImageQuality(a[0], b[0]));
+}
@@ -1,3 +1,5 @@
+import { parseQuery, type QueryNode, type QuerySyntaxError } from './query-parser';
+
 /**
  * Sorts tags alphabetically (case-insensitive).
  */
@@ -5,9 +7,29 @@ export function sortTags(tags: string[]): string[] {
   return [...tags].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
 }
 
-// Parse tagcount metatag from search query
+/**
+ * Replaces a tag in an image's tags, or removes it when `to` is null.
+ * Returns the tags sorted and without duplicates (a merge target may already be present).
+ */
+export function replaceTag(tags: string[], from: string, to: string | null): string[] {
+  const replaced = tags.flatMap(tag => tag !== from ? [tag] : to !== null ? [to] : []);
+  return sortTags(Array.from(new Set(replaced)));
+}
+
+/**
+ * Counts how many images carry each tag. Sorted by count (descending), then name.
+ */
+export function countTags(images: { tags?: string[] }[]): [string, number][] {
+  const counts = new Map<string, number>();
+  images.forEach(image => {
+    image.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+// Comparison used by every numeric metatag (tagcount:, width:, filesize:, date:, ...)
 // Supports: tagcount:2 (exact), tagcount:1,3 (list), tagcount:>5 (gt), tagcount:<3 (lt), tagcount:1..10 (range)
-export interface TagCountFilter {
+export interface NumericFilter {
   operator: '=' | '>' | '<' | '>=' | '<=' | 'range' | 'list';
   value?: number;
   values?: number[];
@@ -15,8 +37,12 @@ export interface TagCountFilter {
   max?: number;
 }
 
+export type TagCountFilter = NumericFilter;
+
 // Parse Danbooru-style tag search
-// Supports: tags (AND), tag1 or tag2 (OR), -tag (exclude), rating:, is:, tagcount:, account:
+// Supports: tags (AND), tag1 or tag2 / ~tag1 ~tag2 (OR), -tag (exclude), (groups), "quoted tags",
+// wildcards (cat*), rating:, is:, tagcount:, account:, artist:, site:, album:, date:, updated:, age:,
+// width:, height:, mpixels:, filesize:, ratio:
 export interface ParsedTagSearch {
   includeTags: string[];       // Tags to include (AND)
   excludeTags: string[];       // Tags to exclude
@@ -25,12 +51,18 @@ export interface ParsedTagSearch {
   fileTypes: Set<string>;      // File type filters: jpg, png, webp, gif
   tagCount: TagCountFilter | null;  // Tag count filter
   includeUnrated: boolean;     // is:unrated flag
-  accounts: Set<string>;       // Account filters (X/Twitter accounts)
-  excludeAccounts: Set<string>; // Excluded accounts
+  accounts: Set<string>;       // Creator filters (lowercase site/handle or bare handle)
+  excludeAccounts: Set<string>; // Excluded creators
+  artists: Set<string>;        // Artist filters (lowercase, any site)
+  excludeArtists: Set<string>; // Excluded artists
+  sites: Set<string>;          // Site filters (lowercase extractor name or host)
+  excludeSites: Set<string>;   // Excluded sites
+  expressions: QueryNode[];    // Terms the fields above can't express (groups, wildcards, date:, album:...), ANDed
+  errors: QuerySyntaxError[];  // Syntax errors; the rest of the query still applies
 }
 
-export function parseTagSearch(query: string): ParsedTagSearch {
-  const result: ParsedTagSearch = {
+export function createEmptyTagSearch(): ParsedTagSearch {
+  return {
     includeTags: [],
     excludeTags: [],
     orGroups: [],
@@ -40,175 +72,86 @@ export function parseTagSearch(query: string): ParsedTagSearch {
     includeUnrated: false,
     accounts: new Set(),
     excludeAccounts: new Set(),
+    artists: new Set(),
+    excludeArtists: new Set(),
+    sites: new Set(),
+    excludeSites: new Set(),
+    expressions: [],
+    errors: [],
   };
+}
 
-  if (!query.trim()) {
-    return result;
-  }
-
-  let remainingQuery = query;
-
-  // 1. Extract tagcount: metatag
-  const tagCountListRegex = /tagcount:(\d+(?:,\d+)+)/gi;
-  const tagCountListMatch = remainingQuery.match(tagCountListRegex);
-  if (tagCountListMatch) {
-    const values = tagCountListMatch[0].substring(9).split(',').map(v => parseInt(v.trim(), 10));
-    result.tagCount = { operator: 'list', values };
-    remainingQuery = remainingQuery.replace(tagCountListRegex, '').trim();
-  } else {
-    const tagCountRegex = /tagcount:(>=|<=|>|<|)(\d+)(\.\.(\d+))?/gi;
-    const tagCountMatch = remainingQuery.match(tagCountRegex);
-    if (tagCountMatch) {
-      const match = tagCountRegex.exec(query);
-      if (match) {
-        const operator = match[1];
-        const firstNum = parseInt(match[2], 10);
-        const secondNum = match[4] ? parseInt(match[4], 10) : undefined;
-
-        if (secondNum !== undefined) {
-          result.tagCount = {
-            operator: 'range',
-            min: Math.min(firstNum, secondNum),
-            max: Math.max(firstNum, secondNum),
-          };
-        } else if (operator === '>') {
-          result.tagCount = { operator: '>', value: firstNum };
-        } else if (operator === '<') {
-          result.tagCount = { operator: '<', value: firstNum };
-        } else if (operator === '>=') {
-          result.tagCount = { operator: '>=', value: firstNum };
-        } else if (operator === '<=') {
-          result.tagCount = { operator: '<=', value: firstNum };
-        } else {
-          result.tagCount = { operator: '=', value: firstNum };
-        }
+const isPlainTag = (node: QueryNode): node is { type: 'tag'; tag: string; wildcard: false } =>
+  node.type === 'tag' && !node.wildcard;
+
+// Files one top-level AND term into the flat fields. Repeated rating:/is:
+// terms add to one set (rating:g rating:s matches either), as they always have.
+function addSearchTerm(result: ParsedTagSearch, node: QueryNode): void {
+  switch (node.type) {
+    case 'tag':
+      if (node.wildcard) break;
+      result.includeTags.push(node.tag);
+      return;
+    case 'or':
+      if (!node.operands.every(isPlainTag)) break;
+      result.orGroups.push(node.operands.map(operand => (operand as { tag: string }).tag));
+      return;
+    case 'rating':
+      node.ratings.forEach(rating => result.ratings.add(rating));
+      return;
+    case 'unrated':
+      result.includeUnrated = true;
+      return;
+    case 'fileType':
+      node.mimeTypes.forEach(mimeType => result.fileTypes.add(mimeType));
+      return;
+    case 'tagCount':
+      if (result.tagCount) break;
+      result.tagCount = node.filter;
+      return;
+    case 'account':
+      node.values.forEach(value => result.accounts.add(value));
+      return;
+    case 'artist':
+      node.values.forEach(value => result.artists.add(value));
+      return;
+    case 'site':
+      node.values.forEach(value => result.sites.add(value));
+      return;
+    case 'not': {
+      const operand = node.operand;
+      if (isPlainTag(operand)) {
+        result.excludeTags.push(operand.tag);
+        return;
+      }
+      const exclude = operand.type === 'account' ? result.excludeAccounts
+        : operand.type === 'artist' ? result.excludeArtists
+        : operand.type === 'site' ? result.excludeSites
+        : null;
+      if (exclude && 'values' in operand) {
+        operand.values.forEach(value => exclude.add(value));
+        return;
       }
-      remainingQuery = remainingQuery.replace(tagCountRegex, '').trim();
+      break;
     }
   }
 
-  // 2. Extract rating: metatags (match comma-separated list first, then single values)
-  const ratingRegex = /rating:([gsqe](?:,[gsqe])+|general|sensitive|questionable|explicit|[gsqe])/gi;
-  const ratingMatches = remainingQuery.match(ratingRegex);
-  if (ratingMatches) {
-    ratingMatches.forEach(match => {
-      const value = match.substring(7).toLowerCase(); // Remove "rating:"
-      if (value.includes(',')) {
-        value.split(',').forEach(r => result.ratings.add(r.trim().charAt(0))); // First char only (g/s/q/e)
-      } else {
-        result.ratings.add(value.charAt(0)); // First char only
-      }
-    });
-    remainingQuery = remainingQuery.replace(ratingRegex, '').trim();
-  }
+  result.expressions.push(node);
+}
 
-  // 3. Extract is: metatags
-  const isRegex = /is:(unrated|jpg|jpeg|png|webp|gif|svg)/gi;
-  const isMatches = remainingQuery.match(isRegex);
-  if (isMatches) {
-    isMatches.forEach(match => {
-      const value = match.substring(3).toLowerCase(); // Remove "is:"
-      if (value === 'unrated') {
-        result.includeUnrated = true;
-      } else if (value === 'jpeg') {
-        result.fileTypes.add('image/jpeg');
-      } else if (value === 'jpg') {
-        result.fileTypes.add('image/jpeg');
-      } else if (value === 'png') {
-        result.fileTypes.add('image/png');
-      } else if (value === 'webp') {
-        result.fileTypes.add('image/webp');
-      } else if (value === 'gif') {
-        result.fileTypes.add('image/gif');
-      } else if (value === 'svg') {
-        result.fileTypes.add('image/svg+xml');
-      }
-    });
-    remainingQuery = remainingQuery.replace(isRegex, '').trim();
-  }
+export function parseTagSearch(query: string): ParsedTagSearch {
+  const result = createEmptyTagSearch();
 
-  // 4. Extract account: metatags (support comma-separated list and exclusions)
-  const accountRegex = /-?account:([a-zA-Z0-9_]+(?:,[a-zA-Z0-9_]+)*)/gi;
-  const accountMatches = remainingQuery.match(accountRegex);
-  if (accountMatches) {
-    accountMatches.forEach(match => {
-      const isExclusion = match.startsWith('-');
-      const value = match.substring(isExclusion ? 9 : 8); // Remove "-account:" or "account:"
-      if (value.includes(',')) {
-        // Multiple accounts
-        value.split(',').forEach(acc => {
-          const trimmed = acc.trim();
-          if (trimmed) {
-            if (isExclusion) {
-              result.excludeAccounts.add(trimmed);
-            } else {
-              result.accounts.add(trimmed);
-            }
-          }
-        });
-      } else {
-        // Single account
-        if (value) {
-          if (isExclusion) {
-            result.excludeAccounts.add(value);
-          } else {
-            result.accounts.add(value);
-          }
-        }
-      }
-    });
-    remainingQuery = remainingQuery.replace(accountRegex, '').trim();
+  if (!query.trim()) {
+    return result;
   }
 
-  // 5. Parse tag terms (handle OR, exclusion, regular tags)
-  // Split by spaces but respect "or" as operator
-  const tokens = remainingQuery.split(/\s+/).filter(t => t.length > 0);
-
-  let i = 0;
-  while (i < tokens.length) {
-    const token = tokens[i];
-
-    if (token.toLowerCase() === 'or') {
-      // Handle OR: take previous tag and next tag as OR group
-      if (i > 0 && i < tokens.length - 1) {
-        const prevTag = tokens[i - 1];
-        const nextTag = tokens[i + 1];
-
-        // Remove previous tag from includeTags if it was just added
-        const prevIndex = result.includeTags.indexOf(prevTag);
-        if (prevIndex !== -1) {
-          result.includeTags.splice(prevIndex, 1);
-        }
-
-        // Check if previous tag is already in an OR group
-        let foundGroup = false;
-        for (const group of result.orGroups) {
-          if (group.includes(prevTag)) {
-            group.push(nextTag);
-            foundGroup = true;
-            break;
-          }
-        }
-
-        if (!foundGroup) {
-          result.orGroups.push([prevTag, nextTag]);
-        }
-
-        i += 2; // Skip 'or' and next tag
-        continue;
-      }
-    } else if (token.startsWith('-')) {
-      // Exclusion
-      const tag = token.substring(1);
-      if (tag) {
-        result.excludeTags.push(tag);
-      }
-    } else {
-      // Regular tag (include, AND)
-      result.includeTags.push(token);
-    }
+  const { root, errors } = parseQuery(query);
+  result.errors = errors;
 
-    i++;
+  if (root) {
+    const terms = root.type === 'and' ? root.operands : [root];
+    terms.forEach(term => addSearchTerm(result, term));
   }
 
   return result;
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sortAlbums,
+  albumSearchKey,
+  buildAlbumMembership,
+  appendAlbumImages,
+  moveAlbumImages,
+  getAlbumCoverId,
+  mergeAlbum,
+} from '../src/storage/albums';
+import type { Album } from '../src/types';
+
+const album = (name: string, imageIds: string[], extra: Partial<Album> = {}): Album => ({
+  id: name,
+  name,
+  imageIds,
+  createdAt: 0,
+  ...extra,
+});
+
+describe('albumSearchKey', () => {
+  it('should lowercase names and use underscores for spaces', () => {
+    expect(albumSearchKey('  Summer  Trip 2024 ')).toBe('summer_trip_2024');
+  });
+});
+
+describe('sortAlbums', () => {
+  it('should sort by name, ignoring case', () => {
+    const sorted = sortAlbums([album('beta', []), album('Alpha', []), album('gamma', [])]);
+    expect(sorted.map(a => a.name)).toEqual(['Alpha', 'beta', 'gamma']);
+  });
+});
+
+describe('buildAlbumMembership', () => {
+  it('should key members by search key', () => {
+    const membership = buildAlbumMembership([album('Summer Trip', ['a', 'b'])]);
+    expect(Array.from(membership.get('summer_trip')!)).toEqual(['a', 'b']);
+  });
+
+  it('should merge albums whose names share a key', () => {
+    const membership = buildAlbumMembership([
+      album('Cats', ['a'], { id: '1' }),
+      album('cats', ['b'], { id: '2' }),
+    ]);
+    expect(Array.from(membership.get('cats')!).sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('appendAlbumImages', () => {
+  it('should append new images in order and skip ones already present', () => {
+    expect(appendAlbumImages(['a', 'b'], ['c', 'a', 'd', 'c'])).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('moveAlbumImages', () => {
+  const order = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should move one image before another', () => {
+    expect(moveAlbumImages(order, ['d'], 'b')).toEqual(['a', 'd', 'b', 'c', 'e']);
+    expect(moveAlbumImages(order, ['a'], 'd')).toEqual(['b', 'c', 'a', 'd', 'e']);
+  });
+
+  it('should move several images as a block, keeping their album order', () => {
+    expect(moveAlbumImages(order, ['e', 'b'], 'a')).toEqual(['b', 'e', 'a', 'c', 'd']);
+  });
+
+  it('should move to the end without a target', () => {
+    expect(moveAlbumImages(order, ['b'], null)).toEqual(['a', 'c', 'd', 'e', 'b']);
+  });
+
+  it('should ignore IDs that are not in the album', () => {
+    expect(moveAlbumImages(order, ['x', 'c'], 'a')).toEqual(['c', 'a', 'b', 'd', 'e']);
+  });
+});
+
+describe('getAlbumCoverId', () => {
+  it('should use the chosen cover while it is in the album', () => {
+    expect(getAlbumCoverId(album('a', ['x', 'y'], { coverImageId: 'y' }))).toBe('y');
+  });
+
+  it('should fall back to the first image', () => {
+    expect(getAlbumCoverId(album('a', ['x', 'y'], { coverImageId: 'gone' }))).toBe('x');
+    expect(getAlbumCoverId(album('a', []))).toBeUndefined();
+  });
+});
+
+describe('mergeAlbum', () => {
+  it('should keep the existing album and append members only the import has', () => {
+    const existing = album('Trip', ['a', 'b']);
+    const imported = album('Renamed', ['c', 'a'], { description: 'From backup', coverImageId: 'c' });
+
+    expect(mergeAlbum(existing, imported)).toEqual({
+      ...existing,
+      description: 'From backup',
+      coverImageId: 'c',
+      imageIds: ['a', 'b', 'c'],
+    });
+  });
+});
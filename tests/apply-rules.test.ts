@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { getAutoTagChange } from '../src/storage/service';
+import type { TagRule } from '../src/storage/tag-rules';
+import type { TagAliasTable } from '../src/storage/tag-aliases';
+import type { SavedImage } from '../src/types';
+
+const image = (overrides: Partial<Omit<SavedImage, 'blob'>> = {}): Omit<SavedImage, 'blob'> => ({
+  id: 'img-1',
+  imageUrl: 'https://i.pximg.net/img/1.png',
+  pageUrl: 'https://www.pixiv.net/artworks/1',
+  pageTitle: 'Sunset | Some Artist - pixiv',
+  mimeType: 'image/png',
+  fileSize: 1000,
+  width: 1920,
+  height: 1080,
+  savedAt: 0,
+  ...overrides,
+});
+
+const rule = (overrides: Partial<TagRule> = {}): TagRule => ({
+  id: 'rule-1',
+  name: 'Pixiv',
+  pattern: 'pixiv',
+  isRegex: false,
+  tags: ['pixiv'],
+  enabled: true,
+  ...overrides,
+});
+
+const noAliases: TagAliasTable = { aliases: [], implications: [] };
+
+describe('getAutoTagChange', () => {
+  it('should list the rule tags an image is missing', () => {
+    const change = getAutoTagChange(image({ tags: ['sunset'] }), [rule({ tags: ['pixiv', 'sunset', 'illustration'] })], noAliases);
+    expect(change).toEqual({ imageId: 'img-1', addedTags: ['illustration', 'pixiv'], categories: {}, rating: undefined, ruleIds: ['rule-1'] });
+  });
+
+  it('should return null when the image already has every tag or no rule matches', () => {
+    expect(getAutoTagChange(image({ tags: ['pixiv'] }), [rule()], noAliases)).toBeNull();
+    expect(getAutoTagChange(image({ pageTitle: 'Untitled' }), [rule()], noAliases)).toBeNull();
+  });
+
+  it('should match conditions against the stored image fields', () => {
+    const wide = rule({ pattern: '', tags: ['wallpaper'], conditions: [{ field: 'width', operator: '>=', value: '1920' }] });
+    expect(getAutoTagChange(image(), [wide], noAliases)?.addedTags).toEqual(['wallpaper']);
+    expect(getAutoTagChange(image({ width: 800 }), [wide], noAliases)).toBeNull();
+  });
+
+  it('should strip category prefixes from captured tags and report the categories', () => {
+    const artist = rule({ pattern: '\\| (.+?) - pixiv', isRegex: true, tags: ['artist:$1'] });
+    const change = getAutoTagChange(image(), [artist], noAliases);
+    expect(change?.addedTags).toEqual(['some_artist']);
+    expect(change?.categories).toEqual({ some_artist: 'artist' });
+  });
+
+  it('should apply aliases and implications to the added tags', () => {
+    const table: TagAliasTable = {
+      aliases: [{ id: 'a', antecedent: 'pixiv', consequent: 'pixiv_art' }],
+      implications: [{ id: 'i', antecedent: 'pixiv_art', consequent: 'artwork' }],
+    };
+    expect(getAutoTagChange(image({ tags: ['artwork'] }), [rule()], table)?.addedTags).toEqual(['pixiv_art']);
+  });
+
+  it('should only set a rating on images without one', () => {
+    const rated = rule({ tags: [], rating: 's' });
+    expect(getAutoTagChange(image(), [rated], noAliases)?.rating).toBe('s');
+    expect(getAutoTagChange(image({ rating: 'g' }), [rated], noAliases)).toBeNull();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { matchesRule, getAutoTags } from '../src/storage/tag-rules';
-import type { TagRule } from '../src/storage/tag-rules';
+import { matchesRule, getAutoTags, evaluateRules, moveRule, parseRuleNumber, expandRuleTags, normalizeCapturedTag } from '../src/storage/tag-rules';
+import type { TagRule, RuleCondition, RuleContext } from '../src/storage/tag-rules';
 
 describe('matchesRule', () => {
   describe('enabled/disabled rules', () => {
@@ -430,3 +430,183 @@ describe('getAutoTags', () => {
     });
   });
 });
+
+describe('rule conditions', () => {
+  const conditionRule = (conditions: RuleCondition[], pattern = ''): TagRule => ({
+    id: '1',
+    name: 'Conditions',
+    pattern,
+    isRegex: false,
+    tags: ['wallpaper'],
+    enabled: true,
+    conditions,
+  });
+
+  const pixivWide: RuleContext = {
+    pageTitle: 'Sunset - pixiv',
+    pageUrl: 'https://www.pixiv.net/artworks/123',
+    imageUrl: 'https://i.pximg.net/img-original/123_p0.png',
+    mimeType: 'image/png',
+    width: 3000,
+    height: 1000,
+    site: 'pixiv',
+    artist: '4567',
+  };
+
+  it('should require every condition to match', () => {
+    const rule = conditionRule([
+      { field: 'domain', operator: 'equals', value: 'pixiv.net' },
+      { field: 'ratio', operator: '>', value: '2' },
+    ]);
+    expect(matchesRule(pixivWide, rule)).toBe(true);
+    expect(matchesRule({ ...pixivWide, width: 1500 }, rule)).toBe(false);
+    expect(matchesRule({ ...pixivWide, pageUrl: 'https://x.com/a/status/1' }, rule)).toBe(false);
+  });
+
+  it('should combine conditions with the page title pattern', () => {
+    const rule = conditionRule([{ field: 'mimeType', operator: 'equals', value: 'image/png' }], 'sunset');
+    expect(matchesRule(pixivWide, rule)).toBe(true);
+    expect(matchesRule({ ...pixivWide, pageTitle: 'Sunrise' }, rule)).toBe(false);
+  });
+
+  it('should match domains including subdomains, but not lookalikes', () => {
+    const rule = conditionRule([{ field: 'domain', operator: 'equals', value: 'pixiv.net' }]);
+    expect(matchesRule({ pageUrl: 'https://pixiv.net/' }, rule)).toBe(true);
+    expect(matchesRule({ pageUrl: 'https://notpixiv.net/' }, rule)).toBe(false);
+  });
+
+  it('should match URL fields with contains and regex', () => {
+    expect(matchesRule(pixivWide, conditionRule([{ field: 'imageUrl', operator: 'contains', value: 'IMG-ORIGINAL' }]))).toBe(true);
+    expect(matchesRule(pixivWide, conditionRule([{ field: 'pageUrl', operator: 'regex', value: '/artworks/\\d+$' }]))).toBe(true);
+    expect(matchesRule(pixivWide, conditionRule([{ field: 'pageUrl', operator: 'regex', value: '[invalid' }]))).toBe(false);
+  });
+
+  it('should match accounts like the account: metatag', () => {
+    expect(matchesRule(pixivWide, conditionRule([{ field: 'account', operator: 'equals', value: 'pixiv/4567' }]))).toBe(true);
+    expect(matchesRule(pixivWide, conditionRule([{ field: 'account', operator: 'equals', value: '4567' }]))).toBe(true);
+    expect(matchesRule(pixivWide, conditionRule([{ field: 'account', operator: 'equals', value: 'x/4567' }]))).toBe(false);
+  });
+
+  it('should compare dimensions numerically', () => {
+    expect(matchesRule(pixivWide, conditionRule([{ field: 'width', operator: '>=', value: '3000' }]))).toBe(true);
+    expect(matchesRule(pixivWide, conditionRule([{ field: 'height', operator: '<', value: '1000' }]))).toBe(false);
+    expect(matchesRule({ ...pixivWide, width: 1920, height: 1080 }, conditionRule([{ field: 'ratio', operator: '=', value: '16:9' }]))).toBe(true);
+  });
+
+  it('should not match when the context lacks the field', () => {
+    const rule = conditionRule([{ field: 'width', operator: '>', value: '100' }]);
+    expect(matchesRule('Any Title', rule)).toBe(false);
+    expect(getAutoTags('Any Title', [rule])).toEqual([]);
+  });
+
+  it('should parse numbers and ratios', () => {
+    expect(parseRuleNumber('width', '1920')).toBe(1920);
+    expect(parseRuleNumber('ratio', '16:9')).toBe(1.78);
+    expect(parseRuleNumber('ratio', '2')).toBe(2);
+    expect(parseRuleNumber('width', '16:9')).toBeNull();
+    expect(parseRuleNumber('ratio', '1:0')).toBeNull();
+    expect(parseRuleNumber('height', 'tall')).toBeNull();
+  });
+});
+
+describe('capture groups and ratings', () => {
+  const captureRule = (pattern: string, tags: string[], rating?: TagRule['rating']): TagRule => ({
+    id: '1',
+    name: 'Capture',
+    pattern,
+    isRegex: true,
+    tags,
+    enabled: true,
+    rating,
+  });
+
+  it('should fill in capture groups, normalized to lowercase and underscores', () => {
+    const rule = captureRule('^(.+?) \\| pixiv', ['pixiv', 'artist:$1']);
+    expect(getAutoTags('Some Artist | pixiv', [rule])).toEqual(['pixiv', 'artist:some_artist']);
+  });
+
+  it('should support several groups and the whole match', () => {
+    const rule = captureRule('(\\w+) by (\\w+)', ['$2', 'title:$1', 'src_$0']);
+    expect(getAutoTags('Sunset by Alice', [rule])).toEqual(['alice', 'title:sunset', 'src_sunset_by_alice']);
+  });
+
+  it('should drop tags whose group captured nothing', () => {
+    const rule = captureRule('^(\\w+)(?: - (\\w+))?$', ['a:$1', 'b:$2']);
+    expect(getAutoTags('Sunset', [rule])).toEqual(['a:sunset']);
+  });
+
+  it('should add the rule rating as a rating tag', () => {
+    const rule = captureRule('nsfw', ['adult'], 'e');
+    expect(getAutoTags('NSFW art', [rule])).toEqual(['adult', 'rating:e']);
+    expect(getAutoTags('Safe art', [rule])).toEqual([]);
+  });
+
+  it('should keep fixed tags and drop references to groups that do not exist', () => {
+    expect(expandRuleTags(['cat', 'price_$5'], [])).toEqual(['cat']);
+  });
+
+  it('should normalize captured text', () => {
+    expect(normalizeCapturedTag('  Some   Artist ')).toBe('some_artist');
+  });
+
+  it('should drop markup and control characters from captured text', () => {
+    expect(normalizeCapturedTag('<img/src=//evil.test/x>')).toBe('img/src=//evil.test/x');
+    expect(normalizeCapturedTag('Tom & "Jerry\'s"\u0000\n')).toBe('tom_jerry_s');
+  });
+
+  it('should not let a page title inject markup through a capture group', () => {
+    const rule: TagRule = { id: 'r', name: 'Artist', pattern: '^(.+?) \\| pixiv', isRegex: true, tags: ['$1'], enabled: true };
+    expect(getAutoTags('<img/src=//evil.test/x> | pixiv', [rule])).toEqual(['img/src=//evil.test/x']);
+  });
+});
+
+describe('rule order', () => {
+  const orderedRule = (id: string, tags: string[], overrides: Partial<TagRule> = {}): TagRule => ({
+    id,
+    name: id,
+    pattern: 'pixiv',
+    isRegex: false,
+    tags,
+    enabled: true,
+    ...overrides,
+  });
+
+  it('should skip the rules below a matching stop-processing rule', () => {
+    const rules = [
+      orderedRule('specific', ['wallpaper'], { stopProcessing: true }),
+      orderedRule('generic', ['illustration']),
+    ];
+    expect(evaluateRules('Sunset - pixiv', rules)).toEqual({ tags: ['wallpaper'], ruleIds: ['specific'] });
+  });
+
+  it('should keep going when a stop-processing rule does not match', () => {
+    const rules = [
+      orderedRule('specific', ['wallpaper'], { pattern: 'wallpaper', stopProcessing: true }),
+      orderedRule('generic', ['illustration']),
+    ];
+    expect(evaluateRules('Sunset - pixiv', rules)).toEqual({ tags: ['illustration'], ruleIds: ['generic'] });
+  });
+
+  it('should remove tags added by earlier rules with -tag', () => {
+    const rules = [
+      orderedRule('generic', ['illustration', 'artist:someone']),
+      orderedRule('photo', ['photo', '-illustration', '-someone']),
+    ];
+    expect(getAutoTags('Sunset - pixiv', rules)).toEqual(['photo']);
+  });
+
+  it('should let a later rule replace an earlier rating', () => {
+    const rules = [
+      orderedRule('generic', [], { rating: 'g' }),
+      orderedRule('specific', ['adult'], { rating: 'e' }),
+    ];
+    expect(getAutoTags('Sunset - pixiv', rules)).toEqual(['adult', 'rating:e']);
+  });
+
+  it('should move a rule before another one or to the end', () => {
+    const rules = ['a', 'b', 'c'].map(id => orderedRule(id, []));
+    expect(moveRule(rules, 'c', 'a').map(rule => rule.id)).toEqual(['c', 'a', 'b']);
+    expect(moveRule(rules, 'a', null).map(rule => rule.id)).toEqual(['b', 'c', 'a']);
+    expect(moveRule(rules, 'missing', 'a')).toBe(rules);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getImageCreator,
+  parseAccountFilter,
+  creatorMatchesAccount,
+  groupImagesByCreator,
+  getSiteInfo,
+} from '../src/sites/creators';
+
+const image = (pageUrl: string, extra: { site?: string; artist?: string } = {}) => ({ pageUrl, ...extra });
+
+describe('getImageCreator', () => {
+  it('should use the artist captured at save time', () => {
+    expect(getImageCreator(image('https://x.com/home', { site: 'x', artist: 'Painter' }))).toEqual({
+      site: 'x',
+      handle: 'Painter',
+      key: 'x/painter',
+    });
+  });
+
+  it('should derive the creator from the page URL for older images', () => {
+    expect(getImageCreator(image('https://bsky.app/profile/artist.bsky.social/post/3kabc'))).toEqual({
+      site: 'bluesky',
+      handle: 'artist.bsky.social',
+      key: 'bluesky/artist.bsky.social',
+    });
+  });
+
+  it('should return null when the page has no creator', () => {
+    expect(getImageCreator(image('https://www.pixiv.net/artworks/123'))).toBeNull();
+    expect(getImageCreator(image('https://example.com/gallery'))).toBeNull();
+    expect(getImageCreator(image('file:///photo.jpg'))).toBeNull();
+  });
+});
+
+describe('parseAccountFilter', () => {
+  it('should split site/handle values', () => {
+    expect(parseAccountFilter('pixiv/123')).toEqual({ site: 'pixiv', handle: '123' });
+  });
+
+  it('should treat a bare value as a handle on any site', () => {
+    expect(parseAccountFilter('painter')).toEqual({ handle: 'painter' });
+  });
+
+  it('should keep slashes that cannot separate a site', () => {
+    expect(parseAccountFilter('/painter')).toEqual({ handle: '/painter' });
+    expect(parseAccountFilter('painter/')).toEqual({ handle: 'painter/' });
+  });
+});
+
+describe('creatorMatchesAccount', () => {
+  const creator = { site: 'misskey', handle: 'Artist', key: 'misskey/artist' };
+
+  it('should match site/handle case-insensitively', () => {
+    expect(creatorMatchesAccount(creator, 'misskey/artist')).toBe(true);
+    expect(creatorMatchesAccount(creator, 'Misskey/ARTIST')).toBe(true);
+  });
+
+  it('should not match the same handle on another site', () => {
+    expect(creatorMatchesAccount(creator, 'x/artist')).toBe(false);
+  });
+
+  it('should match a bare handle on any site', () => {
+    expect(creatorMatchesAccount(creator, 'artist')).toBe(true);
+    expect(creatorMatchesAccount(creator, 'someone')).toBe(false);
+  });
+});
+
+describe('groupImagesByCreator', () => {
+  it('should group by site and handle, ignoring handle case', () => {
+    const images = [
+      image('https://x.com/Painter/status/1'),
+      image('https://x.com/painter/status/2'),
+      image('https://painter.tumblr.com/post/3'),
+      image('https://example.com/no-creator'),
+    ];
+
+    const groups = groupImagesByCreator(images);
+    expect(Array.from(groups.keys())).toEqual(['x/painter', 'tumblr/painter']);
+    expect(groups.get('x/painter')!.images).toHaveLength(2);
+    expect(groups.get('tumblr/painter')!.creator.site).toBe('tumblr');
+  });
+});
+
+describe('getSiteInfo', () => {
+  it('should describe known sites', () => {
+    expect(getSiteInfo('pixiv').label).toBe('Pixiv');
+  });
+
+  it('should label other sites by host name', () => {
+    expect(getSiteInfo('example.com').label).toBe('example.com');
+  });
+});
@@ -0,0 +1,69 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { imageDB } from '../src/storage/db';
+
+// Opens the database as version 3 left it: one images store, blobs inline
+function createVersion3Database(images: object[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('ImageStorageDB', 3);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore('images', { keyPath: 'id' });
+      store.createIndex('savedAt', 'savedAt', { unique: false });
+      store.createIndex('pageUrl', 'pageUrl', { unique: false });
+      store.createIndex('rating', 'rating', { unique: false });
+      for (const image of images) {
+        store.put(image);
+      }
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const image = (id: string, blob: Blob) => ({
+  id,
+  blob,
+  imageUrl: `https://example.com/${id}.png`,
+  pageUrl: 'https://example.com/post',
+  mimeType: 'image/png',
+  fileSize: blob.size,
+  width: 10,
+  height: 10,
+  savedAt: 1700000000000,
+  tags: ['cat', 'outdoor'],
+});
+
+describe('upgrading a version 3 database', () => {
+  beforeAll(async () => {
+    await createVersion3Database([
+      image('a', new Blob(['first'], { type: 'image/png' })),
+      image('b', new Blob(['second image'], { type: 'image/png' })),
+    ]);
+  });
+
+  it('should move every blob out of the image records into the blobs store', async () => {
+    const record = await imageDB.getMetadata('a');
+    expect(record).toBeDefined();
+    expect(record).not.toHaveProperty('blob');
+    expect(record!.tags).toEqual(['cat', 'outdoor']);
+
+    const blob = await imageDB.getBlob('b');
+    expect(await blob!.text()).toBe('second image');
+  });
+
+  it('should still join each record with its blob', async () => {
+    const saved = await imageDB.get('a');
+    expect(saved!.pageUrl).toBe('https://example.com/post');
+    expect(await saved!.blob.text()).toBe('first');
+  });
+
+  it('should add the indexes and stores of later versions', async () => {
+    expect(await imageDB.getKeysByIndex('tags', 'outdoor')).toEqual(['a', 'b']);
+    expect(await imageDB.getAllAlbums()).toEqual([]);
+    expect(await imageDB.getThumbnails('a')).toBeUndefined();
+    expect(await imageDB.getAllVersions()).toEqual([]);
+  });
+});
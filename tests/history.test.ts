@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OperationHistory,
+  ChangeRecorder,
+  snapshotFields,
+  diffFields,
+  applyFields,
+  type HistoryEntry,
+} from '../src/storage/history';
+
+const entry = (id: string): HistoryEntry => ({ id, label: id, timestamp: 0, changes: [] });
+const ids = (entries: HistoryEntry[]) => entries.map(e => e.id);
+
+describe('snapshotFields', () => {
+  it('should copy the undoable fields so later edits do not leak in', () => {
+    const image = { tags: ['cat'], rating: 's' as const, pageUrl: 'https://a.test', isDeleted: undefined };
+    const snapshot = snapshotFields(image);
+    image.tags.push('dog');
+    expect(snapshot.tags).toEqual(['cat']);
+    expect(snapshot.rating).toBe('s');
+  });
+});
+
+describe('diffFields', () => {
+  it('should keep only the fields that changed', () => {
+    const change = diffFields('1', { tags: ['cat'], rating: 's' }, { tags: ['cat', 'dog'], rating: 's' });
+    expect(change).toEqual({ imageId: '1', before: { tags: ['cat'] }, after: { tags: ['cat', 'dog'] } });
+  });
+
+  it('should record fields that were unset', () => {
+    const change = diffFields('1', { rating: 'e' }, {});
+    expect(change).toEqual({ imageId: '1', before: { rating: 'e' }, after: { rating: undefined } });
+    expect('rating' in change!.after).toBe(true);
+  });
+
+  it('should return null when nothing changed', () => {
+    expect(diffFields('1', { tags: ['cat'] }, { tags: ['cat'] })).toBeNull();
+  });
+});
+
+describe('applyFields', () => {
+  it('should write the given fields and remove ones recorded as unset', () => {
+    const image = { id: '1', tags: ['cat'], rating: 'e' as const, pageTitle: 'Title' };
+    expect(applyFields(image, { tags: ['dog'], rating: undefined })).toEqual({ id: '1', tags: ['dog'], pageTitle: 'Title' });
+  });
+
+  it('should round-trip a diff', () => {
+    const before = { id: '1', tags: ['cat'], isDeleted: false };
+    const after = { id: '1', tags: ['cat', 'dog'], isDeleted: true };
+    const change = diffFields('1', snapshotFields(before), snapshotFields(after))!;
+    expect(applyFields(after, change.before)).toEqual(before);
+    expect(applyFields(before, change.after)).toEqual(after);
+  });
+});
+
+describe('ChangeRecorder', () => {
+  it('should keep only changes that touched an undoable field', () => {
+    const recorder = new ChangeRecorder();
+    recorder.record('1', { tags: ['cat'] }, { tags: ['cat', 'dog'] });
+    recorder.record('2', { rating: 's' }, { rating: 's' });
+    expect(recorder.changes).toEqual([{ imageId: '1', before: { tags: ['cat'] }, after: { tags: ['cat', 'dog'] } }]);
+  });
+
+  it('should keep overlapping operations apart', () => {
+    const first = new ChangeRecorder();
+    const second = new ChangeRecorder();
+    first.record('1', { rating: 's' }, { rating: 'e' });
+    second.record('2', { isDeleted: false }, { isDeleted: true });
+    first.record('3', { rating: 'g' }, {});
+    expect(first.changes.map(change => change.imageId)).toEqual(['1', '3']);
+    expect(second.changes.map(change => change.imageId)).toEqual(['2']);
+  });
+});
+
+describe('OperationHistory', () => {
+  it('should undo newest first and redo in reverse', () => {
+    const history = new OperationHistory();
+    history.push(entry('a'));
+    history.push(entry('b'));
+    expect(history.takeUndo()?.id).toBe('b');
+    expect(ids(history.undoEntries)).toEqual(['a']);
+    expect(ids(history.redoEntries)).toEqual(['b']);
+    expect(history.takeRedo()?.id).toBe('b');
+    expect(ids(history.undoEntries)).toEqual(['b', 'a']);
+  });
+
+  it('should clear the redo stack on a new operation', () => {
+    const history = new OperationHistory();
+    history.push(entry('a'));
+    history.takeUndo();
+    history.push(entry('b'));
+    expect(history.takeRedo()).toBeUndefined();
+  });
+
+  it('should drop the oldest entries past the limit', () => {
+    const history = new OperationHistory(2);
+    ['a', 'b', 'c'].forEach(id => history.push(entry(id)));
+    expect(ids(history.undoEntries)).toEqual(['c', 'b']);
+  });
+
+  it('should notify subscribers until they unsubscribe', () => {
+    const history = new OperationHistory();
+    let calls = 0;
+    const unsubscribe = history.subscribe(() => calls++);
+    history.push(entry('a'));
+    history.takeUndo();
+    history.takeUndo();
+    unsubscribe();
+    history.takeRedo();
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,45 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { imageDB, splitImageRecord } from '../src/storage/db';
+import type { SavedImage } from '../src/types';
+
+const image = (id: string, content: string): SavedImage => ({
+  id,
+  blob: new Blob([content], { type: 'image/png' }),
+  imageUrl: `https://example.com/${id}.png`,
+  pageUrl: 'https://example.com/post',
+  mimeType: 'image/png',
+  fileSize: content.length,
+  width: 10,
+  height: 10,
+  savedAt: 1700000000000,
+});
+
+describe('ImageDB.update', () => {
+  it('should drop the thumbnails and kept original of an image it overrides', async () => {
+    await imageDB.add(image('a', 'old file'));
+    const thumbnail = new Blob(['old thumbnail'], { type: 'image/webp' });
+    await imageDB.putThumbnails({ id: 'a', blobs: { 256: thumbnail, 512: thumbnail }, createdAt: 0 });
+    // A recompression that kept the original file
+    const { record, blob } = splitImageRecord(image('a', 'smaller file'));
+    await imageDB.replaceFile(record, blob!.blob, {
+      id: 'a', blob: new Blob(['old file']), mimeType: 'image/png', fileSize: 8, width: 10, height: 10, createdAt: 0,
+    });
+
+    await imageDB.update(image('a', 'imported file'));
+
+    expect(await imageDB.getThumbnails('a')).toBeUndefined();
+    expect(await imageDB.getVersion('a')).toBeUndefined();
+    expect(await (await imageDB.getBlob('a'))!.text()).toBe('imported file');
+  });
+
+  it('should leave the thumbnails of other images alone', async () => {
+    await imageDB.add(image('b', 'kept'));
+    const thumbnail = new Blob(['thumbnail of b'], { type: 'image/webp' });
+    await imageDB.putThumbnails({ id: 'b', blobs: { 256: thumbnail, 512: thumbnail }, createdAt: 0 });
+
+    await imageDB.update(image('c', 'new'));
+
+    expect(await imageDB.getThumbnails('b')).toBeDefined();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { splitImageRecord, joinImageRecord } from '../src/storage/db';
+
+// An image as version 3 databases stored it: blob inline, no hashes, sources or post fields
+const version3Image = {
+  id: 'img-1',
+  blob: new Blob(['png'], { type: 'image/png' }),
+  imageUrl: 'https://example.com/a.png',
+  pageUrl: 'https://example.com/post/1',
+  pageTitle: 'Post',
+  mimeType: 'image/png',
+  fileSize: 3,
+  width: 10,
+  height: 20,
+  savedAt: 1000,
+  updatedAt: 2000,
+  tags: ['cat'],
+  rating: 's' as const,
+};
+
+describe('splitImageRecord', () => {
+  it('should move the blob of a version 3 record into a blob record keyed by image id', () => {
+    const { record, blob } = splitImageRecord(version3Image);
+    expect(record).not.toHaveProperty('blob');
+    expect(blob).toEqual({ id: 'img-1', blob: version3Image.blob });
+  });
+
+  it('should keep every metadata field', () => {
+    const { record } = splitImageRecord(version3Image);
+    const { blob: _blob, ...metadata } = version3Image;
+    expect(record).toEqual(metadata);
+  });
+
+  it('should leave records that were already split untouched', () => {
+    const { blob: _blob, ...metadata } = version3Image;
+    const result = splitImageRecord(metadata);
+    expect(result.record).toEqual(metadata);
+    expect(result.blob).toBeUndefined();
+  });
+});
+
+describe('joinImageRecord', () => {
+  it('should give back the original image', () => {
+    const { record, blob } = splitImageRecord(version3Image);
+    expect(joinImageRecord(record, blob)).toEqual(version3Image);
+  });
+
+  it('should return undefined when the blob is missing', () => {
+    const { record } = splitImageRecord(version3Image);
+    expect(joinImageRecord(record, undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { getImageSources, mergeImageSource, sourcesMatchQuery } from '../src/storage/sources';
+import type { ImageSource } from '../src/types';
+
+const pixivSource: ImageSource = {
+  imageUrl: 'https://i.pximg.net/img-original/img/2024/01/01/00/00/00/123_p0.png',
+  pageUrl: 'https://www.pixiv.net/artworks/123',
+  pageTitle: 'Sunset | artist - pixiv',
+  capturedAt: 1000,
+};
+
+const xSource: ImageSource = {
+  imageUrl: 'https://pbs.twimg.com/media/abc?format=png&name=orig',
+  pageUrl: 'https://x.com/reposter/status/456',
+  pageTitle: 'Reposter on X',
+  capturedAt: 2000,
+};
+
+describe('getImageSources', () => {
+  it('should return the sources array when present', () => {
+    const image = { ...pixivSource, savedAt: 1000, sources: [pixivSource, xSource] };
+    expect(getImageSources(image)).toEqual([pixivSource, xSource]);
+  });
+
+  it('should fall back to top-level fields for legacy images', () => {
+    const image = {
+      imageUrl: pixivSource.imageUrl,
+      pageUrl: pixivSource.pageUrl,
+      pageTitle: pixivSource.pageTitle,
+      savedAt: 1000,
+    };
+    expect(getImageSources(image)).toEqual([pixivSource]);
+  });
+
+  it('should fall back when the sources array is empty', () => {
+    const image = { ...pixivSource, savedAt: 1000, sources: [] };
+    expect(getImageSources(image)).toHaveLength(1);
+  });
+});
+
+describe('mergeImageSource', () => {
+  it('should append a new source', () => {
+    expect(mergeImageSource([pixivSource], xSource)).toEqual([pixivSource, xSource]);
+  });
+
+  it('should not duplicate an already recorded URL pair', () => {
+    const again = { ...pixivSource, pageTitle: 'Different title', capturedAt: 3000 };
+    const sources = [pixivSource];
+    expect(mergeImageSource(sources, again)).toBe(sources);
+  });
+
+  it('should treat the same image on a different page as a new source', () => {
+    const otherPage = { ...pixivSource, pageUrl: 'https://www.pixiv.net/users/1' };
+    expect(mergeImageSource([pixivSource], otherPage)).toHaveLength(2);
+  });
+});
+
+describe('sourcesMatchQuery', () => {
+  const image = { ...pixivSource, savedAt: 1000, sources: [pixivSource, xSource] };
+
+  it('should match the primary fields', () => {
+    expect(sourcesMatchQuery(image, 'pixiv.net')).toBe(true);
+  });
+
+  it('should match secondary sources', () => {
+    expect(sourcesMatchQuery(image, 'x.com/reposter')).toBe(true);
+    expect(sourcesMatchQuery(image, 'reposter on x')).toBe(true);
+  });
+
+  it('should be case-insensitive against a lowercase query', () => {
+    expect(sourcesMatchQuery(image, 'sunset')).toBe(true);
+  });
+
+  it('should not match unrelated queries', () => {
+    expect(sourcesMatchQuery(image, 'deviantart')).toBe(false);
+  });
+});
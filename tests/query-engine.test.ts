@@ -0,0 +1,361 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { QueryIndex, compileQuery, executePlan, compareImages, matchesNumericFilter, evaluateQueryNode, type PostingSource } from '../src/storage/query-engine';
+import { parseQuery } from '../src/viewer/query-parser';
+import { parseTagSearch, type ParsedTagSearch } from '../src/viewer/tag-utils';
+import type { ImageMetadata } from '../src/types';
+
+function makeImage(overrides: Partial<ImageMetadata>): ImageMetadata {
+  return {
+    id: 'id',
+    imageUrl: 'https://example.com/image.png',
+    pageUrl: 'https://example.com/',
+    mimeType: 'image/png',
+    fileSize: 1000,
+    width: 100,
+    height: 100,
+    savedAt: 0,
+    ...overrides,
+  };
+}
+
+// Deterministic PRNG so generated datasets are the same on every run
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const RATINGS = ['g', 's', 'q', 'e', undefined] as const;
+const MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Tag popularity falls off quickly, like real collections: tag_0 is common, tag_1999 rare
+function generateImages(count: number, seed: number, vocabulary = 2000): ImageMetadata[] {
+  const random = mulberry32(seed);
+  const images: ImageMetadata[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const tagCount = Math.floor(random() * 12);
+    const tags = new Set<string>();
+    for (let t = 0; t < tagCount; t++) {
+      tags.add(`tag_${Math.floor(Math.pow(random(), 3) * vocabulary)}`);
+    }
+
+    images.push(makeImage({
+      id: `img-${i.toString().padStart(6, '0')}`,
+      imageUrl: `https://cdn${i % 7}.example.com/${Math.floor(random() * 1e6)}.png`,
+      pageUrl: `https://x.com/artist_${i % 50}/status/${i}`,
+      mimeType: MIME_TYPES[Math.floor(random() * MIME_TYPES.length)],
+      fileSize: Math.floor(random() * 5e6),
+      width: 100 + Math.floor(random() * 3000),
+      height: 100 + Math.floor(random() * 3000),
+      savedAt: 1_600_000_000_000 + Math.floor(random() * 1e10),
+      updatedAt: random() < 0.3 ? 1_700_000_000_000 + Math.floor(random() * 1e9) : undefined,
+      rating: RATINGS[Math.floor(random() * RATINGS.length)],
+      tags: tagCount > 0 ? Array.from(tags) : undefined,
+      isDeleted: random() < 0.05 ? true : undefined,
+    }));
+  }
+
+  return images;
+}
+
+// The filter chain the viewer ran before the query engine, kept as the reference
+function referenceFilter(images: ImageMetadata[], parsed: ParsedTagSearch, view: 'all' | 'trash'): ImageMetadata[] {
+  return images.filter(img => {
+    if (!!img.isDeleted !== (view === 'trash')) return false;
+    if (parsed.ratings.size > 0 || parsed.includeUnrated) {
+      if (!(parsed.includeUnrated && !img.rating) && !(img.rating && parsed.ratings.has(img.rating))) return false;
+    }
+    if (parsed.fileTypes.size > 0 && !parsed.fileTypes.has(img.mimeType)) return false;
+    if (parsed.tagCount && !matchesNumericFilter(img.tags?.length ?? 0, parsed.tagCount)) return false;
+    if (parsed.includeTags.length > 0 && !(img.tags && parsed.includeTags.every(tag => img.tags!.includes(tag)))) return false;
+    if (parsed.orGroups.length > 0 && !(img.tags && parsed.orGroups.every(group => group.some(tag => img.tags!.includes(tag))))) return false;
+    if (parsed.excludeTags.length > 0 && img.tags && parsed.excludeTags.some(tag => img.tags!.includes(tag))) return false;
+    return true;
+  });
+}
+
+function sortedIds(images: ImageMetadata[], sort: string): string[] {
+  return [...images].sort((a, b) => compareImages(a, b, sort)).map(img => img.id);
+}
+
+describe('compileQuery', () => {
+  it('should always restrict to the current view', () => {
+    expect(compileQuery(null, { view: 'all' }).required).toEqual([[{ field: 'deleted', value: 'false' }]]);
+    expect(compileQuery(null, { view: 'trash' }).required).toEqual([[{ field: 'deleted', value: 'true' }]]);
+  });
+
+  it('should turn tags, OR groups and ratings into posting groups', () => {
+    const plan = compileQuery(parseTagSearch('cat dog or bird rating:g is:unrated -sketch'), { view: 'all' });
+    expect(plan.required).toContainEqual([{ field: 'tags', value: 'cat' }]);
+    expect(plan.required).toContainEqual([{ field: 'tags', value: 'dog' }, { field: 'tags', value: 'bird' }]);
+    expect(plan.required).toContainEqual([{ field: 'rating', value: 'g' }, { field: 'rating', value: 'unrated' }]);
+    expect(plan.excluded).toEqual([{ field: 'tags', value: 'sketch' }]);
+    expect(plan.residual).toEqual([]);
+  });
+
+  it('should leave out ratings when asked', () => {
+    const plan = compileQuery(parseTagSearch('rating:e'), { view: 'all', ignoreRatings: true });
+    expect(plan.required).toHaveLength(1);
+  });
+
+  it('should keep unindexed conditions as residual checks', () => {
+    const plan = compileQuery(parseTagSearch('tagcount:>2 account:x/painter'), { view: 'all', urlQuery: 'pixiv' });
+    expect(plan.residual.map(check => check.name)).toEqual(['url', 'tagcount', 'account']);
+  });
+});
+
+describe('executePlan', () => {
+  it('should fall back to per-record checks for postings the source cannot answer', () => {
+    const images = [
+      makeImage({ id: 'a', tags: ['cat'] }),
+      makeImage({ id: 'b', tags: ['dog'] }),
+    ];
+    const records = new Map(images.map(img => [img.id, img]));
+    const source = {
+      getPostings: () => undefined,
+      allIds: () => records.keys(),
+      getRecord: (id: string) => records.get(id),
+    };
+
+    expect(executePlan(compileQuery(parseTagSearch('cat'), { view: 'all' }), source)).toEqual(['a']);
+    expect(executePlan(compileQuery(parseTagSearch('-cat'), { view: 'all' }), source)).toEqual(['b']);
+  });
+});
+
+describe('compareImages', () => {
+  it('should fall back to savedAt for images never updated', () => {
+    const a = makeImage({ id: 'a', savedAt: 10 });
+    const b = makeImage({ id: 'b', savedAt: 5, updatedAt: 20 });
+    expect(compareImages(a, b, 'updatedAt-desc')).toBeGreaterThan(0);
+  });
+
+  it('should break ties by ID', () => {
+    const a = makeImage({ id: 'a' });
+    const b = makeImage({ id: 'b' });
+    expect(compareImages(a, b, 'savedAt-desc')).toBeLessThan(0);
+    expect(compareImages(b, a, 'savedAt-asc')).toBeGreaterThan(0);
+  });
+});
+
+describe('QueryIndex', () => {
+  const images = generateImages(2000, 1, 40);
+  const index = new QueryIndex();
+  index.sync(images);
+
+  const queries = [
+    '',
+    'tag_0',
+    'tag_0 tag_1',
+    'tag_3 -tag_0',
+    'tag_5 or tag_6 tag_1',
+    'rating:g,s',
+    'is:unrated tag_2',
+    'rating:q is:unrated -tag_1 -tag_2',
+    'is:png tag_0',
+    'tagcount:0',
+    'tagcount:3..5 tag_0',
+    'tag_39',
+    'no_such_tag',
+  ];
+
+  it.each(queries)('should match the reference filter for "%s"', (query) => {
+    const parsed = parseTagSearch(query);
+    for (const view of ['all', 'trash'] as const) {
+      const expected = sortedIds(referenceFilter(images, parsed, view), 'savedAt-desc');
+      const result = index.query(parsed, { view, sort: 'savedAt-desc' });
+      expect(result.ids).toEqual(expected);
+      expect(result.total).toBe(expected.length);
+    }
+  });
+
+  it.each(['savedAt-asc', 'updatedAt-desc', 'fileSize-desc', 'dimensions-asc', 'url-asc'])('should sort by %s', (sort) => {
+    // Broad and narrow queries take different sort paths
+    for (const query of ['', 'tag_20']) {
+      const parsed = parseTagSearch(query);
+      expect(index.query(parsed, { view: 'all', sort }).ids).toEqual(sortedIds(referenceFilter(images, parsed, 'all'), sort));
+    }
+  });
+
+  it('should evaluate grouped and wildcard queries per record', () => {
+    const query = '(tag_0 -tag_1) or (tag_2 tag_3) tag_1*';
+    const { root } = parseQuery(query);
+    const expected = images.filter(img => !img.isDeleted && evaluateQueryNode(root!, img));
+
+    expect(index.query(parseTagSearch(query), { view: 'all', sort: 'savedAt-desc' }).ids).toEqual(sortedIds(expected, 'savedAt-desc'));
+  });
+
+  it('should filter by album membership from the query options', () => {
+    const members = images.slice(0, 30).map(img => img.id);
+    const albums = new Map([['favorites', new Set(members)]]);
+    const expected = images.slice(0, 30).filter(img => !img.isDeleted && img.tags?.includes('tag_0'));
+
+    const result = index.query(parseTagSearch('album:favorites tag_0'), { view: 'all', sort: 'savedAt-desc', albums });
+    expect(result.ids).toEqual(sortedIds(expected, 'savedAt-desc'));
+    expect(index.query(parseTagSearch('album:favorites'), { view: 'all' }).total).toBe(0);
+  });
+
+  it('should match artist: against post artists and tags in the artist category', () => {
+    const local = [
+      makeImage({ id: 'post', site: 'x', artist: 'Foo', pageUrl: 'https://x.com/foo/status/1' }),
+      makeImage({ id: 'tagged', tags: ['foo', 'cat'] }),
+      makeImage({ id: 'general', tags: ['bar'] }),
+      makeImage({ id: 'other', tags: ['baz'] }),
+    ];
+    const localIndex = new QueryIndex();
+    localIndex.sync(local);
+    const tagCategories = { foo: 'artist' as const, baz: 'artist' as const };
+
+    expect(localIndex.query(parseTagSearch('artist:foo'), { view: 'all', tagCategories }).ids.sort()).toEqual(['post', 'tagged']);
+    expect(localIndex.query(parseTagSearch('-artist:foo'), { view: 'all', tagCategories }).ids.sort()).toEqual(['general', 'other']);
+    expect(localIndex.query(parseTagSearch('artist:foo or artist:baz'), { view: 'all', tagCategories }).ids.sort()).toEqual(['other', 'post', 'tagged']);
+    // A tag outside the artist category isn't an artist
+    expect(localIndex.query(parseTagSearch('artist:bar'), { view: 'all', tagCategories }).ids).toEqual([]);
+    // Without categories only post metadata counts
+    expect(localIndex.query(parseTagSearch('artist:foo'), { view: 'all' }).ids).toEqual(['post']);
+  });
+
+  it('should page through sorted results', () => {
+    const all = index.query(null, { view: 'all', sort: 'fileSize-desc' });
+    const page = index.query(null, { view: 'all', sort: 'fileSize-desc', offset: 100, limit: 50 });
+    expect(page.ids).toEqual(all.ids.slice(100, 150));
+    expect(page.total).toBe(all.total);
+  });
+
+  it('should count tag postings', () => {
+    expect(index.getTagCount('tag_0')).toBe(images.filter(img => img.tags?.includes('tag_0')).length);
+    expect(index.getTagCount('no_such_tag')).toBe(0);
+  });
+
+  describe('sync', () => {
+    it('should pick up replaced tags, ratings and trash state', () => {
+      const local = [
+        makeImage({ id: 'a', tags: ['cat'], savedAt: 1 }),
+        makeImage({ id: 'b', tags: ['dog'], savedAt: 2 }),
+      ];
+      const localIndex = new QueryIndex();
+      localIndex.sync(local);
+      expect(localIndex.query(parseTagSearch('cat'), { view: 'all' }).ids).toEqual(['a']);
+
+      // The viewer mutates records in place but always assigns a new tags array
+      local[1].tags = [...local[1].tags!, 'cat'];
+      local[0].rating = 'e';
+      localIndex.sync(local);
+      expect(localIndex.query(parseTagSearch('cat'), { view: 'all', sort: 'savedAt-desc' }).ids).toEqual(['b', 'a']);
+      expect(localIndex.query(parseTagSearch('rating:e'), { view: 'all' }).ids).toEqual(['a']);
+
+      local[0].isDeleted = true;
+      localIndex.sync(local);
+      expect(localIndex.query(null, { view: 'trash' }).ids).toEqual(['a']);
+      expect(localIndex.query(null, { view: 'all' }).ids).toEqual(['b']);
+    });
+
+    it('should re-sort after sort fields change', () => {
+      const local = [makeImage({ id: 'a', savedAt: 1 }), makeImage({ id: 'b', savedAt: 2 })];
+      const localIndex = new QueryIndex();
+      localIndex.sync(local);
+      expect(localIndex.query(null, { view: 'all', sort: 'updatedAt-desc' }).ids).toEqual(['b', 'a']);
+
+      local[0].updatedAt = 3;
+      localIndex.sync(local);
+      expect(localIndex.query(null, { view: 'all', sort: 'updatedAt-desc' }).ids).toEqual(['a', 'b']);
+    });
+
+    it('should drop removed images and index added ones', () => {
+      const localIndex = new QueryIndex();
+      localIndex.sync([makeImage({ id: 'a', tags: ['cat'] }), makeImage({ id: 'b', tags: ['cat'] })]);
+      localIndex.sync([makeImage({ id: 'b', tags: ['cat'] }), makeImage({ id: 'c', tags: ['cat'] })]);
+
+      expect(localIndex.size).toBe(2);
+      expect(localIndex.query(parseTagSearch('cat'), { view: 'all', sort: 'url-asc' }).ids).toEqual(['b', 'c']);
+      expect(localIndex.getTagCount('cat')).toBe(2);
+    });
+  });
+});
+
+// Asserts on the work done rather than on timings, so slow machines can't
+// fail it: quadratic or full-scan work shows up in the counts
+describe('QueryIndex on a large library (100k images)', () => {
+  const images = generateImages(100_000, 42);
+  const index = new QueryIndex();
+
+  beforeAll(() => {
+    index.sync(images);
+  });
+
+  // Wraps the index, counting the IDs the executor walks and the records it reads
+  function countingSource() {
+    const counts = { visited: 0, recordsRead: 0 };
+    const count = (ids: Iterable<string>): Iterable<string> => ({
+      *[Symbol.iterator]() {
+        for (const id of ids) {
+          counts.visited++;
+          yield id;
+        }
+      },
+    });
+    const source: PostingSource = {
+      getPostings: ref => {
+        const set = index.getPostings(ref);
+        // Only what the executor uses of a set
+        return {
+          size: set.size,
+          has: (id: string) => set.has(id),
+          forEach: set.forEach.bind(set),
+          [Symbol.iterator]: () => count(set)[Symbol.iterator](),
+        } as unknown as ReadonlySet<string>;
+      },
+      allIds: () => count(index.allIds()),
+      getRecord: id => {
+        counts.recordsRead++;
+        return index.getRecord(id);
+      },
+    };
+    return { source, counts };
+  }
+
+  it('should index every image', () => {
+    expect(index.size).toBe(100_000);
+  });
+
+  it('should answer selective tag searches by walking only the smallest posting list', () => {
+    const parsed = parseTagSearch('tag_500 tag_0 -tag_1');
+    const { source, counts } = countingSource();
+    const matches = executePlan(compileQuery(parsed, { view: 'all' }), source);
+
+    const expected = referenceFilter(images, parsed, 'all');
+    expect(matches.sort()).toEqual(expected.map(image => image.id).sort());
+    expect(counts.visited).toBe(index.getTagCount('tag_500'));
+    expect(counts.visited).toBeLessThan(images.length / 100);
+    expect(counts.recordsRead).toBe(0);
+  });
+
+  it('should page broad searches using the cached sort order', () => {
+    const parsed = parseTagSearch('rating:g,s is:unrated');
+    // First query sorts everything once; later pages reuse the order
+    index.query(parsed, { view: 'all', sort: 'fileSize-desc', limit: 100 });
+    const sort = vi.spyOn(Array.prototype, 'sort');
+    const result = index.query(parsed, { view: 'all', sort: 'fileSize-desc', offset: 1000, limit: 100 });
+    // The executor still orders its handful of posting lists
+    const largeSorts = sort.mock.contexts.filter(array => (array as unknown[]).length > 100).length;
+    sort.mockRestore();
+
+    const expected = sortedIds(referenceFilter(images, parsed, 'all'), 'fileSize-desc');
+    expect(result.total).toBe(expected.length);
+    expect(result.ids).toEqual(expected.slice(1000, 1100));
+    expect(largeSorts).toBe(0);
+  });
+
+  it('should re-sync a single edit without rebuilding other postings', () => {
+    const untouched = index.getPostings({ field: 'tags', value: 'tag_0' });
+    images[123] = { ...images[123], tags: ['freshly_added'] };
+    index.sync(images);
+
+    expect(index.query(parseTagSearch('freshly_added'), { view: images[123].isDeleted ? 'trash' : 'all' }).ids).toEqual([images[123].id]);
+    // Rebuilding would have replaced every posting list
+    expect(index.getPostings({ field: 'tags', value: 'tag_0' })).toBe(untouched);
+  });
+});
@@ -0,0 +1,351 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseQuery, tokenizeQuery, parseTagCountValue, wildcardToRegExp } from '../src/viewer/query-parser';
+import { parseTagSearch } from '../src/viewer/tag-utils';
+import { evaluateQueryNode } from '../src/storage/query-engine';
+import type { ImageMetadata } from '../src/types';
+
+const tag = (name: string) => ({ type: 'tag', tag: name, wildcard: false });
+
+function makeImage(overrides: Partial<ImageMetadata>): ImageMetadata {
+  return {
+    id: 'id',
+    imageUrl: 'https://example.com/image.png',
+    pageUrl: 'https://example.com/',
+    mimeType: 'image/png',
+    fileSize: 1000,
+    width: 100,
+    height: 100,
+    savedAt: 0,
+    ...overrides,
+  };
+}
+
+// Parses and evaluates a query against one image
+function matches(query: string, image: ImageMetadata): boolean {
+  const { root } = parseQuery(query);
+  return root ? evaluateQueryNode(root, image) : true;
+}
+
+describe('tokenizeQuery', () => {
+  it('should split parentheses off words', () => {
+    expect(tokenizeQuery('(cat or dog)').map(t => t.type)).toEqual(['lparen', 'term', 'or', 'term', 'rparen']);
+  });
+
+  it('should keep parentheses that belong to a tag', () => {
+    const tokens = tokenizeQuery('(saber_(fate))');
+    expect(tokens.map(t => t.text)).toEqual(['(', 'saber_(fate)', ')']);
+  });
+
+  it('should read quoted tags verbatim, with escaped quotes', () => {
+    const tokens = tokenizeQuery('"or" "a \\"b\\""');
+    expect(tokens).toEqual([
+      { type: 'term', text: 'or', quoted: true, position: 0 },
+      { type: 'term', text: 'a "b"', quoted: true, position: 5 },
+    ]);
+  });
+
+  it('should emit prefix operators only when attached to a term', () => {
+    expect(tokenizeQuery('-~cat').map(t => t.type)).toEqual(['not', 'tilde', 'term']);
+    expect(tokenizeQuery('cat - dog').map(t => t.type)).toEqual(['term', 'term']);
+  });
+});
+
+describe('parseQuery', () => {
+  it('should bind or tighter than implicit AND', () => {
+    expect(parseQuery('a b or c').root).toEqual({
+      type: 'and',
+      operands: [tag('a'), { type: 'or', operands: [tag('b'), tag('c')] }],
+    });
+  });
+
+  it('should group with parentheses', () => {
+    expect(parseQuery('(a b) or (c -d)').root).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'and', operands: [tag('a'), tag('b')] },
+        { type: 'and', operands: [tag('c'), { type: 'not', operand: tag('d') }] },
+      ],
+    });
+  });
+
+  it('should nest groups and negate them', () => {
+    expect(parseQuery('-(a or (b c))').root).toEqual({
+      type: 'not',
+      operand: { type: 'or', operands: [tag('a'), { type: 'and', operands: [tag('b'), tag('c')] }] },
+    });
+  });
+
+  it('should collect ~tags into one OR group', () => {
+    expect(parseQuery('~a x ~b ~c').root).toEqual({
+      type: 'and',
+      operands: [tag('x'), { type: 'or', operands: [tag('a'), tag('b'), tag('c')] }],
+    });
+  });
+
+  it('should treat quoted tags literally', () => {
+    expect(parseQuery('"rating:e" "-x"').root).toEqual({ type: 'and', operands: [tag('rating:e'), tag('-x')] });
+  });
+
+  it('should mark wildcard tags', () => {
+    expect(parseQuery('cat*').root).toEqual({ type: 'tag', tag: 'cat*', wildcard: true });
+  });
+
+  it('should parse metatags into typed nodes', () => {
+    expect(parseQuery('rating:general,e is:JPG tagcount:2..4 -site:Pixiv').root).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'rating', ratings: ['g', 'e'] },
+        { type: 'fileType', mimeTypes: ['image/jpeg'] },
+        { type: 'tagCount', filter: { operator: 'range', min: 2, max: 4 } },
+        { type: 'not', operand: { type: 'site', values: ['pixiv'] } },
+      ],
+    });
+  });
+
+  it('should accept comma-separated file types', () => {
+    expect(parseQuery('is:png,jpg').root).toEqual({ type: 'fileType', mimeTypes: ['image/png', 'image/jpeg'] });
+  });
+
+  it('should cancel double negation', () => {
+    expect(parseQuery('-(-cat)').root).toEqual(tag('cat'));
+  });
+
+  describe('syntax errors', () => {
+    it('should report a missing closing parenthesis and keep the group', () => {
+      const { root, errors } = parseQuery('(cat or dog');
+      expect(errors).toEqual([{ message: "Missing ')'", position: 0 }]);
+      expect(root).toEqual({ type: 'or', operands: [tag('cat'), tag('dog')] });
+    });
+
+    it('should report an unmatched closing parenthesis', () => {
+      expect(parseQuery('cat) dog').errors).toEqual([{ message: "Unmatched ')'", position: 3 }]);
+    });
+
+    it('should report a dangling or', () => {
+      const { root, errors } = parseQuery('cat or');
+      expect(errors).toEqual([{ message: "'or' needs a tag on both sides", position: 4 }]);
+      expect(root).toEqual(tag('cat'));
+    });
+
+    it('should report invalid metatag values and drop the term', () => {
+      const { root, errors } = parseQuery('cat rating:x');
+      expect(errors).toEqual([{ message: "Invalid rating: value 'x'", position: 4 }]);
+      expect(root).toEqual(tag('cat'));
+    });
+
+    it('should report empty groups and unterminated quotes', () => {
+      expect(parseQuery('()').errors.map(e => e.message)).toEqual(['Empty parentheses']);
+      expect(parseQuery('"cat').errors.map(e => e.message)).toEqual(['Missing closing quote']);
+    });
+
+    it('should sort errors by position', () => {
+      const positions = parseQuery('or cat) (dog').errors.map(e => e.position);
+      expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    });
+  });
+});
+
+describe('parseTagCountValue', () => {
+  it('should parse every tagcount form', () => {
+    expect(parseTagCountValue('3')).toEqual({ operator: '=', value: 3 });
+    expect(parseTagCountValue('>=2')).toEqual({ operator: '>=', value: 2 });
+    expect(parseTagCountValue('5..1')).toEqual({ operator: 'range', min: 1, max: 5 });
+    expect(parseTagCountValue('1,4')).toEqual({ operator: 'list', values: [1, 4] });
+    expect(parseTagCountValue('many')).toBeNull();
+  });
+});
+
+describe('numeric metatags', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const numeric = (query: string) => parseQuery(query).root;
+
+  it('should parse width, height and mpixels with the tagcount operators', () => {
+    expect(numeric('width:>=1920')).toEqual({ type: 'numeric', field: 'width', filters: [{ operator: '>=', value: 1920 }] });
+    expect(numeric('height:720,1080')).toEqual({ type: 'numeric', field: 'height', filters: [{ operator: 'list', values: [720, 1080] }] });
+    expect(numeric('mpixels:2..8')).toEqual({ type: 'numeric', field: 'mpixels', filters: [{ operator: 'range', min: 2, max: 8 }] });
+  });
+
+  it('should accept open-ended ranges', () => {
+    expect(numeric('width:..800')).toEqual({ type: 'numeric', field: 'width', filters: [{ operator: '<=', value: 800 }] });
+    expect(numeric('width:800..')).toEqual({ type: 'numeric', field: 'width', filters: [{ operator: '>=', value: 800 }] });
+  });
+
+  it('should read file size units', () => {
+    expect(numeric('filesize:>1.5MB')).toEqual({ type: 'numeric', field: 'fileSize', filters: [{ operator: '>', value: 1572864 }] });
+    expect(numeric('filesize:200kb..1m')).toEqual({
+      type: 'numeric',
+      field: 'fileSize',
+      filters: [{ operator: 'range', min: 204800, max: 1048576 }],
+    });
+  });
+
+  it('should match exact file sizes within 5%', () => {
+    expect(numeric('filesize:100')).toEqual({ type: 'numeric', field: 'fileSize', filters: [{ operator: 'range', min: 95, max: 105 }] });
+  });
+
+  it('should read ratios as W:H or decimals', () => {
+    const node = numeric('ratio:16:9');
+    expect(node).toMatchObject({ type: 'numeric', field: 'ratio', filters: [{ operator: 'range' }] });
+    expect(numeric('ratio:>1')).toEqual({ type: 'numeric', field: 'ratio', filters: [{ operator: '>', value: 1 }] });
+  });
+
+  it('should read absolute dates as whole periods', () => {
+    const start = new Date(2024, 0, 15).getTime();
+    const end = new Date(2024, 0, 16).getTime() - 1;
+    expect(numeric('date:2024-01-15')).toEqual({ type: 'numeric', field: 'savedAt', filters: [{ operator: 'range', min: start, max: end }] });
+    expect(numeric('saved:>2024-01-15')).toEqual({ type: 'numeric', field: 'savedAt', filters: [{ operator: '>', value: end }] });
+    expect(numeric('updated:<2024')).toEqual({
+      type: 'numeric',
+      field: 'updatedAt',
+      filters: [{ operator: '<', value: new Date(2024, 0, 1).getTime() }],
+    });
+  });
+
+  it('should span date ranges from the first period start to the last period end', () => {
+    expect(numeric('date:2023-12..2024-01')).toEqual({
+      type: 'numeric',
+      field: 'savedAt',
+      filters: [{ operator: 'range', min: new Date(2023, 11, 1).getTime(), max: new Date(2024, 1, 1).getTime() - 1 }],
+    });
+  });
+
+  it('should keep date lists as separate periods', () => {
+    expect(numeric('date:2024-01-01,2024-02-01')).toMatchObject({ type: 'numeric', filters: [{ operator: 'range' }, { operator: 'range' }] });
+  });
+
+  it('should read relative dates and age: as durations before now', () => {
+    expect(numeric('date:<7d')).toEqual({ type: 'numeric', field: 'age', filters: [{ operator: '<', value: 7 * DAY }] });
+    expect(numeric('updated:>2w')).toEqual({ type: 'numeric', field: 'updatedAge', filters: [{ operator: '>', value: 14 * DAY }] });
+    expect(numeric('age:1d..1mo')).toEqual({ type: 'numeric', field: 'age', filters: [{ operator: 'range', min: DAY, max: 30 * DAY }] });
+  });
+
+  it('should report invalid values', () => {
+    expect(parseQuery('date:2024-13-01').errors).toHaveLength(1);
+    expect(parseQuery('date:2024-02-30').errors).toHaveLength(1);
+    expect(parseQuery('filesize:3parsecs').errors).toHaveLength(1);
+    expect(parseQuery('ratio:16:0').errors).toHaveLength(1);
+    expect(parseQuery('width:..').errors).toHaveLength(1);
+  });
+
+  it('should go to expressions in parseTagSearch', () => {
+    expect(parseTagSearch('cat width:>100').expressions).toHaveLength(1);
+  });
+});
+
+describe('wildcardToRegExp', () => {
+  it('should match * against any run and escape everything else', () => {
+    expect(wildcardToRegExp('cat*').test('cat_ears')).toBe(true);
+    expect(wildcardToRegExp('*_(fate)').test('saber_(fate)')).toBe(true);
+    expect(wildcardToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('parseTagSearch with grouped queries', () => {
+  it('should keep flat terms in the flat fields', () => {
+    const result = parseTagSearch('cat ~dog ~fox -bird');
+    expect(result.includeTags).toEqual(['cat']);
+    expect(result.orGroups).toEqual([['dog', 'fox']]);
+    expect(result.excludeTags).toEqual(['bird']);
+    expect(result.expressions).toEqual([]);
+  });
+
+  it('should move grouped and wildcard terms to expressions', () => {
+    const result = parseTagSearch('cat (dog -fox) or bird hair*');
+    expect(result.includeTags).toEqual(['cat']);
+    expect(result.expressions).toHaveLength(2);
+  });
+
+  it('should expose syntax errors', () => {
+    expect(parseTagSearch('(cat').errors).toHaveLength(1);
+    expect(parseTagSearch('cat').errors).toEqual([]);
+  });
+});
+
+describe('evaluateQueryNode', () => {
+  const image = makeImage({ tags: ['cat', 'cat_ears', 'solo'], rating: 's', mimeType: 'image/jpeg' });
+
+  it('should evaluate nested boolean queries', () => {
+    expect(matches('(cat dog) or (solo -dog)', image)).toBe(true);
+    expect(matches('(cat dog) or (solo fox)', image)).toBe(false);
+    expect(matches('-(dog or fox) cat', image)).toBe(true);
+    expect(matches('~dog ~fox cat', image)).toBe(false);
+  });
+
+  it('should evaluate wildcards', () => {
+    expect(matches('cat_*', image)).toBe(true);
+    expect(matches('*_hair', image)).toBe(false);
+  });
+
+  it('should evaluate metatags inside groups', () => {
+    expect(matches('rating:e or is:jpg', image)).toBe(true);
+    expect(matches('-(rating:s tagcount:3)', image)).toBe(false);
+    expect(matches('is:unrated or tagcount:>5', image)).toBe(false);
+  });
+
+  describe('numeric metatags', () => {
+    const photo = makeImage({
+      width: 1920,
+      height: 1080,
+      fileSize: 2 * 1024 * 1024 + 5000,
+      savedAt: new Date(2024, 5, 10, 12).getTime(),
+      updatedAt: new Date(2024, 6, 1).getTime(),
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should compare dimensions, size and ratio', () => {
+      expect(matches('width:1920 height:>1000 mpixels:2..3', photo)).toBe(true);
+      expect(matches('filesize:2MB', photo)).toBe(true);
+      expect(matches('filesize:<2mb', photo)).toBe(false);
+      expect(matches('ratio:16:9', photo)).toBe(true);
+      expect(matches('ratio:<1', photo)).toBe(false);
+    });
+
+    it('should compare dates by period', () => {
+      expect(matches('date:2024-06', photo)).toBe(true);
+      expect(matches('date:2024-06-10', photo)).toBe(true);
+      expect(matches('date:>2024-06-10', photo)).toBe(false);
+      expect(matches('updated:2024-07-01', photo)).toBe(true);
+    });
+
+    it('should fall back to the save date when never updated', () => {
+      expect(matches('updated:2024-06-10', { ...photo, updatedAt: undefined })).toBe(true);
+    });
+
+    it('should compare relative dates against now', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2024, 6, 3));
+      expect(matches('date:<7d', photo)).toBe(false);
+      expect(matches('age:>1w', photo)).toBe(true);
+      expect(matches('updated:<7d', photo)).toBe(true);
+    });
+
+    it('should never match ratio for images without dimensions', () => {
+      expect(matches('ratio:>0', makeImage({ width: 0, height: 0 }))).toBe(false);
+    });
+  });
+
+  it('should evaluate site and artist filters from the page URL', () => {
+    const post = makeImage({ pageUrl: 'https://x.com/Painter/status/1' });
+    expect(matches('site:x artist:painter', post)).toBe(true);
+    expect(matches('-site:x or account:x/painter', post)).toBe(true);
+    expect(matches('site:pixiv', post)).toBe(false);
+  });
+
+  it('should evaluate album filters against the given membership', () => {
+    const image = makeImage({ id: 'a' });
+    const albums = new Map([['summer_trip', new Set(['a'])], ['other', new Set(['b'])]]);
+    const { root } = parseQuery('album:Summer_Trip -album:other');
+
+    expect(root).toEqual({ type: 'and', operands: [
+      { type: 'album', values: ['summer_trip'] },
+      { type: 'not', operand: { type: 'album', values: ['other'] } },
+    ] });
+    expect(evaluateQueryNode(root!, image, albums)).toBe(true);
+    expect(evaluateQueryNode(root!, makeImage({ id: 'b' }), albums)).toBe(false);
+    // Without membership, album: matches nothing
+    expect(evaluateQueryNode(root!, image)).toBe(false);
+  });
+});
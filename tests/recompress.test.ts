@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { canRecompress, summarizeRecompression } from '../src/storage/recompress';
+
+describe('canRecompress', () => {
+  it('should accept still raster formats', () => {
+    expect(canRecompress('image/png')).toBe(true);
+    expect(canRecompress('image/jpeg')).toBe(true);
+    expect(canRecompress('image/webp')).toBe(true);
+  });
+
+  it('should skip GIFs, SVGs and non-images', () => {
+    expect(canRecompress('image/gif')).toBe(false);
+    expect(canRecompress('image/svg+xml')).toBe(false);
+    expect(canRecompress('application/octet-stream')).toBe(false);
+  });
+});
+
+describe('summarizeRecompression', () => {
+  it('should total the sizes before and after and the space saved', () => {
+    expect(summarizeRecompression([
+      { originalSize: 5000, fileSize: 1000 },
+      { originalSize: 3000, fileSize: 2500 },
+    ])).toEqual({ count: 2, originalBytes: 8000, newBytes: 3500, savedBytes: 4500 });
+  });
+
+  it('should report nothing saved for an empty preview', () => {
+    expect(summarizeRecompression([])).toEqual({ count: 0, originalBytes: 0, newBytes: 0, savedBytes: 0 });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  orderSavedSearches,
+  moveInDisplayOrder,
+  buildSearchFragment,
+  parseSearchFragment,
+  findSavedSearch,
+  exportSavedSearchesToJSON,
+  type SavedSearch,
+} from '../src/storage/saved-searches';
+
+const search = (id: string, pinned = false, name = id): SavedSearch => ({
+  id,
+  name,
+  urlQuery: '',
+  tagQuery: id,
+  pinned,
+  createdAt: 0,
+});
+
+const ids = (searches: SavedSearch[]) => searches.map(s => s.id);
+
+describe('orderSavedSearches', () => {
+  it('should list pinned searches first, keeping stored order within each section', () => {
+    const searches = [search('a'), search('b', true), search('c'), search('d', true)];
+    expect(ids(orderSavedSearches(searches))).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('should not modify the input', () => {
+    const searches = [search('a'), search('b', true)];
+    orderSavedSearches(searches);
+    expect(ids(searches)).toEqual(['a', 'b']);
+  });
+});
+
+describe('moveInDisplayOrder', () => {
+  const searches = [search('a'), search('b', true), search('c'), search('d')];
+
+  it('should swap with the neighbour in display order', () => {
+    expect(ids(moveInDisplayOrder(searches, 'c', 1))).toEqual(['b', 'a', 'd', 'c']);
+    expect(ids(moveInDisplayOrder(searches, 'c', -1))).toEqual(['b', 'c', 'a', 'd']);
+  });
+
+  it('should not move a search across the pinned boundary', () => {
+    expect(moveInDisplayOrder(searches, 'a', -1)).toBe(searches);
+    expect(moveInDisplayOrder(searches, 'b', 1)).toBe(searches);
+  });
+
+  it('should ignore moves past either end and unknown IDs', () => {
+    expect(moveInDisplayOrder(searches, 'b', -1)).toBe(searches);
+    expect(moveInDisplayOrder(searches, 'd', 1)).toBe(searches);
+    expect(moveInDisplayOrder(searches, 'missing', 1)).toBe(searches);
+  });
+});
+
+describe('search fragments', () => {
+  it('should round-trip an ID through the fragment', () => {
+    const fragment = buildSearchFragment({ id: 'a b/c' });
+    expect(fragment).toBe('#search=a%20b%2Fc');
+    expect(parseSearchFragment(fragment)).toBe('a b/c');
+  });
+
+  it('should return null without a search parameter', () => {
+    expect(parseSearchFragment('')).toBeNull();
+    expect(parseSearchFragment('#')).toBeNull();
+    expect(parseSearchFragment('#search=')).toBeNull();
+    expect(parseSearchFragment('#other=1')).toBeNull();
+  });
+
+  it('should read the parameter alongside others', () => {
+    expect(parseSearchFragment('#foo=1&search=favorites')).toBe('favorites');
+  });
+});
+
+describe('findSavedSearch', () => {
+  const searches = [search('id-1', false, 'Favorites'), search('favorites', false, 'Other')];
+
+  it('should prefer an ID match', () => {
+    expect(findSavedSearch(searches, 'favorites')?.name).toBe('Other');
+  });
+
+  it('should fall back to a case-insensitive name match', () => {
+    expect(findSavedSearch(searches, 'FAVORITES')?.id).toBe('id-1');
+  });
+
+  it('should return undefined when nothing matches', () => {
+    expect(findSavedSearch(searches, 'nope')).toBeUndefined();
+  });
+});
+
+describe('exportSavedSearchesToJSON', () => {
+  it('should export every field', () => {
+    const searches = [{ ...search('a', true), urlQuery: 'pixiv' }];
+    expect(JSON.parse(exportSavedSearchesToJSON(searches))).toEqual(searches);
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest';
+import { dHashFromGrayscale, hammingDistance, popCount32 } from '../src/storage/image-hash';
+import { groupSimilarImages, pickBestImage, compareImageQuality } from '../src/viewer/similar-images';
+import type { ImageMetadata } from '../src/types';
+
+function makeImage(overrides: Partial<ImageMetadata>): ImageMetadata {
+  return {
+    id: 'id',
+    imageUrl: 'https://example.com/image.png',
+    pageUrl: 'https://example.com/',
+    mimeType: 'image/png',
+    fileSize: 1000,
+    width: 100,
+    height: 100,
+    savedAt: 0,
+    ...overrides,
+  };
+}
+
+// 9×8 gradient where every pixel is brighter than its right neighbour
+const descendingRows = Array.from({ length: 72 }, (_, i) => 255 - (i % 9) * 10);
+
+describe('dHashFromGrayscale', () => {
+  it('should set every bit when each pixel is brighter than its right neighbour', () => {
+    expect(dHashFromGrayscale(descendingRows)).toBe('ffffffffffffffff');
+  });
+
+  it('should clear every bit for an ascending gradient', () => {
+    const ascending = Array.from({ length: 72 }, (_, i) => (i % 9) * 10);
+    expect(dHashFromGrayscale(ascending)).toBe('0000000000000000');
+  });
+
+  it('should clear every bit for a flat image', () => {
+    expect(dHashFromGrayscale(new Array(72).fill(128))).toBe('0000000000000000');
+  });
+
+  it('should encode rows from top to bottom, left bit first', () => {
+    const pixels = new Array(72).fill(0);
+    // First row: only the first comparison is "brighter"
+    pixels[0] = 10;
+    expect(dHashFromGrayscale(pixels)).toBe('8000000000000000');
+  });
+
+  it('should reject arrays of the wrong size', () => {
+    expect(() => dHashFromGrayscale([1, 2, 3])).toThrow();
+  });
+});
+
+describe('hammingDistance', () => {
+  it('should be 0 for identical hashes', () => {
+    expect(hammingDistance('0123456789abcdef', '0123456789abcdef')).toBe(0);
+  });
+
+  it('should count differing bits across both halves', () => {
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('0000000100000001', '0000000000000000')).toBe(2);
+  });
+
+  it('should count bits in the high half', () => {
+    expect(hammingDistance('8000000000000000', '0000000000000000')).toBe(1);
+  });
+});
+
+describe('popCount32', () => {
+  it('should count set bits', () => {
+    expect(popCount32(0)).toBe(0);
+    expect(popCount32(0xffffffff)).toBe(32);
+    expect(popCount32(0b1011)).toBe(3);
+  });
+});
+
+describe('compareImageQuality / pickBestImage', () => {
+  it('should prefer the larger resolution', () => {
+    const small = makeImage({ id: 'small', width: 600, height: 800, fileSize: 900000 });
+    const large = makeImage({ id: 'large', width: 1200, height: 1600, fileSize: 500000 });
+    expect(pickBestImage([small, large])?.id).toBe('large');
+  });
+
+  it('should break resolution ties by file size', () => {
+    const a = makeImage({ id: 'a', fileSize: 1000 });
+    const b = makeImage({ id: 'b', fileSize: 2000 });
+    expect(pickBestImage([a, b])?.id).toBe('b');
+  });
+
+  it('should break remaining ties by earliest save', () => {
+    const newer = makeImage({ id: 'newer', savedAt: 200 });
+    const older = makeImage({ id: 'older', savedAt: 100 });
+    expect(compareImageQuality(older, newer)).toBeLessThan(0);
+    expect(pickBestImage([newer, older])?.id).toBe('older');
+  });
+
+  it('should return undefined for an empty group', () => {
+    expect(pickBestImage([])).toBeUndefined();
+  });
+});
+
+describe('groupSimilarImages', () => {
+  it('should group images within the threshold', () => {
+    const images = [
+      makeImage({ id: 'a', perceptualHash: '0000000000000000' }),
+      makeImage({ id: 'b', perceptualHash: '0000000000000003' }),
+      makeImage({ id: 'c', perceptualHash: 'ffffffffffffffff' }),
+    ];
+    const groups = groupSimilarImages(images, 2);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].map(img => img.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should not group images beyond the threshold', () => {
+    const images = [
+      makeImage({ id: 'a', perceptualHash: '0000000000000000' }),
+      makeImage({ id: 'b', perceptualHash: '0000000000000007' }),
+    ];
+    expect(groupSimilarImages(images, 2)).toEqual([]);
+  });
+
+  it('should treat threshold 0 as identical hashes only', () => {
+    const images = [
+      makeImage({ id: 'a', perceptualHash: 'abcdef0123456789' }),
+      makeImage({ id: 'b', perceptualHash: 'abcdef0123456789' }),
+      makeImage({ id: 'c', perceptualHash: 'abcdef0123456788' }),
+    ];
+    const groups = groupSimilarImages(images, 0);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].map(img => img.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should chain transitively similar images into one group', () => {
+    const images = [
+      makeImage({ id: 'a', perceptualHash: '0000000000000000' }),
+      makeImage({ id: 'b', perceptualHash: '0000000000000001' }),
+      makeImage({ id: 'c', perceptualHash: '0000000000000003' }),
+    ];
+    // a~b and b~c at threshold 1, a and c differ by 2 bits
+    const groups = groupSimilarImages(images, 1);
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toHaveLength(3);
+  });
+
+  it('should ignore images without a perceptual hash', () => {
+    const images = [
+      makeImage({ id: 'a', perceptualHash: '0000000000000000' }),
+      makeImage({ id: 'b' }),
+      makeImage({ id: 'c' }),
+    ];
+    expect(groupSimilarImages(images, 64)).toEqual([]);
+  });
+
+  it('should order each group best copy first', () => {
+    const images = [
+      makeImage({ id: 'thumb', width: 300, height: 300, perceptualHash: '0000000000000000' }),
+      makeImage({ id: 'original', width: 3000, height: 3000, perceptualHash: '0000000000000001' }),
+    ];
+    const groups = groupSimilarImages(images, 4);
+    expect(groups[0][0].id).toBe('original');
+  });
+
+  it('should order larger groups first', () => {
+    const images = [
+      makeImage({ id: 'a1', perceptualHash: '0000000000000000' }),
+      makeImage({ id: 'a2', perceptualHash: '0000000000000000' }),
+      makeImage({ id: 'b1', perceptualHash: 'ffffffffffffffff' }),
+      makeImage({ id: 'b2', perceptualHash: 'ffffffffffffffff' }),
+      makeImage({ id: 'b3', perceptualHash: 'ffffffffffffffff' }),
+    ];
+    const groups = groupSimilarImages(images, 0);
+    expect(groups.map(group => group.length)).toEqual([3, 2]);
+  });
+});
+
+describe('groupSimilarImages on larger libraries', () => {
+  // Deterministic pseudo-random 32-bit values (mulberry32)
+  function random(seed: number): () => number {
+    return () => {
+      seed = (seed + 0x6d2b79f5) >>> 0;
+      let t = seed;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return (t ^ (t >>> 14)) >>> 0;
+    };
+  }
+
+  const toHash = (high: number, low: number) => high.toString(16).padStart(8, '0') + low.toString(16).padStart(8, '0');
+
+  // Clusters of hashes around a few originals, up to 12 bits off each
+  function clusteredImages(count: number): ImageMetadata[] {
+    const next = random(42);
+    const originals = Array.from({ length: 20 }, () => [next(), next()]);
+    return Array.from({ length: count }, (_, i) => {
+      let [high, low] = originals[next() % originals.length];
+      const flips = next() % 13;
+      for (let f = 0; f < flips; f++) {
+        const bit = next() % 64;
+        if (bit < 32) high = (high ^ (1 << bit)) >>> 0;
+        else low = (low ^ (1 << (bit - 32))) >>> 0;
+      }
+      return makeImage({ id: `img-${i}`, perceptualHash: toHash(high, low) });
+    });
+  }
+
+  // Every pair compared, the way grouping worked before bucketing
+  function groupByComparingPairs(images: ImageMetadata[], threshold: number): string[][] {
+    const groupOf = new Map(images.map(img => [img.id, new Set([img.id])]));
+    for (let i = 0; i < images.length; i++) {
+      for (let j = i + 1; j < images.length; j++) {
+        const a = groupOf.get(images[i].id)!;
+        const b = groupOf.get(images[j].id)!;
+        if (a !== b && hammingDistance(images[i].perceptualHash!, images[j].perceptualHash!) <= threshold) {
+          b.forEach(id => {
+            a.add(id);
+            groupOf.set(id, a);
+          });
+        }
+      }
+    }
+    return normalize(Array.from(new Set(groupOf.values())).map(group => Array.from(group)));
+  }
+
+  const normalize = (groups: string[][]) =>
+    groups.filter(group => group.length >= 2).map(group => [...group].sort()).sort((a, b) => a[0].localeCompare(b[0]));
+
+  it('should find the same groups as comparing every pair', () => {
+    const images = clusteredImages(600);
+    for (const threshold of [0, 1, 3, 4, 6, 8, 11, 16]) {
+      const groups = groupSimilarImages(images, threshold).map(group => group.map(img => img.id));
+      expect(normalize(groups)).toEqual(groupByComparingPairs(images, threshold));
+    }
+  });
+
+  it('should group hashes whose differing bits are spread over every chunk', () => {
+    const images = [
+      makeImage({ id: 'a', perceptualHash: '0000000000000000' }),
+      makeImage({ id: 'b', perceptualHash: '0001000100010001' }),
+      // Enough unrelated images that the hashes are bucketed
+      ...Array.from({ length: 100 }, (_, i) => makeImage({ id: `other-${i}`, perceptualHash: toHash(0xffffffff, i * 0x01010101 >>> 0) })),
+    ];
+    const groups = groupSimilarImages(images, 4).filter(group => group.some(img => img.id === 'a'));
+    expect(groups).toHaveLength(1);
+    expect(groups[0].map(img => img.id).sort()).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { extractPostMetadataFromUrl, getImagePostMetadata } from '../src/sites/extractors';
+
+describe('extractPostMetadataFromUrl', () => {
+  describe('X', () => {
+    it('should extract handle and status ID', () => {
+      expect(extractPostMetadataFromUrl('https://x.com/artist_name/status/1234567890')).toEqual({
+        site: 'x',
+        artist: 'artist_name',
+        postId: '1234567890',
+      });
+    });
+
+    it('should treat twitter.com the same', () => {
+      expect(extractPostMetadataFromUrl('https://twitter.com/artist_name/status/42/photo/1')).toEqual({
+        site: 'x',
+        artist: 'artist_name',
+        postId: '42',
+      });
+    });
+
+    it('should extract the handle from profile pages', () => {
+      expect(extractPostMetadataFromUrl('https://x.com/artist_name/media')).toEqual({ site: 'x', artist: 'artist_name' });
+    });
+
+    it('should skip non-account paths', () => {
+      expect(extractPostMetadataFromUrl('https://x.com/home')).toEqual({ site: 'x' });
+      expect(extractPostMetadataFromUrl('https://x.com/i/bookmarks')).toEqual({ site: 'x' });
+      expect(extractPostMetadataFromUrl('https://x.com/search?q=cat')).toEqual({ site: 'x' });
+    });
+  });
+
+  describe('Pixiv', () => {
+    it('should extract the artwork ID', () => {
+      expect(extractPostMetadataFromUrl('https://www.pixiv.net/en/artworks/98765')).toEqual({ site: 'pixiv', postId: '98765' });
+    });
+
+    it('should extract the user ID from profile pages', () => {
+      expect(extractPostMetadataFromUrl('https://www.pixiv.net/users/555/illustrations')).toEqual({ site: 'pixiv', artist: '555' });
+    });
+  });
+
+  describe('Fanbox', () => {
+    it('should read the creator from the subdomain', () => {
+      expect(extractPostMetadataFromUrl('https://creator.fanbox.cc/posts/1234')).toEqual({
+        site: 'fanbox',
+        artist: 'creator',
+        postId: '1234',
+      });
+    });
+
+    it('should read the creator from @ paths', () => {
+      expect(extractPostMetadataFromUrl('https://www.fanbox.cc/@creator/posts/1234')).toEqual({
+        site: 'fanbox',
+        artist: 'creator',
+        postId: '1234',
+      });
+    });
+  });
+
+  describe('DeviantArt', () => {
+    it('should extract artist and the numeric deviation ID', () => {
+      expect(extractPostMetadataFromUrl('https://www.deviantart.com/someartist/art/Sunset-Over-Sea-987654321')).toEqual({
+        site: 'deviantart',
+        artist: 'someartist',
+        postId: '987654321',
+      });
+    });
+
+    it('should skip non-artist paths', () => {
+      expect(extractPostMetadataFromUrl('https://www.deviantart.com/search?q=cat')).toEqual({ site: 'deviantart' });
+    });
+  });
+
+  describe('ArtStation', () => {
+    it('should extract the artwork hash', () => {
+      expect(extractPostMetadataFromUrl('https://www.artstation.com/artwork/aBcD12')).toEqual({ site: 'artstation', postId: 'aBcD12' });
+    });
+
+    it('should read the artist from portfolio subdomains and profile paths', () => {
+      expect(extractPostMetadataFromUrl('https://painter.artstation.com/projects/xYz9')).toEqual({
+        site: 'artstation',
+        artist: 'painter',
+        postId: 'xYz9',
+      });
+      expect(extractPostMetadataFromUrl('https://www.artstation.com/painter')).toEqual({ site: 'artstation', artist: 'painter' });
+    });
+  });
+
+  describe('Danbooru', () => {
+    it('should extract the post ID', () => {
+      expect(extractPostMetadataFromUrl('https://danbooru.donmai.us/posts/123456?q=cat')).toEqual({ site: 'danbooru', postId: '123456' });
+    });
+  });
+
+  describe('Bluesky', () => {
+    it('should extract handle and record key', () => {
+      expect(extractPostMetadataFromUrl('https://bsky.app/profile/artist.bsky.social/post/3kabc123')).toEqual({
+        site: 'bluesky',
+        artist: 'artist.bsky.social',
+        postId: '3kabc123',
+      });
+    });
+  });
+
+  describe('Misskey', () => {
+    it('should extract the user from profile pages', () => {
+      expect(extractPostMetadataFromUrl('https://misskey.io/@artist')).toEqual({ site: 'misskey', artist: 'artist' });
+    });
+
+    it('should extract note IDs', () => {
+      expect(extractPostMetadataFromUrl('https://misskey.io/notes/9abcdef123')).toEqual({ site: 'misskey', postId: '9abcdef123' });
+    });
+  });
+
+  describe('Tumblr', () => {
+    it('should read the blog from the subdomain', () => {
+      expect(extractPostMetadataFromUrl('https://someblog.tumblr.com/post/712345/a-slug')).toEqual({
+        site: 'tumblr',
+        artist: 'someblog',
+        postId: '712345',
+      });
+    });
+
+    it('should read the blog from www.tumblr.com paths', () => {
+      expect(extractPostMetadataFromUrl('https://www.tumblr.com/someblog/712345/a-slug')).toEqual({
+        site: 'tumblr',
+        artist: 'someblog',
+        postId: '712345',
+      });
+      expect(extractPostMetadataFromUrl('https://www.tumblr.com/dashboard')).toEqual({ site: 'tumblr' });
+    });
+  });
+
+  describe('other sites', () => {
+    it('should use the host name without www as site', () => {
+      expect(extractPostMetadataFromUrl('https://www.example.com/gallery/1')).toEqual({ site: 'example.com' });
+    });
+
+    it('should return null for non-web and invalid URLs', () => {
+      expect(extractPostMetadataFromUrl('file:///photo.jpg')).toBeNull();
+      expect(extractPostMetadataFromUrl('not a url')).toBeNull();
+    });
+  });
+});
+
+describe('getImagePostMetadata', () => {
+  it('should prefer fields captured at save time', () => {
+    const image = {
+      pageUrl: 'https://x.com/home',
+      site: 'x',
+      artist: 'captured',
+      postId: '1',
+      postedAt: 1700000000000,
+      postText: 'hello',
+    };
+    expect(getImagePostMetadata(image)).toEqual({
+      site: 'x',
+      artist: 'captured',
+      postId: '1',
+      postedAt: 1700000000000,
+      postText: 'hello',
+    });
+  });
+
+  it('should derive metadata from the page URL for older images', () => {
+    expect(getImagePostMetadata({ pageUrl: 'https://x.com/someone/status/7' })).toEqual({
+      site: 'x',
+      artist: 'someone',
+      postId: '7',
+    });
+  });
+
+  it('should return an empty object for local files', () => {
+    expect(getImagePostMetadata({ pageUrl: 'file:///photo.jpg' })).toEqual({});
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseSrcset, getLargestSrcsetCandidate } from '../src/content/srcset';
+
+describe('parseSrcset', () => {
+  it('should parse width descriptors', () => {
+    expect(parseSrcset('small.jpg 480w, large.jpg 1080w')).toEqual([
+      { url: 'small.jpg', value: 480, descriptor: 'w' },
+      { url: 'large.jpg', value: 1080, descriptor: 'w' },
+    ]);
+  });
+
+  it('should parse density descriptors', () => {
+    expect(parseSrcset('a.png 1x, a@2x.png 2x, a@1.5x.png 1.5x')).toEqual([
+      { url: 'a.png', value: 1, descriptor: 'x' },
+      { url: 'a@2x.png', value: 2, descriptor: 'x' },
+      { url: 'a@1.5x.png', value: 1.5, descriptor: 'x' },
+    ]);
+  });
+
+  it('should treat a candidate without descriptor as 1x', () => {
+    expect(parseSrcset('only.jpg')).toEqual([{ url: 'only.jpg', value: 1, descriptor: 'x' }]);
+  });
+
+  it('should handle a trailing comma directly after the URL', () => {
+    expect(parseSrcset('a.jpg, b.jpg 2x').map(c => c.url)).toEqual(['a.jpg', 'b.jpg']);
+  });
+
+  it('should keep commas inside URLs', () => {
+    const srcset = 'https://cdn.example.com/img/w_400,h_300/pic.jpg 400w, https://cdn.example.com/img/w_800,h_600/pic.jpg 800w';
+    expect(parseSrcset(srcset).map(c => c.url)).toEqual([
+      'https://cdn.example.com/img/w_400,h_300/pic.jpg',
+      'https://cdn.example.com/img/w_800,h_600/pic.jpg',
+    ]);
+  });
+
+  it('should tolerate extra whitespace and newlines', () => {
+    const srcset = `
+      a.jpg   100w,
+      b.jpg   200w
+    `;
+    expect(parseSrcset(srcset)).toHaveLength(2);
+  });
+
+  it('should return an empty array for an empty string', () => {
+    expect(parseSrcset('')).toEqual([]);
+    expect(parseSrcset('  ,  ')).toEqual([]);
+  });
+});
+
+describe('getLargestSrcsetCandidate', () => {
+  it('should pick the widest width candidate', () => {
+    expect(getLargestSrcsetCandidate('a.jpg 320w, c.jpg 1600w, b.jpg 800w')).toBe('c.jpg');
+  });
+
+  it('should pick the highest density candidate', () => {
+    expect(getLargestSrcsetCandidate('a.jpg, b.jpg 3x, c.jpg 2x')).toBe('b.jpg');
+  });
+
+  it('should prefer width descriptors over density descriptors', () => {
+    expect(getLargestSrcsetCandidate('a.jpg 4x, b.jpg 1200w')).toBe('b.jpg');
+  });
+
+  it('should return null for an empty srcset', () => {
+    expect(getLargestSrcsetCandidate('')).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { computeStorageStats, getImageDomain, getMonthKey, LOCAL_FILES_DOMAIN } from '../src/storage/storage-stats';
+import type { SavedImage } from '../src/types';
+
+const image = (overrides: Partial<Omit<SavedImage, 'blob'>> = {}): Omit<SavedImage, 'blob'> => ({
+  id: 'img-1',
+  imageUrl: 'https://i.pximg.net/img/1.png',
+  pageUrl: 'https://www.pixiv.net/artworks/1',
+  pageTitle: 'Sunset',
+  mimeType: 'image/png',
+  fileSize: 1000,
+  width: 1920,
+  height: 1080,
+  savedAt: new Date(2024, 4, 15).getTime(),
+  ...overrides,
+});
+
+describe('getImageDomain', () => {
+  it('should return the host without www', () => {
+    expect(getImageDomain('https://www.pixiv.net/artworks/1')).toBe('pixiv.net');
+    expect(getImageDomain('https://danbooru.donmai.us/posts/1')).toBe('danbooru.donmai.us');
+  });
+
+  it('should group uploaded files and unparsable URLs as local files', () => {
+    expect(getImageDomain('file:///photo.png')).toBe(LOCAL_FILES_DOMAIN);
+    expect(getImageDomain('not a url')).toBe(LOCAL_FILES_DOMAIN);
+  });
+});
+
+describe('getMonthKey', () => {
+  it('should format the local month as YYYY-MM', () => {
+    expect(getMonthKey(new Date(2024, 0, 31).getTime())).toBe('2024-01');
+    expect(getMonthKey(new Date(2023, 11, 1).getTime())).toBe('2023-12');
+  });
+});
+
+describe('computeStorageStats', () => {
+  const images = [
+    image({ id: 'a', fileSize: 500, rating: 'g' }),
+    image({ id: 'b', fileSize: 3000, mimeType: 'image/jpeg', pageUrl: 'https://x.com/a/status/1', savedAt: new Date(2024, 5, 1).getTime() }),
+    image({ id: 'c', fileSize: 1500, isDeleted: true, rating: 'g' }),
+  ];
+
+  it('should total every image and the trash separately', () => {
+    const stats = computeStorageStats(images);
+    expect(stats.count).toBe(3);
+    expect(stats.bytes).toBe(5000);
+    expect(stats.trash).toEqual({ count: 1, bytes: 1500 });
+  });
+
+  it('should group by type, site and rating, largest first', () => {
+    const stats = computeStorageStats(images);
+    expect(stats.byMimeType).toEqual([
+      { key: 'image/jpeg', count: 1, bytes: 3000 },
+      { key: 'image/png', count: 2, bytes: 2000 },
+    ]);
+    expect(stats.byDomain.map(group => group.key)).toEqual(['x.com', 'pixiv.net']);
+    expect(stats.byRating).toEqual([
+      { key: 'unrated', count: 1, bytes: 3000 },
+      { key: 'g', count: 2, bytes: 2000 },
+    ]);
+  });
+
+  it('should group by month saved, newest first', () => {
+    expect(computeStorageStats(images).byMonth).toEqual([
+      { key: '2024-06', count: 1, bytes: 3000 },
+      { key: '2024-05', count: 2, bytes: 2000 },
+    ]);
+  });
+
+  it('should list the largest images up to the limit', () => {
+    expect(computeStorageStats(images, 2).largest.map(({ id }) => id)).toEqual(['b', 'c']);
+  });
+
+  it('should return empty groups for an empty library', () => {
+    const stats = computeStorageStats([]);
+    expect(stats.bytes).toBe(0);
+    expect(stats.byMimeType).toEqual([]);
+    expect(stats.largest).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveTagAlias,
+  expandImplications,
+  applyTagAliases,
+  validateTagRelation,
+  exportTagAliasesToJSON,
+  type TagAliasTable,
+} from '../src/storage/tag-aliases';
+
+const relation = (antecedent: string, consequent: string) => ({ id: `${antecedent}-${consequent}`, antecedent, consequent });
+
+const table = (aliases: [string, string][] = [], implications: [string, string][] = []): TagAliasTable => ({
+  aliases: aliases.map(([a, c]) => relation(a, c)),
+  implications: implications.map(([a, c]) => relation(a, c)),
+});
+
+describe('resolveTagAlias', () => {
+  it('should follow alias chains', () => {
+    const { aliases } = table([['neko', 'cats'], ['cats', 'cat']]);
+    expect(resolveTagAlias('neko', aliases)).toBe('cat');
+    expect(resolveTagAlias('dog', aliases)).toBe('dog');
+  });
+
+  it('should stop on a cycle', () => {
+    const { aliases } = table([['a', 'b'], ['b', 'a']]);
+    expect(resolveTagAlias('a', aliases)).toBe('a');
+  });
+});
+
+describe('expandImplications', () => {
+  it('should add implied tags transitively after the input tags', () => {
+    const { implications } = table([], [['cat_ears', 'animal_ears'], ['animal_ears', 'animal_features']]);
+    expect(expandImplications(['cat_ears', 'solo'], implications)).toEqual(['cat_ears', 'solo', 'animal_ears', 'animal_features']);
+  });
+
+  it('should not duplicate tags already present', () => {
+    const { implications } = table([], [['cat_ears', 'animal_ears']]);
+    expect(expandImplications(['animal_ears', 'cat_ears'], implications)).toEqual(['animal_ears', 'cat_ears']);
+  });
+});
+
+describe('applyTagAliases', () => {
+  it('should replace aliases and drop the duplicates they create', () => {
+    expect(applyTagAliases(['cats', 'cat', 'neko'], table([['cats', 'cat'], ['neko', 'cat']]))).toEqual(['cat']);
+  });
+
+  it('should apply implications to aliased tags', () => {
+    const rules = table([['nekomimi', 'cat_ears']], [['cat_ears', 'animal_ears']]);
+    expect(applyTagAliases(['nekomimi'], rules)).toEqual(['cat_ears', 'animal_ears']);
+  });
+
+  it('should resolve aliases on both sides of an implication', () => {
+    const rules = table([['kemonomimi', 'animal_ears']], [['cat_ears', 'kemonomimi']]);
+    expect(applyTagAliases(['cat_ears'], rules)).toEqual(['cat_ears', 'animal_ears']);
+  });
+});
+
+describe('validateTagRelation', () => {
+  const rules = table([['cats', 'cat']], [['cat_ears', 'animal_ears']]);
+
+  it('should accept a new alias or implication', () => {
+    expect(validateTagRelation('alias', relation('neko', 'cat'), rules)).toBeNull();
+    expect(validateTagRelation('implication', relation('dog_ears', 'animal_ears'), rules)).toBeNull();
+  });
+
+  it('should reject empty, spaced and self-referencing tags', () => {
+    expect(validateTagRelation('alias', relation('', 'cat'), rules)).not.toBeNull();
+    expect(validateTagRelation('alias', relation('cat ears', 'cat'), rules)).not.toBeNull();
+    expect(validateTagRelation('implication', relation('cat', 'cat'), rules)).not.toBeNull();
+  });
+
+  it('should reject a second alias for a tag and alias cycles', () => {
+    expect(validateTagRelation('alias', relation('cats', 'kitty'), rules)).toContain('already aliased');
+    expect(validateTagRelation('alias', relation('cat', 'cats'), rules)).not.toBeNull();
+  });
+
+  it('should reject implications on aliased tags and implication cycles', () => {
+    expect(validateTagRelation('implication', relation('cats', 'animal'), rules)).toContain('use that tag instead');
+    expect(validateTagRelation('implication', relation('animal_ears', 'cat_ears'), rules)).toContain('already implies');
+    expect(validateTagRelation('implication', relation('cat_ears', 'animal_ears'), rules)).toContain('already implies');
+  });
+});
+
+describe('exportTagAliasesToJSON', () => {
+  it('should export both tables', () => {
+    const rules = table([['cats', 'cat']], [['cat_ears', 'animal_ears']]);
+    expect(JSON.parse(exportTagAliasesToJSON(rules))).toEqual(rules);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCategorizedTag,
+  extractTagCategories,
+  applyTagCategoryUpdates,
+  getTagCategory,
+  sortTagsByCategory,
+  groupByTagCategory,
+  splitTagsByCategory,
+  type TagCategoryMap,
+} from '../src/storage/tag-categories';
+
+describe('parseCategorizedTag', () => {
+  it('should read full and short category prefixes', () => {
+    expect(parseCategorizedTag('artist:foo')).toEqual({ tag: 'foo', category: 'artist' });
+    expect(parseCategorizedTag('char:saber_(fate)')).toEqual({ tag: 'saber_(fate)', category: 'character' });
+    expect(parseCategorizedTag('copy:fate')).toEqual({ tag: 'fate', category: 'copyright' });
+    expect(parseCategorizedTag('Meta:highres')).toEqual({ tag: 'highres', category: 'meta' });
+    expect(parseCategorizedTag('gen:cat')).toEqual({ tag: 'cat', category: 'general' });
+  });
+
+  it('should leave other colons alone', () => {
+    expect(parseCategorizedTag('cat:pet')).toEqual({ tag: 'cat:pet' });
+    expect(parseCategorizedTag('rating:g')).toEqual({ tag: 'rating:g' });
+    expect(parseCategorizedTag('artist:')).toEqual({ tag: 'artist:' });
+    expect(parseCategorizedTag(':artist')).toEqual({ tag: ':artist' });
+  });
+
+  it('should only strip the first prefix', () => {
+    expect(parseCategorizedTag('artist:meta:foo')).toEqual({ tag: 'meta:foo', category: 'artist' });
+  });
+});
+
+describe('extractTagCategories', () => {
+  it('should return plain tags and the categories given', () => {
+    expect(extractTagCategories(['artist:foo', 'cat', 'char:bar'])).toEqual({
+      tags: ['foo', 'cat', 'bar'],
+      categories: { foo: 'artist', bar: 'character' },
+    });
+  });
+
+  it('should drop duplicates left after stripping prefixes', () => {
+    expect(extractTagCategories(['foo', 'artist:foo']).tags).toEqual(['foo']);
+  });
+
+  it('should let a later prefix win', () => {
+    expect(extractTagCategories(['artist:foo', 'copy:foo']).categories).toEqual({ foo: 'copyright' });
+  });
+});
+
+describe('applyTagCategoryUpdates', () => {
+  it('should add categories and remove tags set back to general', () => {
+    const categories: TagCategoryMap = { foo: 'artist', bar: 'character' };
+    expect(applyTagCategoryUpdates(categories, { bar: 'general', baz: 'meta' })).toEqual({ foo: 'artist', baz: 'meta' });
+    expect(categories).toEqual({ foo: 'artist', bar: 'character' });
+  });
+});
+
+describe('category ordering', () => {
+  const categories: TagCategoryMap = { painter: 'artist', saber: 'character', fate: 'copyright', highres: 'meta' };
+  const tags = ['sword', 'highres', 'saber', 'Armor', 'painter', 'fate'];
+
+  it('should default unknown tags to general', () => {
+    expect(getTagCategory('sword', categories)).toBe('general');
+  });
+
+  it('should sort by category, then name', () => {
+    expect(sortTagsByCategory(tags, categories)).toEqual(['painter', 'fate', 'saber', 'Armor', 'sword', 'highres']);
+  });
+
+  it('should group in display order and skip empty categories', () => {
+    const groups = groupByTagCategory(['sword', 'saber', 'painter'], tag => tag, categories);
+    expect(groups).toEqual([
+      { category: 'artist', items: ['painter'] },
+      { category: 'character', items: ['saber'] },
+      { category: 'general', items: ['sword'] },
+    ]);
+  });
+
+  it('should split tags into Danbooru fields', () => {
+    expect(splitTagsByCategory(tags, categories)).toEqual({
+      artist: ['painter'],
+      copyright: ['fate'],
+      character: ['saber'],
+      general: ['Armor', 'sword'],
+      meta: ['highres'],
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { replaceTag, countTags } from '../src/viewer/tag-utils';
+
+describe('replaceTag', () => {
+  it('should rename a tag and keep the tags sorted', () => {
+    expect(replaceTag(['cat', 'solo'], 'cat', 'tabby')).toEqual(['solo', 'tabby']);
+  });
+
+  it('should drop the duplicate when merging into a tag already present', () => {
+    expect(replaceTag(['cat', 'cats', 'solo'], 'cats', 'cat')).toEqual(['cat', 'solo']);
+  });
+
+  it('should remove the tag when the replacement is null', () => {
+    expect(replaceTag(['cat', 'solo'], 'cat', null)).toEqual(['solo']);
+    expect(replaceTag(['cat'], 'cat', null)).toEqual([]);
+  });
+
+  it('should leave tags without the tag unchanged', () => {
+    expect(replaceTag(['dog', 'solo'], 'cat', 'tabby')).toEqual(['dog', 'solo']);
+  });
+});
+
+describe('countTags', () => {
+  it('should count images per tag, most used first, then by name', () => {
+    const images = [{ tags: ['cat', 'solo'] }, { tags: ['cat', 'dog'] }, {}, { tags: ['bird'] }];
+    expect(countTags(images)).toEqual([['cat', 2], ['bird', 1], ['dog', 1], ['solo', 1]]);
+  });
+
+  it('should return nothing for an untagged library', () => {
+    expect(countTags([{}, { tags: [] }])).toEqual([]);
+  });
+});
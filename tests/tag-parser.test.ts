@@ -274,6 +274,47 @@ describe('parseTagSearch', () => {
     });
   });
 
+  describe('account filters', () => {
+    it('should parse site/handle and bare handles', () => {
+      const result = parseTagSearch('account:pixiv/123 account:Painter');
+      expect(result.accounts).toEqual(new Set(['pixiv/123', 'painter']));
+    });
+
+    it('should parse excluded accounts with dotted handles', () => {
+      const result = parseTagSearch('-account:bluesky/artist.bsky.social cat');
+      expect(result.excludeAccounts).toEqual(new Set(['bluesky/artist.bsky.social']));
+      expect(result.includeTags).toEqual(['cat']);
+    });
+  });
+
+  describe('artist and site filters', () => {
+    it('should parse artist: and site: metatags', () => {
+      const result = parseTagSearch('artist:someone site:pixiv');
+      expect(result.artists).toEqual(new Set(['someone']));
+      expect(result.sites).toEqual(new Set(['pixiv']));
+      expect(result.includeTags).toEqual([]);
+    });
+
+    it('should lowercase values and split comma-separated lists', () => {
+      const result = parseTagSearch('artist:Alice,bob.bsky.social');
+      expect(result.artists).toEqual(new Set(['alice', 'bob.bsky.social']));
+    });
+
+    it('should parse exclusions', () => {
+      const result = parseTagSearch('girl -artist:spammer -site:example.com');
+      expect(result.excludeArtists).toEqual(new Set(['spammer']));
+      expect(result.excludeSites).toEqual(new Set(['example.com']));
+      expect(result.includeTags).toEqual(['girl']);
+      expect(result.excludeTags).toEqual([]);
+    });
+
+    it('should not treat tags containing the metatag name as metatags', () => {
+      const result = parseTagSearch('fan_artist:x');
+      expect(result.artists.size).toBe(0);
+      expect(result.includeTags).toEqual(['fan_artist:x']);
+    });
+  });
+
   describe('complex combinations', () => {
     it('should parse all filter types together', () => {
       const result = parseTagSearch('girl cat or boy -dog rating:s is:png tagcount:>2');
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { fitThumbnailSize } from '../src/storage/thumbnails';
+
+describe('fitThumbnailSize', () => {
+  it('should scale the longest side down to the thumbnail size', () => {
+    expect(fitThumbnailSize(4000, 3000, 512)).toEqual({ width: 512, height: 384 });
+    expect(fitThumbnailSize(1080, 1920, 256)).toEqual({ width: 144, height: 256 });
+  });
+
+  it('should never upscale small images', () => {
+    expect(fitThumbnailSize(200, 100, 512)).toEqual({ width: 200, height: 100 });
+    expect(fitThumbnailSize(512, 512, 512)).toEqual({ width: 512, height: 512 });
+  });
+
+  it('should keep very thin images at least one pixel wide', () => {
+    expect(fitThumbnailSize(10000, 2, 256)).toEqual({ width: 256, height: 1 });
+  });
+});
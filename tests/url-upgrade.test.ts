@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getUpgradeCandidates, registerUrlUpgradeResolver } from '../src/sites/url-upgrade';
+
+describe('getUpgradeCandidates', () => {
+  describe('X', () => {
+    it('should request name=orig for sized media URLs', () => {
+      expect(getUpgradeCandidates('https://pbs.twimg.com/media/GabcXYZ?format=jpg&name=small')).toEqual([
+        'https://pbs.twimg.com/media/GabcXYZ?format=jpg&name=orig',
+      ]);
+    });
+
+    it('should add name=orig when no size is given', () => {
+      expect(getUpgradeCandidates('https://pbs.twimg.com/media/GabcXYZ?format=png')).toEqual([
+        'https://pbs.twimg.com/media/GabcXYZ?format=png&name=orig',
+      ]);
+    });
+
+    it('should convert legacy extension URLs', () => {
+      expect(getUpgradeCandidates('https://pbs.twimg.com/media/GabcXYZ.jpg:large')).toEqual([
+        'https://pbs.twimg.com/media/GabcXYZ?format=jpg&name=orig',
+      ]);
+      expect(getUpgradeCandidates('https://pbs.twimg.com/media/GabcXYZ.png')).toEqual([
+        'https://pbs.twimg.com/media/GabcXYZ?format=png&name=orig',
+      ]);
+    });
+
+    it('should leave originals alone', () => {
+      expect(getUpgradeCandidates('https://pbs.twimg.com/media/GabcXYZ?format=jpg&name=orig')).toEqual([]);
+    });
+
+    it('should ignore profile images', () => {
+      expect(getUpgradeCandidates('https://pbs.twimg.com/profile_images/1/abc_normal.jpg')).toEqual([]);
+    });
+  });
+
+  describe('Pixiv', () => {
+    const original = 'https://i.pximg.net/img-original/img/2024/01/02/03/04/05/123456_p0';
+
+    it('should map master images to every original extension', () => {
+      expect(getUpgradeCandidates(
+        'https://i.pximg.net/img-master/img/2024/01/02/03/04/05/123456_p0_master1200.jpg'
+      )).toEqual([`${original}.png`, `${original}.jpg`, `${original}.gif`]);
+    });
+
+    it('should map cropped thumbnails', () => {
+      expect(getUpgradeCandidates(
+        'https://i.pximg.net/c/250x250_80_a2/img-master/img/2024/01/02/03/04/05/123456_p0_square1200.jpg'
+      )[0]).toBe(`${original}.png`);
+      expect(getUpgradeCandidates(
+        'https://i.pximg.net/c/360x360_70/custom-thumb/img/2024/01/02/03/04/05/123456_p0_custom1200.jpg'
+      )[0]).toBe(`${original}.png`);
+    });
+
+    it('should keep the page index', () => {
+      expect(getUpgradeCandidates(
+        'https://i.pximg.net/img-master/img/2024/01/02/03/04/05/123456_p3_master1200.jpg'
+      )[0]).toBe('https://i.pximg.net/img-original/img/2024/01/02/03/04/05/123456_p3.png');
+    });
+
+    it('should not offer the clicked original as a candidate', () => {
+      expect(getUpgradeCandidates(`${original}.jpg`)).toEqual([]);
+    });
+  });
+
+  describe('Bluesky', () => {
+    it('should map feed thumbnails to full size', () => {
+      expect(getUpgradeCandidates(
+        'https://cdn.bsky.app/img/feed_thumbnail/plain/did:plc:abc/bafkrei123@jpeg'
+      )).toEqual(['https://cdn.bsky.app/img/feed_fullsize/plain/did:plc:abc/bafkrei123@jpeg']);
+    });
+  });
+
+  describe('srcset', () => {
+    it('should offer the largest candidate resolved against the base URL', () => {
+      expect(getUpgradeCandidates('https://example.com/img/small.jpg', {
+        srcset: 'small.jpg 480w, large.jpg 1600w',
+        baseUrl: 'https://example.com/img/',
+      })).toEqual(['https://example.com/img/large.jpg']);
+    });
+
+    it('should fall back to the page URL as base', () => {
+      expect(getUpgradeCandidates('https://example.com/a.jpg', {
+        srcset: '/b.jpg 2x',
+        pageUrl: 'https://example.com/post/1',
+      })).toEqual(['https://example.com/b.jpg']);
+    });
+
+    it('should return nothing when the clicked image is already the largest', () => {
+      expect(getUpgradeCandidates('https://example.com/large.jpg', {
+        srcset: 'https://example.com/small.jpg 480w, https://example.com/large.jpg 1600w',
+      })).toEqual([]);
+    });
+  });
+
+  it('should return nothing for unknown sites and invalid URLs', () => {
+    expect(getUpgradeCandidates('https://example.com/photo.jpg')).toEqual([]);
+    expect(getUpgradeCandidates('not a url')).toEqual([]);
+  });
+
+  it('should run registered resolvers after the built-in ones', () => {
+    registerUrlUpgradeResolver({
+      name: 'test-site',
+      resolve: url => url.hostname === 'images.test' ? [url.href.replace('/thumb/', '/full/')] : [],
+    });
+
+    expect(getUpgradeCandidates('https://images.test/thumb/1.jpg')).toEqual(['https://images.test/full/1.jpg']);
+  });
+
+  it('should skip resolvers that throw', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    registerUrlUpgradeResolver({
+      name: 'broken',
+      resolve: () => {
+        throw new Error('boom');
+      },
+    });
+
+    expect(getUpgradeCandidates('https://pbs.twimg.com/media/GabcXYZ.jpg')).toEqual([
+      'https://pbs.twimg.com/media/GabcXYZ?format=jpg&name=orig',
+    ]);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});